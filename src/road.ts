@@ -3,826 +3,6685 @@ import * as fs from "node:fs"
 import * as fp from "node:fs/promises"
 import * as ph from "node:path"
 import * as os from "node:os"
-import { on } from "node:events"
+import * as cr from "node:crypto"
+import * as zl from "node:zlib"
+import * as cp from "node:child_process"
+import * as net from "node:net"
+import { EventEmitter, on } from "node:events"
+import { PassThrough, Readable, Writable, addAbortSignal } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import { AsyncLocalStorage } from "node:async_hooks"
+import { StringDecoder } from "node:string_decoder"
 import * as inb from "./base.js"
 
 
 
 
-// Type management
+// Backends
 /**
- * Represents a union type of default file system node constructors.
- * 
- * This type can be used to refer to any of the following node types:
- * - {@link File}
- * - {@link Folder}
- * - {@link BlockDevice}
- * - {@link CharacterDevice}
- * - {@link SymbolicLink}
- * - {@link Fifo}
- * - {@link Socket}
- *
- * Each member is referenced by its constructor type.
+ * The subset of file system metadata the road classes rely on.
+ * Satisfied by {@link fs.Stats} as well as by the stats of a {@link MemoryBackend}.
  */
-export type road_t = typeof File | typeof Folder | typeof BlockDevice | typeof CharacterDevice | typeof SymbolicLink | typeof Fifo | typeof Socket
+export type RoadStats = Pick<fs.Stats,
+  'dev' | 'ino' | 'mode' | 'nlink' | 'uid' | 'gid' | 'size' | 'blksize' | 'blocks' |
+  'atimeMs' | 'mtimeMs' | 'ctimeMs' | 'birthtimeMs' | 'atime' | 'mtime' | 'ctime' | 'birthtime' |
+  'isFile' | 'isDirectory' | 'isSymbolicLink' | 'isFIFO' | 'isSocket' | 'isBlockDevice' | 'isCharacterDevice'>
 /**
- * Synchronously determines the constructor type of a file system object at the given path.
- *
- * If a string path is provided, it retrieves the mode using {@link fs.lstatSync}.
- * If a numeric mode is provided, it uses that directly.
- * The function then returns the corresponding {@link road_t} type based on the mode.
+ * A file system watcher as returned by {@link RoadBackend.watch}.
+ * Emits `'change'` with the event type and the changed name (or `null`) like {@link fs.FSWatcher}, and `'error'`.
+ */
+export type RoadWatcher = EventEmitter & { close(): void }
+/**
+ * An open file as returned by {@link RoadBackend.open} and {@link RoadBackend.open_sync}.
+ * Positions of `null` read or write at (and advance) the current file position.
+ */
+export interface RoadHandle {
+  read(_buffer: Buffer, _offset: number, _length: number, _position: number | null): Promise<number>
+  read_sync(_buffer: Buffer, _offset: number, _length: number, _position: number | null): number
+  write(_buffer: Buffer, _offset: number, _length: number, _position: number | null): Promise<number>
+  write_sync(_buffer: Buffer, _offset: number, _length: number, _position: number | null): number
+  stat(): Promise<RoadStats>
+  stat_sync(): RoadStats
+  truncate(_length: number): Promise<void>
+  truncate_sync(_length: number): void
+  chmod(_mode: number): Promise<void>
+  chmod_sync(_mode: number): void
+  flush(): Promise<void>
+  flush_sync(): void
+  close(): Promise<void>
+  close_sync(): void
+}
+/**
+ * Options for reading whole files and streams through a {@link RoadBackend}.
+ */
+export interface RoadStreamOptions {
+  flags?: string | undefined
+  encoding?: BufferEncoding | undefined
+  start?: number | undefined
+  signal?: AbortSignal | undefined
+}
+/**
+ * The file system operations all road classes are built on.
  *
- * @param _pathorMode - The file system path (string) or mode (number) to evaluate.
- * @returns The type of the file system object as a {@link road_t}.
- * @throws {Error} If the mode does not match any known file system object type.
+ * Every operation comes as an asynchronous and a `_sync` twin. Errors are Node.js style errors
+ * carrying a `code` such as `ENOENT` or `EACCES`, so that callers can't tell backends apart.
+ * The active backend is selected through {@link useBackend} and {@link withBackend}.
  */
-export function roadType(_pathorMode: string | number): road_t {
-  const mode = typeof _pathorMode === 'string' ? fs.lstatSync(_pathorMode).mode : _pathorMode
-  switch (mode & fs.constants.S_IFMT) {
-    case fs.constants.S_IFREG: return File
-    case fs.constants.S_IFDIR: return Folder
-    case fs.constants.S_IFBLK: return BlockDevice
-    case fs.constants.S_IFCHR: return CharacterDevice
-    case fs.constants.S_IFLNK: return SymbolicLink
-    case fs.constants.S_IFIFO: return Fifo
-    case fs.constants.S_IFSOCK: return Socket
-    default: throw new Error(`Unknown mode type ${mode} for path/mode: '${_pathorMode}'`)
+export interface RoadBackend {
+  // Metadata
+  access(_path: string, _mode: number): Promise<void>
+  access_sync(_path: string, _mode: number): void
+  lstat(_path: string): Promise<RoadStats>
+  lstat_sync(_path: string): RoadStats
+  stat(_path: string): Promise<RoadStats>
+  stat_sync(_path: string): RoadStats
+  realpath(_path: string): Promise<string>
+  realpath_sync(_path: string): string
+  chmod(_path: string, _mode: number): Promise<void>
+  chmod_sync(_path: string, _mode: number): void
+  lchown(_path: string, _uid: number, _gid: number): Promise<void>
+  lchown_sync(_path: string, _uid: number, _gid: number): void
+  utimes(_path: string, _atime: Date, _mtime: Date): Promise<void>
+  utimes_sync(_path: string, _atime: Date, _mtime: Date): void
+  lutimes(_path: string, _atime: Date, _mtime: Date): Promise<void>
+  lutimes_sync(_path: string, _atime: Date, _mtime: Date): void
+  // Folders
+  readdir(_path: string): Promise<string[]>
+  readdir_sync(_path: string): string[]
+  it_dir(_path: string): AsyncIterableIterator<string>
+  it_dir_sync(_path: string): IterableIterator<string>
+  mkdir(_path: string, _options?: { recursive?: boolean, mode?: number }): Promise<void>
+  mkdir_sync(_path: string, _options?: { recursive?: boolean, mode?: number }): void
+  rm(_path: string, _options?: { recursive?: boolean, force?: boolean }): Promise<void>
+  rm_sync(_path: string, _options?: { recursive?: boolean, force?: boolean }): void
+  // Entries
+  rename(_from: string, _to: string): Promise<void>
+  rename_sync(_from: string, _to: string): void
+  unlink(_path: string): Promise<void>
+  unlink_sync(_path: string): void
+  symlink(_target: string, _path: string): Promise<void>
+  symlink_sync(_target: string, _path: string): void
+  link(_existing: string, _path: string): Promise<void>
+  link_sync(_existing: string, _path: string): void
+  /** On disk this runs the POSIX `mkfifo` command, so it must be on the `PATH` (it ships with coreutils). */
+  mkfifo(_path: string, _mode?: number): Promise<void>
+  mkfifo_sync(_path: string, _mode?: number): void
+  readlink(_path: string): Promise<string>
+  readlink_sync(_path: string): string
+  /** Fails with `EEXIST` if `_to` already exists, so that a copy never writes through a link. */
+  copy_file(_from: string, _to: string): Promise<void>
+  copy_file_sync(_from: string, _to: string): void
+  // Content
+  open(_path: string, _flags?: string, _mode?: number): Promise<RoadHandle>
+  open_sync(_path: string, _flags?: string, _mode?: number): RoadHandle
+  read_file(_path: string, _flags?: string): Promise<Buffer>
+  read_file_sync(_path: string, _flags?: string): Buffer
+  write_file(_path: string, _data: Buffer | string, _encoding?: BufferEncoding, _flags?: string): Promise<void>
+  write_file_sync(_path: string, _data: Buffer | string, _encoding?: BufferEncoding, _flags?: string): void
+  create_read_stream(_path: string, _options?: RoadStreamOptions): Readable
+  create_write_stream(_path: string, _options?: RoadStreamOptions): Writable
+  create_fifo_reader(_path: string): Promise<Readable>
+  create_fifo_writer(_path: string): Promise<Writable>
+  // Observation
+  watch(_path: string): RoadWatcher
+}
+
+
+
+/**
+ * Arguments of the POSIX `mkfifo` command, Node.js has no binding for it (nor does Windows have FIFOs in the file system).
+ * `mkfifo -m` sets the mode as is, so an explicit mode is masked by the umask here, the default is left to `mkfifo` itself.
+ */
+function mkfifoArgs(_path: string, _mode?: number): string[] {
+  return [...(_mode === undefined ? [] : ['-m', (_mode & 0o7777 & ~process.umask()).toString(8)]), '--', _path]
+}
+/**
+ * Turns the failure to spawn a missing `mkfifo` command into an error that says so, other errors pass as they are.
+ */
+function mkfifoError(_error: unknown): unknown {
+  const e = _error as NodeJS.ErrnoException
+  return e.code === 'ENOENT' && e.syscall?.startsWith('spawn')
+    ? new Error("Creating a FIFO requires the POSIX 'mkfifo' command (part of coreutils), but it wasn't found on the PATH", { cause: e })
+    : e
+}
+/**
+ * Opens a FIFO without blocking: readers don't wait for a writer, writers fail with `ENXIO` while there's no reader.
+ * The descriptor can be handed to a {@link net.Socket}, whose reads and writes then don't tie up the thread pool either.
+ */
+async function openNonBlocking(_path: string, _flags: number): Promise<number> {
+  return new Promise((resolve, reject) => fs.open(_path, _flags | fs.constants.O_NONBLOCK, (e, fd) => e ? reject(e) : resolve(fd)))
+}
+/**
+ * A {@link RoadHandle} over a numeric file descriptor of the real file system.
+ */
+class DiskHandle implements RoadHandle {
+  constructor(readonly fd: number) {}
+  async read(_buffer: Buffer, _offset: number, _length: number, _position: number | null): Promise<number> {
+    return new Promise((resolve, reject) => fs.read(this.fd, _buffer, _offset, _length, _position, (e, n) => e ? reject(e) : resolve(n)))
+  }
+  read_sync(_buffer: Buffer, _offset: number, _length: number, _position: number | null): number {
+    return fs.readSync(this.fd, _buffer, _offset, _length, _position)
+  }
+  async write(_buffer: Buffer, _offset: number, _length: number, _position: number | null): Promise<number> {
+    return new Promise((resolve, reject) => fs.write(this.fd, _buffer, _offset, _length, _position, (e, n) => e ? reject(e) : resolve(n)))
+  }
+  write_sync(_buffer: Buffer, _offset: number, _length: number, _position: number | null): number {
+    return fs.writeSync(this.fd, _buffer, _offset, _length, _position)
+  }
+  async stat(): Promise<RoadStats> {
+    return new Promise((resolve, reject) => fs.fstat(this.fd, (e, s) => e ? reject(e) : resolve(s)))
+  }
+  stat_sync(): RoadStats {
+    return fs.fstatSync(this.fd)
+  }
+  async truncate(_length: number): Promise<void> {
+    return new Promise((resolve, reject) => fs.ftruncate(this.fd, _length, e => e ? reject(e) : resolve()))
+  }
+  truncate_sync(_length: number): void {
+    fs.ftruncateSync(this.fd, _length)
+  }
+  async chmod(_mode: number): Promise<void> {
+    return new Promise((resolve, reject) => fs.fchmod(this.fd, _mode, e => e ? reject(e) : resolve()))
+  }
+  chmod_sync(_mode: number): void {
+    fs.fchmodSync(this.fd, _mode)
+  }
+  async flush(): Promise<void> {
+    return new Promise((resolve, reject) => fs.fsync(this.fd, e => e ? reject(e) : resolve()))
   }
+  flush_sync(): void {
+    fs.fsyncSync(this.fd)
+  }
+  async close(): Promise<void> {
+    return new Promise((resolve, reject) => fs.close(this.fd, e => e ? reject(e) : resolve()))
+  }
+  close_sync(): void {
+    fs.closeSync(this.fd)
+  }
+}
+/**
+ * The {@link RoadBackend} of the real file system, a thin layer over `node:fs`.
+ * This is the default backend.
+ */
+export class DiskBackend implements RoadBackend {
+  // Metadata
+  async access(_path: string, _mode: number): Promise<void> { return fp.access(_path, _mode) }
+  access_sync(_path: string, _mode: number): void { fs.accessSync(_path, _mode) }
+  async lstat(_path: string): Promise<RoadStats> { return fp.lstat(_path) }
+  lstat_sync(_path: string): RoadStats { return fs.lstatSync(_path) }
+  async stat(_path: string): Promise<RoadStats> { return fp.stat(_path) }
+  stat_sync(_path: string): RoadStats { return fs.statSync(_path) }
+  async realpath(_path: string): Promise<string> { return fp.realpath(_path) }
+  realpath_sync(_path: string): string { return fs.realpathSync(_path) }
+  async chmod(_path: string, _mode: number): Promise<void> { return fp.chmod(_path, _mode) }
+  chmod_sync(_path: string, _mode: number): void { fs.chmodSync(_path, _mode) }
+  async lchown(_path: string, _uid: number, _gid: number): Promise<void> { return fp.lchown(_path, _uid, _gid) }
+  lchown_sync(_path: string, _uid: number, _gid: number): void { fs.lchownSync(_path, _uid, _gid) }
+  async utimes(_path: string, _atime: Date, _mtime: Date): Promise<void> { return fp.utimes(_path, _atime, _mtime) }
+  utimes_sync(_path: string, _atime: Date, _mtime: Date): void { fs.utimesSync(_path, _atime, _mtime) }
+  async lutimes(_path: string, _atime: Date, _mtime: Date): Promise<void> { return fp.lutimes(_path, _atime, _mtime) }
+  lutimes_sync(_path: string, _atime: Date, _mtime: Date): void { fs.lutimesSync(_path, _atime, _mtime) }
+  // Folders
+  async readdir(_path: string): Promise<string[]> { return fp.readdir(_path) }
+  readdir_sync(_path: string): string[] { return fs.readdirSync(_path) }
+  async *it_dir(_path: string): AsyncIterableIterator<string> {
+    for await (const dirent of await fp.opendir(_path))
+      yield dirent.name
+  }
+  *it_dir_sync(_path: string): IterableIterator<string> {
+    const dir = fs.opendirSync(_path)
+    try {
+      for (let dirent = dir.readSync(); dirent !== null; dirent = dir.readSync())
+        yield dirent.name
+    } finally {
+      dir.closeSync()
+    }
+  }
+  async mkdir(_path: string, _options: { recursive?: boolean, mode?: number } = {}): Promise<void> { await fp.mkdir(_path, _options) }
+  mkdir_sync(_path: string, _options: { recursive?: boolean, mode?: number } = {}): void { fs.mkdirSync(_path, _options) }
+  async rm(_path: string, _options: { recursive?: boolean, force?: boolean } = {}): Promise<void> { return fp.rm(_path, _options) }
+  rm_sync(_path: string, _options: { recursive?: boolean, force?: boolean } = {}): void { fs.rmSync(_path, _options) }
+  // Entries
+  async rename(_from: string, _to: string): Promise<void> { return fp.rename(_from, _to) }
+  rename_sync(_from: string, _to: string): void { fs.renameSync(_from, _to) }
+  async unlink(_path: string): Promise<void> { return fp.unlink(_path) }
+  unlink_sync(_path: string): void { fs.unlinkSync(_path) }
+  async symlink(_target: string, _path: string): Promise<void> { return fp.symlink(_target, _path) }
+  symlink_sync(_target: string, _path: string): void { fs.symlinkSync(_target, _path) }
+  async link(_existing: string, _path: string): Promise<void> { return fp.link(_existing, _path) }
+  link_sync(_existing: string, _path: string): void { fs.linkSync(_existing, _path) }
+  async mkfifo(_path: string, _mode?: number): Promise<void> {
+    if (await fp.lstat(_path).catch(() => null))
+      throw errnoError('EEXIST', 'mkfifo', _path)
+    return new Promise((resolve, reject) => cp.execFile('mkfifo', mkfifoArgs(_path, _mode), e => e ? reject(mkfifoError(e)) : resolve()))
+  }
+  mkfifo_sync(_path: string, _mode?: number): void {
+    if (fs.lstatSync(_path, { throwIfNoEntry: false }))
+      throw errnoError('EEXIST', 'mkfifo', _path)
+    try {
+      cp.execFileSync('mkfifo', mkfifoArgs(_path, _mode), { stdio: 'pipe' })
+    } catch (e) {
+      throw mkfifoError(e)
+    }
+  }
+  async readlink(_path: string): Promise<string> { return fp.readlink(_path) }
+  readlink_sync(_path: string): string { return fs.readlinkSync(_path) }
+  async copy_file(_from: string, _to: string): Promise<void> { return fp.copyFile(_from, _to, fs.constants.COPYFILE_EXCL) }
+  copy_file_sync(_from: string, _to: string): void { fs.copyFileSync(_from, _to, fs.constants.COPYFILE_EXCL) }
+  // Content
+  async open(_path: string, _flags: string = 'r', _mode?: number): Promise<RoadHandle> {
+    return new Promise((resolve, reject) => fs.open(_path, _flags, _mode, (e, fd) => e ? reject(e) : resolve(new DiskHandle(fd))))
+  }
+  open_sync(_path: string, _flags: string = 'r', _mode?: number): RoadHandle {
+    return new DiskHandle(fs.openSync(_path, _flags, _mode))
+  }
+  async read_file(_path: string, _flags?: string): Promise<Buffer> { return fp.readFile(_path, { flag: _flags }) }
+  read_file_sync(_path: string, _flags?: string): Buffer { return fs.readFileSync(_path, { flag: _flags }) }
+  async write_file(_path: string, _data: Buffer | string, _encoding?: BufferEncoding, _flags?: string): Promise<void> {
+    return fp.writeFile(_path, _data, { encoding: _encoding, flag: _flags })
+  }
+  write_file_sync(_path: string, _data: Buffer | string, _encoding?: BufferEncoding, _flags?: string): void {
+    fs.writeFileSync(_path, _data, { encoding: _encoding, flag: _flags })
+  }
+  create_read_stream(_path: string, _options: RoadStreamOptions = {}): Readable { return fs.createReadStream(_path, _options) }
+  create_write_stream(_path: string, _options: RoadStreamOptions = {}): Writable { return fs.createWriteStream(_path, _options) }
+  async create_fifo_reader(_path: string): Promise<Readable> {
+    return new net.Socket({ fd: await openNonBlocking(_path, fs.constants.O_RDONLY), readable: true, writable: false })
+  }
+  async create_fifo_writer(_path: string): Promise<Writable> {
+    return new net.Socket({ fd: await openNonBlocking(_path, fs.constants.O_WRONLY), readable: false, writable: true })
+  }
+  // Observation
+  watch(_path: string): RoadWatcher { return fs.watch(_path) }
 }
 
 
 
 /**
- * Abstract base class representing a filesystem path (file or folder).
- * Provides methods for querying, accessing, and manipulating the path.
- * Think of it as a 
- * 
- * Subclasses must implement positional methods for deleting, moving, copying, and renaming.
- * 
- * @remarks
- * Road provides an ergonomic, object-oriented interface over Node.js's filesystem APIs.
- * While there are many methods that internally do checks to ensure correctness,
- * performance considerations have been made to minimize unnecessary overhead.
- * It does **not** guarantee safety against external changes to the filesystem,
- * but aims to provide a convenient abstraction for common filesystem operations.
- * 
- * @property {string} {@link pointsTo} - The target path that this node points to.
- * @property {boolean} {@link mutable} - Indicates if the underlying entry can be modified (sometimes overridden by subclasses if necessary).
- * 
- * @staticmethod {@link factory} - Asynchronously creates an instance of the appropriate {@link Road} subclass for the given path.
- * @staticmethod {@link factory_sync} - Synchronously creates an instance of the appropriate {@link Road} subclass for the given path.
- * 
- * @method {@link assert_mutable} - Asserts that the node is mutable, throwing an error if not.
- * @method {@link exists_sync} - Checks synchronously if the path exists and matches the expected type.
- * @method {@link exists} - Checks asynchronously if the path exists and matches the expected type.
- * @method {@link stats_sync} - Gets synchronous file statistics.
- * @method {@link stats} - Gets asynchronous file statistics.
- * @method {@link depth} - Returns the depth of the path in the filesystem hierarchy.
- * @method {@link parent} - Returns the parent folder as a {@link Folder}.
- * @method {@link ancestors} - Returns all ancestor folders up to the root.
- * @method {@link name} - Returns the basename of the path.
- * @method {@link accessible_sync} - Checks synchronously if the path is accessible with the given mode.
- * @method {@link accessible} - Checks asynchronously if the path is accessible with the given mode.
- * @method {@link until_accessible} - Waits asynchronously until the path becomes accessible, with abort and callback support.
- * @method {@link on_change} - Watches for changes to the path, with abort and callback support.
- * 
- * @abstractmethod {@link delete_sync} - Synchronously deletes the path.
- * @abstractmethod {@link delete} - Asynchronously deletes the path.
- * @abstractmethod {@link move_sync} - Synchronously moves the path into a folder.
- * @abstractmethod {@link move} - Asynchronously moves the path into a folder.
- * @abstractmethod {@link copy_sync} - Synchronously copies the path into a folder.
- * @abstractmethod {@link copy} - Asynchronously copies the path into a folder.
- * @abstractmethod {@link rename_sync} - Synchronously renames the path.
- * @abstractmethod {@link rename} - Asynchronously renames the path.
+ * Creates a Node.js style error as thrown by `node:fs`, so that code checking `code` behaves the same on every backend.
  */
-export abstract class Road {
-  /**
-   * Specifies the target path that this node points to.
-   * Use this property only when it is necessary to change the default path.
-   */
-  protected pointsTo: string
+function errnoError(_code: string, _syscall: string, _path: string): NodeJS.ErrnoException {
+  const errno = (os.constants.errno as Record<string, number>)[_code] ?? 0
+  return Object.assign(new Error(`${_code}: ${_syscall} '${_path}'`), { code: _code, errno: -errno, syscall: _syscall, path: _path })
+}
+/**
+ * A single entry of a {@link MemoryBackend}, shared by all hard links to it.
+ */
+interface MemoryNode {
+  readonly type: number // The S_IFMT bits
+  mode: number // The permission bits
+  uid: number
+  gid: number
+  readonly ino: number
+  nlink: number
+  atimeMs: number
+  mtimeMs: number
+  ctimeMs: number
+  readonly birthtimeMs: number
+  data: Buffer // Content of files, FIFOs and devices
+  target: string // Target of symbolic links
+  readonly children: Map<string, MemoryNode> // Entries of folders
+}
+/**
+ * The {@link RoadStats} of a {@link MemoryNode} at the time of the call.
+ */
+class MemoryStats implements RoadStats {
+  readonly dev: number = 0
+  readonly ino: number
+  readonly mode: number
+  readonly nlink: number
+  readonly uid: number
+  readonly gid: number
+  readonly size: number
+  readonly blksize: number = 4096
+  readonly blocks: number
+  readonly atimeMs: number
+  readonly mtimeMs: number
+  readonly ctimeMs: number
+  readonly birthtimeMs: number
+  constructor(_node: MemoryNode) {
+    this.ino = _node.ino
+    this.mode = _node.type | _node.mode
+    this.nlink = _node.nlink
+    this.uid = _node.uid
+    this.gid = _node.gid
+    this.size = _node.type === fs.constants.S_IFLNK ? Buffer.byteLength(_node.target) : _node.data.length
+    this.blocks = Math.ceil(this.size / 512)
+    this.atimeMs = _node.atimeMs
+    this.mtimeMs = _node.mtimeMs
+    this.ctimeMs = _node.ctimeMs
+    this.birthtimeMs = _node.birthtimeMs
+  }
+  get atime(): Date { return new Date(this.atimeMs) }
+  get mtime(): Date { return new Date(this.mtimeMs) }
+  get ctime(): Date { return new Date(this.ctimeMs) }
+  get birthtime(): Date { return new Date(this.birthtimeMs) }
+  isFile(): boolean { return (this.mode & fs.constants.S_IFMT) === fs.constants.S_IFREG }
+  isDirectory(): boolean { return (this.mode & fs.constants.S_IFMT) === fs.constants.S_IFDIR }
+  isSymbolicLink(): boolean { return (this.mode & fs.constants.S_IFMT) === fs.constants.S_IFLNK }
+  isFIFO(): boolean { return (this.mode & fs.constants.S_IFMT) === fs.constants.S_IFIFO }
+  isSocket(): boolean { return (this.mode & fs.constants.S_IFMT) === fs.constants.S_IFSOCK }
+  isBlockDevice(): boolean { return (this.mode & fs.constants.S_IFMT) === fs.constants.S_IFBLK }
+  isCharacterDevice(): boolean { return (this.mode & fs.constants.S_IFMT) === fs.constants.S_IFCHR }
+}
+/**
+ * Where a path leads inside a {@link MemoryBackend}: the folder holding the last component,
+ * its name, the entry (if it exists) and the canonical path without any symbolic links.
+ */
+interface MemoryLocation {
+  readonly parent: MemoryNode
+  readonly name: string
+  readonly node: MemoryNode | undefined
+  readonly path: string
+}
+/**
+ * A fault to inject into a {@link MemoryBackend}.
+ *
+ * @property operation - The failing operation, named after the syscall (`open`, `read`, `write`, `mkdir`, `rename`, ...). Any if omitted.
+ * @property path - The failing path, exact or as a pattern. Any if omitted.
+ * @property code - The error code to throw, e.g. `ENOSPC` or `EACCES`.
+ * @property times - How many matching calls fail before the fault disappears (default `Infinity`).
+ */
+export interface MemoryFault {
+  operation?: string
+  path?: string | RegExp
+  code: string
+  times?: number
+}
+/**
+ * Options for a {@link MemoryBackend}.
+ *
+ * @property uid - The user performing operations, `0` bypasses permission checks (default `1000`).
+ * @property gid - The group performing operations (default `1000`).
+ * @property umask - Permission bits removed from newly created entries (default `0o022`).
+ */
+export interface MemoryBackendOptions {
+  uid?: number
+  gid?: number
+  umask?: number
+}
+/**
+ * An open {@link MemoryNode}.
+ */
+class MemoryHandle implements RoadHandle {
+  position: number = 0
+  closed: boolean = false
+  constructor(readonly backend: MemoryBackend, readonly node: MemoryNode, readonly path: string, readonly readable: boolean, readonly writable: boolean, readonly append: boolean) {}
+
+  assert_open(_syscall: string): void {
+    if (this.closed)
+      throw errnoError('EBADF', _syscall, this.path)
+    this.backend.fault(_syscall, this.path)
+  }
+  read_sync(_buffer: Buffer, _offset: number, _length: number, _position: number | null): number {
+    this.assert_open('read')
+    if (!this.readable)
+      throw errnoError('EBADF', 'read', this.path)
+    if (this.node.type === fs.constants.S_IFDIR)
+      throw errnoError('EISDIR', 'read', this.path)
+    const start = _position ?? this.position
+    const bytesRead = this.node.data.copy(_buffer, _offset, Math.min(start, this.node.data.length), Math.min(start + _length, this.node.data.length))
+    if (_position === null)
+      this.position += bytesRead
+    this.node.atimeMs = Date.now()
+    return bytesRead
+  }
+  async read(_buffer: Buffer, _offset: number, _length: number, _position: number | null): Promise<number> {
+    return this.read_sync(_buffer, _offset, _length, _position)
+  }
+  write_sync(_buffer: Buffer, _offset: number, _length: number, _position: number | null): number {
+    this.assert_open('write')
+    if (!this.writable)
+      throw errnoError('EBADF', 'write', this.path)
+    const start = this.append ? this.node.data.length : _position ?? this.position
+    const end = start + _length
+    if (end > this.node.data.length)
+      this.node.data = Buffer.concat([this.node.data, Buffer.alloc(end - this.node.data.length)])
+    _buffer.copy(this.node.data, start, _offset, _offset + _length)
+    if (_position === null || this.append)
+      this.position = end
+    this.backend.touched(this.node, this.path)
+    return _length
+  }
+  async write(_buffer: Buffer, _offset: number, _length: number, _position: number | null): Promise<number> {
+    return this.write_sync(_buffer, _offset, _length, _position)
+  }
+  stat_sync(): RoadStats {
+    this.assert_open('fstat')
+    return new MemoryStats(this.node)
+  }
+  async stat(): Promise<RoadStats> {
+    return this.stat_sync()
+  }
+  truncate_sync(_length: number): void {
+    this.assert_open('ftruncate')
+    if (!this.writable)
+      throw errnoError('EINVAL', 'ftruncate', this.path)
+    this.node.data = _length <= this.node.data.length ? Buffer.from(this.node.data.subarray(0, _length)) : Buffer.concat([this.node.data, Buffer.alloc(_length - this.node.data.length)])
+    this.backend.touched(this.node, this.path)
+  }
+  async truncate(_length: number): Promise<void> {
+    this.truncate_sync(_length)
+  }
+  chmod_sync(_mode: number): void {
+    this.assert_open('fchmod')
+    this.backend.assert_owner(this.node, 'fchmod', this.path)
+    this.node.mode = _mode & 0o7777
+    this.node.ctimeMs = Date.now()
+  }
+  async chmod(_mode: number): Promise<void> {
+    this.chmod_sync(_mode)
+  }
+  flush_sync(): void {
+    this.assert_open('fsync')
+  }
+  async flush(): Promise<void> {
+    this.flush_sync()
+  }
+  close_sync(): void {
+    this.assert_open('close')
+    this.closed = true
+  }
+  async close(): Promise<void> {
+    this.close_sync()
+  }
+}
+/**
+ * Lazily opens a file of a backend and yields its content chunk by chunk, for backends without native streams.
+ */
+async function* readChunks(_backend: RoadBackend, _path: string, _options: RoadStreamOptions): AsyncGenerator<Buffer> {
+  const handle = await _backend.open(_path, _options.flags ?? 'r')
+  try {
+    const buffer = Buffer.alloc(64 * 1024)
+    for (let position = _options.start ?? 0, bytesRead = -1; bytesRead !== 0; position += bytesRead) {
+      bytesRead = await handle.read(buffer, 0, buffer.length, position)
+      if (bytesRead > 0)
+        yield Buffer.from(buffer.subarray(0, bytesRead))
+    }
+  } finally {
+    await handle.close()
+  }
+}
+/**
+ * A {@link RoadBackend} keeping a whole file system tree in memory.
+ *
+ * Supports every node type (devices, FIFOs and sockets can be created through {@link mknod} but hold no behaviour),
+ * hard links, ownership and permission checks for a configurable user, watchers and fault injection,
+ * so that code using the road classes can be tested without touching the disk.
+ * Paths are resolved like POSIX paths, the system's temporary folder exists from the start.
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryBackend()
+ * memory.inject({ operation: 'write', code: 'ENOSPC' })
+ * await withBackend(memory, async () => {
+ *   const file = await File.create('/tmp/state.json')
+ *   await file.write('{}') // Rejects with ENOSPC
+ * })
+ * ```
+ */
+export class MemoryBackend implements RoadBackend {
+  readonly uid: number
+  readonly gid: number
+  readonly umask: number
+  protected readonly root: MemoryNode
+  protected readonly faults: MemoryFault[] = []
+  protected readonly watchers: Map<MemoryNode, Set<RoadWatcher>> = new Map()
+  protected readonly pipes: Map<MemoryNode, { stream: PassThrough, writers: number }> = new Map()
+  protected nextIno: number = 1
+
+  constructor(_options: MemoryBackendOptions = {}) {
+    this.uid = _options.uid ?? 1000
+    this.gid = _options.gid ?? 1000
+    this.umask = _options.umask ?? 0o022
+    this.root = this.node(fs.constants.S_IFDIR, 0o755)
+    this.root.uid = this.root.gid = 0
+    this.root.nlink = 2
+    let parent = this.root
+    for (const name of ph.resolve(os.tmpdir()).split(ph.sep).filter(Boolean)) {
+      const tmp = this.node(fs.constants.S_IFDIR, 0o1777)
+      tmp.uid = tmp.gid = 0
+      parent.children.set(name, tmp)
+      parent = tmp
+    }
+  }
+
+  // Fault injection
   /**
-   * Gets the immutable string representing the location this node points to.
-   * @returns The path string that this node points to.
+   * Makes matching operations fail with the given error code.
+   *
+   * @param _fault - Which operations fail and how, see {@link MemoryFault}.
+   * @returns A function that removes the fault again.
    */
-  get isAt(): string { return this.pointsTo }
+  inject(_fault: MemoryFault): () => void {
+    const fault = { ..._fault }
+    this.faults.push(fault)
+    return () => {
+      if (this.faults.includes(fault))
+        this.faults.splice(this.faults.indexOf(fault), 1)
+    }
+  }
   /**
-   * Indicates whether this instance is allowed to perform modifying operations on the underlying filesystem entry.
-   * This does NOT reflect the actual filesystem permissions, but rather serves as an internal flag.
-   * Subclasses can override this property if necessary.
-   * Set to `false` to prevent modifications even if the os's filesystem would allow it.
-   * @returns `true` if the entry is mutable; otherwise, `false`.
+   * Throws the first injected fault matching an operation on a path, if any.
    */
-  mutable: boolean = true
+  fault(_operation: string, _path: string): void {
+    const fault = this.faults.find(f =>
+      (f.operation === undefined || f.operation === _operation) &&
+      (f.path === undefined || (typeof f.path === 'string' ? ph.resolve(f.path) === ph.resolve(_path) : f.path.test(_path))))
+    if (!fault)
+      return
+    fault.times = (fault.times ?? Infinity) - 1
+    if (fault.times <= 0)
+      this.faults.splice(this.faults.indexOf(fault), 1)
+    throw errnoError(fault.code, _operation, _path)
+  }
 
-  // Constructor and factory methods
+  // Nodes, permissions and lookup
+  protected node(_type: number, _mode: number): MemoryNode {
+    const now = Date.now()
+    return {
+      type: _type, mode: _mode & 0o7777, uid: this.uid, gid: this.gid, ino: this.nextIno++, nlink: 1,
+      atimeMs: now, mtimeMs: now, ctimeMs: now, birthtimeMs: now, data: Buffer.alloc(0), target: '', children: new Map()
+    }
+  }
+  protected allowed(_node: MemoryNode, _bits: number): boolean {
+    if (this.uid === 0)
+      return true
+    const shift = _node.uid === this.uid ? 6 : _node.gid === this.gid ? 3 : 0
+    return ((_node.mode >> shift) & _bits) === _bits
+  }
+  assert_owner(_node: MemoryNode, _syscall: string, _path: string): void {
+    if (this.uid !== 0 && _node.uid !== this.uid)
+      throw errnoError('EPERM', _syscall, _path)
+  }
+  protected assert_allowed(_node: MemoryNode, _bits: number, _syscall: string, _path: string): void {
+    if (!this.allowed(_node, _bits))
+      throw errnoError('EACCES', _syscall, _path)
+  }
   /**
-   * Constructs a new instance, verifying the existence of the specified path and resolving it.
-   * Throws an error if the constructed instance is not of the expected type.
-   *
-   * @param _lookFor - The file system path to check for existence and resolve.
-   * @throws {Error} If the path does not exist or if the instance type does not match the expected type.
+   * Resolves a path component by component, following symbolic links in between (and at the end if `_follow`).
+   * Missing folders in between throw unless `_lenient`, which reports the path as missing instead.
    */
-  constructor(_lookFor: string) {
-    fs.accessSync(_lookFor, fs.constants.F_OK)
-    this.pointsTo = ph.resolve(_lookFor)
-    if (!(this instanceof roadType(this.isAt)))
-      throw new Error(`Type missmatch: Path '${this.isAt}' is not of constructed type ${this.constructor.name}`)
+  protected locate(_path: string, _follow: boolean, _syscall: string, _hops: number = 0, _lenient: boolean = false): MemoryLocation {
+    const parts = ph.resolve(_path).split(ph.sep).filter(Boolean)
+    let dir = this.root
+    let dirPath: string = ph.sep
+    if (parts.length === 0)
+      return { parent: this.root, name: '', node: this.root, path: ph.sep }
+    for (let i = 0; i < parts.length; i++) {
+      const name = parts[i]!
+      if (dir.type !== fs.constants.S_IFDIR)
+        throw errnoError('ENOTDIR', _syscall, _path)
+      this.assert_allowed(dir, fs.constants.X_OK, _syscall, _path)
+      const node = dir.children.get(name)
+      const last = i === parts.length - 1
+      if (node?.type === fs.constants.S_IFLNK && (!last || _follow)) {
+        if (_hops >= 40)
+          throw errnoError('ELOOP', _syscall, _path)
+        return this.locate(ph.resolve(dirPath, node.target, ...parts.slice(i + 1)), _follow, _syscall, _hops + 1, _lenient)
+      }
+      if (last || (!node && _lenient))
+        return { parent: dir, name, node, path: ph.join(dirPath, name) }
+      if (!node)
+        throw errnoError('ENOENT', _syscall, _path)
+      dir = node
+      dirPath = ph.join(dirPath, name)
+    }
+    throw errnoError('ENOENT', _syscall, _path) // Unreachable, parts isn't empty
+  }
+  protected existing(_path: string, _follow: boolean, _syscall: string): MemoryLocation & { node: MemoryNode } {
+    this.fault(_syscall, _path)
+    const location = this.locate(_path, _follow, _syscall)
+    if (!location.node)
+      throw errnoError('ENOENT', _syscall, _path)
+    return location as MemoryLocation & { node: MemoryNode }
   }
   /**
-   * Asynchronously creates an instance of a {@link Road} subclass based on the provided file path.
-   *
-   * This factory method first checks if the specified file exists, determines the appropriate
-   * {@link Road} subclass constructor using the {@link roadType} function, and then returns a new instance
-   * of that subclass initialized with the given file path.
-   *
-   * @param _lookFor - The file path to check and use for instantiating the {@link Road} subclass.
-   * @returns A promise that resolves to an instance of a {@link Road} subclass.
-   * @throws If the file does not exist or if instantiation fails.
+   * Adds a new entry to a folder the current user may write to.
    */
-  static async factory(_lookFor: string): Promise<Road> {
-    await fp.access(_lookFor, fs.constants.F_OK)
-    const roadCtor = roadType(_lookFor)
-    return new roadCtor(_lookFor)
-  }
-  static factory_sync(_lookFor: string): Road {
-    fs.accessSync(_lookFor, fs.constants.F_OK)
-    const roadCtor = roadType(_lookFor)
-    return new roadCtor(_lookFor)
+  protected attach(_location: MemoryLocation, _node: MemoryNode, _syscall: string): MemoryNode {
+    if (_location.node)
+      throw errnoError('EEXIST', _syscall, _location.path)
+    this.assert_allowed(_location.parent, fs.constants.W_OK | fs.constants.X_OK, _syscall, _location.path)
+    _location.parent.children.set(_location.name, _node)
+    if (_node.type === fs.constants.S_IFDIR)
+      _location.parent.nlink++
+    this.touched(_location.parent, ph.dirname(_location.path), 'rename', _location.name)
+    return _node
   }
-
-  // Query methods (async and sync)
   /**
-   * Verifies synchronously that the path exists and that the current instance matches the expected type.
-   * 
-   * @returns {boolean} `true` if the path exists and the instance type matches; otherwise, `false`.
+   * Removes an entry from its folder, the current user must be allowed to write to it (and own it in sticky folders).
    */
-  verify_sync(): boolean {
-    if (!fs.existsSync(this.isAt))
-      return false
-    return this instanceof roadType(this.isAt)
+  protected detach(_location: MemoryLocation & { node: MemoryNode }, _syscall: string): void {
+    if (_location.node === this.root)
+      throw errnoError('EBUSY', _syscall, _location.path)
+    this.assert_allowed(_location.parent, fs.constants.W_OK | fs.constants.X_OK, _syscall, _location.path)
+    if ((_location.parent.mode & 0o1000) && this.uid !== 0 && _location.node.uid !== this.uid && _location.parent.uid !== this.uid) // Sticky folder
+      throw errnoError('EPERM', _syscall, _location.path)
+    _location.parent.children.delete(_location.name)
+    _location.node.nlink--
+    if (_location.node.type === fs.constants.S_IFDIR)
+      _location.parent.nlink--
+    this.touched(_location.parent, ph.dirname(_location.path), 'rename', _location.name)
   }
   /**
-   * Asynchronously verifies that the path exists and that the current instance matches the expected type.
-   * 
-   * @returns {Promise<boolean>} A promise that resolves to `true` if the path exists and the instance type matches; otherwise, `false`.
+   * Updates modification times of a changed node and notifies its watchers and those of its folder.
    */
-  async verify(): Promise<boolean> {
-    try {
-      await fp.access(this.isAt, fs.constants.F_OK)
-      return this instanceof roadType(this.isAt)
-    } catch {
-      return false
+  touched(_node: MemoryNode, _path: string, _event: 'rename' | 'change' = 'change', _name: string | null = null): void {
+    _node.mtimeMs = _node.ctimeMs = Date.now()
+    const notify = (_of: MemoryNode, _changed: string | null) => {
+      for (const watcher of this.watchers.get(_of) ?? [])
+        setImmediate(() => watcher.emit('change', _event, _changed))
+    }
+    notify(_node, _name ?? ph.basename(_path))
+    if (_name === null && _path !== ph.sep) {
+      const parent = this.locate(ph.dirname(_path), true, 'watch').node
+      if (parent)
+        notify(parent, ph.basename(_path))
     }
   }
   /**
-   * Asserts that the current node is mutable.
-   * 
-   * @throws {Error} If the node is not mutable.
+   * Creates a node of any type, e.g. a FIFO, socket or device that can't be created otherwise.
+   *
+   * @param _path - Where to create the node.
+   * @param _type - The type as `S_IFMT` bits, e.g. `fs.constants.S_IFIFO`.
+   * @param _mode - The permission bits before the umask is applied (default `0o666`).
+   * @throws If the path exists or the parent folder can't be written to.
+   */
+  mknod(_path: string, _type: number, _mode: number = 0o666): void {
+    this.fault('mknod', _path)
+    this.attach(this.locate(_path, false, 'mknod'), this.node(_type & fs.constants.S_IFMT, _mode & ~this.umask), 'mknod')
+  }
+
+  // Metadata
+  access_sync(_path: string, _mode: number): void {
+    const { node } = this.existing(_path, true, 'access')
+    if (_mode !== fs.constants.F_OK)
+      this.assert_allowed(node, _mode, 'access', _path)
+  }
+  async access(_path: string, _mode: number): Promise<void> { this.access_sync(_path, _mode) }
+  lstat_sync(_path: string): RoadStats { return new MemoryStats(this.existing(_path, false, 'lstat').node) }
+  async lstat(_path: string): Promise<RoadStats> { return this.lstat_sync(_path) }
+  stat_sync(_path: string): RoadStats { return new MemoryStats(this.existing(_path, true, 'stat').node) }
+  async stat(_path: string): Promise<RoadStats> { return this.stat_sync(_path) }
+  realpath_sync(_path: string): string { return this.existing(_path, true, 'realpath').path }
+  async realpath(_path: string): Promise<string> { return this.realpath_sync(_path) }
+  chmod_sync(_path: string, _mode: number): void {
+    const { node } = this.existing(_path, true, 'chmod')
+    this.assert_owner(node, 'chmod', _path)
+    node.mode = _mode & 0o7777
+    node.ctimeMs = Date.now()
+  }
+  async chmod(_path: string, _mode: number): Promise<void> { this.chmod_sync(_path, _mode) }
+  lchown_sync(_path: string, _uid: number, _gid: number): void {
+    const { node } = this.existing(_path, false, 'lchown')
+    if (this.uid !== 0 && (_uid !== node.uid || !(_gid === this.gid || _gid === node.gid))) // Only root gives entries away
+      throw errnoError('EPERM', 'lchown', _path)
+    node.uid = _uid
+    node.gid = _gid
+    node.ctimeMs = Date.now()
+  }
+  async lchown(_path: string, _uid: number, _gid: number): Promise<void> { this.lchown_sync(_path, _uid, _gid) }
+  utimes_sync(_path: string, _atime: Date, _mtime: Date): void {
+    const { node } = this.existing(_path, true, 'utime')
+    this.assert_owner(node, 'utime', _path)
+    node.atimeMs = _atime.getTime()
+    node.mtimeMs = _mtime.getTime()
+    node.ctimeMs = Date.now()
+  }
+  async utimes(_path: string, _atime: Date, _mtime: Date): Promise<void> { this.utimes_sync(_path, _atime, _mtime) }
+  lutimes_sync(_path: string, _atime: Date, _mtime: Date): void {
+    const { node } = this.existing(_path, false, 'lutime')
+    this.assert_owner(node, 'lutime', _path)
+    node.atimeMs = _atime.getTime()
+    node.mtimeMs = _mtime.getTime()
+    node.ctimeMs = Date.now()
+  }
+  async lutimes(_path: string, _atime: Date, _mtime: Date): Promise<void> { this.lutimes_sync(_path, _atime, _mtime) }
+
+  // Folders
+  readdir_sync(_path: string): string[] {
+    const { node } = this.existing(_path, true, 'scandir')
+    if (node.type !== fs.constants.S_IFDIR)
+      throw errnoError('ENOTDIR', 'scandir', _path)
+    this.assert_allowed(node, fs.constants.R_OK, 'scandir', _path)
+    return [...node.children.keys()]
+  }
+  async readdir(_path: string): Promise<string[]> { return this.readdir_sync(_path) }
+  *it_dir_sync(_path: string): IterableIterator<string> { yield* this.readdir_sync(_path) }
+  async *it_dir(_path: string): AsyncIterableIterator<string> { yield* this.readdir_sync(_path) }
+  mkdir_sync(_path: string, _options: { recursive?: boolean, mode?: number } = {}): void {
+    this.fault('mkdir', _path)
+    const parent = ph.dirname(ph.resolve(_path))
+    if (_options.recursive && parent !== ph.resolve(_path) && !this.locate(parent, true, 'mkdir', 0, true).node)
+      this.mkdir_sync(parent, _options)
+    const location = this.locate(_path, false, 'mkdir')
+    if (location.node && _options.recursive && this.locate(_path, true, 'mkdir').node?.type === fs.constants.S_IFDIR)
+      return
+    this.attach(location, this.node(fs.constants.S_IFDIR, (_options.mode ?? 0o777) & ~this.umask), 'mkdir').nlink = 2
+  }
+  async mkdir(_path: string, _options: { recursive?: boolean, mode?: number } = {}): Promise<void> { this.mkdir_sync(_path, _options) }
+  rm_sync(_path: string, _options: { recursive?: boolean, force?: boolean } = {}): void {
+    this.fault('rm', _path)
+    const location = this.locate(_path, false, 'rm', 0, _options.force)
+    if (!location.node) {
+      if (_options.force)
+        return
+      throw errnoError('ENOENT', 'rm', _path)
+    }
+    if (location.node.type === fs.constants.S_IFDIR) {
+      if (!_options.recursive)
+        throw errnoError('EISDIR', 'rm', _path)
+      for (const name of this.readdir_sync(location.path))
+        this.rm_sync(ph.join(location.path, name), _options)
+    }
+    this.detach(location as MemoryLocation & { node: MemoryNode }, 'rm')
+  }
+  async rm(_path: string, _options: { recursive?: boolean, force?: boolean } = {}): Promise<void> { this.rm_sync(_path, _options) }
+
+  // Entries
+  rename_sync(_from: string, _to: string): void {
+    const from = this.existing(_from, false, 'rename')
+    this.fault('rename', _to)
+    const to = this.locate(_to, false, 'rename')
+    if (from.node === to.node)
+      return
+    const isDir = from.node.type === fs.constants.S_IFDIR
+    if (isDir && (to.path + ph.sep).startsWith(from.path + ph.sep))
+      throw errnoError('EINVAL', 'rename', _to)
+    if (to.node) {
+      const toDir = to.node.type === fs.constants.S_IFDIR
+      if (isDir && !toDir)
+        throw errnoError('ENOTDIR', 'rename', _to)
+      if (!isDir && toDir)
+        throw errnoError('EISDIR', 'rename', _to)
+      if (toDir && to.node.children.size > 0)
+        throw errnoError('ENOTEMPTY', 'rename', _to)
+      this.detach(to as MemoryLocation & { node: MemoryNode }, 'rename')
+    }
+    this.detach(from, 'rename')
+    from.node.nlink++
+    this.attach(this.locate(to.path, false, 'rename'), from.node, 'rename')
+  }
+  async rename(_from: string, _to: string): Promise<void> { this.rename_sync(_from, _to) }
+  unlink_sync(_path: string): void {
+    const location = this.existing(_path, false, 'unlink')
+    if (location.node.type === fs.constants.S_IFDIR)
+      throw errnoError('EISDIR', 'unlink', _path)
+    this.detach(location, 'unlink')
+  }
+  async unlink(_path: string): Promise<void> { this.unlink_sync(_path) }
+  symlink_sync(_target: string, _path: string): void {
+    this.fault('symlink', _path)
+    this.attach(this.locate(_path, false, 'symlink'), this.node(fs.constants.S_IFLNK, 0o777), 'symlink').target = _target
+  }
+  async symlink(_target: string, _path: string): Promise<void> { this.symlink_sync(_target, _path) }
+  link_sync(_existing: string, _path: string): void {
+    const { node } = this.existing(_existing, false, 'link')
+    this.fault('link', _path)
+    if (node.type === fs.constants.S_IFDIR)
+      throw errnoError('EPERM', 'link', _existing)
+    this.attach(this.locate(_path, false, 'link'), node, 'link').nlink++
+    node.ctimeMs = Date.now()
+  }
+  async link(_existing: string, _path: string): Promise<void> { this.link_sync(_existing, _path) }
+  mkfifo_sync(_path: string, _mode: number = 0o666): void {
+    this.fault('mkfifo', _path)
+    this.attach(this.locate(_path, false, 'mkfifo'), this.node(fs.constants.S_IFIFO, _mode & ~this.umask), 'mkfifo')
+  }
+  async mkfifo(_path: string, _mode?: number): Promise<void> { this.mkfifo_sync(_path, _mode) }
+  readlink_sync(_path: string): string {
+    const { node } = this.existing(_path, false, 'readlink')
+    if (node.type !== fs.constants.S_IFLNK)
+      throw errnoError('EINVAL', 'readlink', _path)
+    return node.target
+  }
+  async readlink(_path: string): Promise<string> { return this.readlink_sync(_path) }
+  copy_file_sync(_from: string, _to: string): void {
+    const source = this.open_sync(_from, 'r')
+    try {
+      const mode = source.node.mode
+      const target = this.open_sync(_to, 'wx', mode)
+      try {
+        target.write_sync(source.node.data, 0, source.node.data.length, 0)
+      } finally {
+        target.close_sync()
+      }
+    } finally {
+      source.close_sync()
+    }
+  }
+  async copy_file(_from: string, _to: string): Promise<void> { this.copy_file_sync(_from, _to) }
+
+  // Content
+  open_sync(_path: string, _flags: string = 'r', _mode: number = 0o666): MemoryHandle {
+    this.fault('open', _path)
+    const flags = _flags.replace('s', '')
+    const readable = flags.startsWith('r') || flags.includes('+')
+    const writable = !flags.startsWith('r') || flags.includes('+')
+    let location = this.locate(_path, !flags.includes('x'), 'open') // Exclusive creation never follows a link
+    if (location.node && flags.includes('x'))
+      throw errnoError('EEXIST', 'open', _path)
+    if (!location.node) {
+      if (flags.startsWith('r'))
+        throw errnoError('ENOENT', 'open', _path)
+      this.attach(location, this.node(fs.constants.S_IFREG, _mode & ~this.umask), 'open')
+      location = this.locate(location.path, true, 'open')
+    } else {
+      if (location.node.type === fs.constants.S_IFDIR && writable)
+        throw errnoError('EISDIR', 'open', _path)
+      if (location.node.type === fs.constants.S_IFSOCK)
+        throw errnoError('ENXIO', 'open', _path)
+      this.assert_allowed(location.node, (readable ? fs.constants.R_OK : 0) | (writable ? fs.constants.W_OK : 0), 'open', _path)
+    }
+    const handle = new MemoryHandle(this, location.node!, location.path, readable, writable, flags.startsWith('a'))
+    if (flags.startsWith('w'))
+      handle.truncate_sync(0)
+    return handle
+  }
+  async open(_path: string, _flags: string = 'r', _mode: number = 0o666): Promise<RoadHandle> { return this.open_sync(_path, _flags, _mode) }
+  read_file_sync(_path: string, _flags: string = 'r'): Buffer {
+    const handle = this.open_sync(_path, _flags)
+    try {
+      const buffer = Buffer.alloc(handle.node.data.length)
+      handle.read_sync(buffer, 0, buffer.length, 0)
+      return buffer
+    } finally {
+      handle.close_sync()
+    }
+  }
+  async read_file(_path: string, _flags: string = 'r'): Promise<Buffer> { return this.read_file_sync(_path, _flags) }
+  write_file_sync(_path: string, _data: Buffer | string, _encoding?: BufferEncoding, _flags: string = 'w'): void {
+    const data = typeof _data === 'string' ? Buffer.from(_data, _encoding) : _data
+    const handle = this.open_sync(_path, _flags)
+    try {
+      handle.write_sync(data, 0, data.length, null)
+    } finally {
+      handle.close_sync()
+    }
+  }
+  async write_file(_path: string, _data: Buffer | string, _encoding?: BufferEncoding, _flags: string = 'w'): Promise<void> {
+    this.write_file_sync(_path, _data, _encoding, _flags)
+  }
+  create_read_stream(_path: string, _options: RoadStreamOptions = {}): Readable {
+    const stream = Readable.from(readChunks(this, _path, _options), { objectMode: false })
+    if (_options.encoding)
+      stream.setEncoding(_options.encoding)
+    if (_options.signal)
+      addAbortSignal(_options.signal, stream)
+    return stream
+  }
+  create_write_stream(_path: string, _options: RoadStreamOptions = {}): Writable {
+    let handle: RoadHandle | undefined = undefined
+    return new Writable({
+      construct: callback => this.open(_path, _options.flags ?? 'w').then(h => { handle = h; callback() }, callback),
+      write: (chunk: Buffer, _encoding, callback) => handle!.write(chunk, 0, chunk.length, null).then(() => callback(), callback),
+      destroy: (error, callback) => (handle ? handle.close() : Promise.resolve()).then(() => callback(error), callback),
+      ...(_options.signal ? { signal: _options.signal } : {})
+    })
+  }
+  /**
+   * Readers of a FIFO share one in-memory pipe, which ends once its last writer is done.
+   */
+  async create_fifo_reader(_path: string): Promise<Readable> {
+    const { node } = this.existing(_path, true, 'open')
+    this.assert_allowed(node, fs.constants.R_OK, 'open', _path)
+    let pipe = this.pipes.get(node)
+    if (!pipe) {
+      pipe = { stream: new PassThrough(), writers: 0 }
+      this.pipes.set(node, pipe)
+      pipe.stream.once('close', () => this.pipes.delete(node))
+    }
+    return pipe.stream
+  }
+  async create_fifo_writer(_path: string): Promise<Writable> {
+    const { node } = this.existing(_path, true, 'open')
+    this.assert_allowed(node, fs.constants.W_OK, 'open', _path)
+    const pipe = this.pipes.get(node)
+    if (!pipe)
+      throw errnoError('ENXIO', 'open', _path)
+    pipe.writers++
+    return new Writable({
+      write: (chunk: Buffer, _encoding, callback) => pipe.stream.write(chunk, callback),
+      destroy: (error, callback) => {
+        if (--pipe.writers === 0)
+          pipe.stream.end()
+        callback(error)
+      }
+    })
+  }
+
+  // Observation
+  watch(_path: string): RoadWatcher {
+    const { node } = this.existing(_path, true, 'watch')
+    const watchers = this.watchers
+    const watcher: RoadWatcher = Object.assign(new EventEmitter(), {
+      close(): void {
+        watchers.get(node)?.delete(watcher)
+      }
+    })
+    watchers.set(node, (watchers.get(node) ?? new Set()).add(watcher))
+    return watcher
+  }
+}
+
+
+
+/**
+ * The backend used outside of {@link withBackend}, see {@link useBackend}.
+ */
+let defaultBackend: RoadBackend = new DiskBackend()
+/**
+ * Backends selected by {@link withBackend} for the current asynchronous context.
+ */
+const scopedBackend: AsyncLocalStorage<RoadBackend> = new AsyncLocalStorage()
+/**
+ * Returns the backend that road operations in the current context run against.
+ *
+ * @returns The backend of the innermost {@link withBackend} call, otherwise the one set by {@link useBackend}.
+ */
+export function currentBackend(): RoadBackend {
+  return scopedBackend.getStore() ?? defaultBackend
+}
+/**
+ * Replaces the backend all road operations run against, outside of {@link withBackend}.
+ *
+ * @param _backend - The new default backend, e.g. a {@link MemoryBackend} for a whole test file.
+ * @returns The previous default backend, so that it can be restored.
+ */
+export function useBackend(_backend: RoadBackend): RoadBackend {
+  const previous = defaultBackend
+  defaultBackend = _backend
+  return previous
+}
+/**
+ * Runs a function with all road operations (including asynchronous continuations) going to the given backend.
+ * Calls can be nested and run concurrently without affecting each other.
+ *
+ * @param _backend - The backend to use within `_fn`.
+ * @param _fn - The function to run.
+ * @returns Whatever `_fn` returns.
+ */
+export function withBackend<T>(_backend: RoadBackend, _fn: () => T): T {
+  return scopedBackend.run(_backend, _fn)
+}
+/**
+ * Short hand for {@link currentBackend} used by all road operations.
+ */
+const io = currentBackend
+/**
+ * Returns the metadata of a path without following a final symbolic link, or `null` if it doesn't exist.
+ */
+async function lstatOrNull(_path: string): Promise<RoadStats | null> {
+  return io().lstat(_path).catch(() => null)
+}
+/**
+ * Synchronous twin of {@link lstatOrNull}.
+ */
+function lstatOrNullSync(_path: string): RoadStats | null {
+  try {
+    return io().lstat_sync(_path)
+  } catch {
+    return null
+  }
+}
+/**
+ * Returns the metadata of what a path resolves to, or `null` if it (or a link target) doesn't exist.
+ */
+async function statOrNull(_path: string): Promise<RoadStats | null> {
+  return io().stat(_path).catch(() => null)
+}
+/**
+ * Synchronous twin of {@link statOrNull}.
+ */
+function statOrNullSync(_path: string): RoadStats | null {
+  try {
+    return io().stat_sync(_path)
+  } catch {
+    return null
+  }
+}
+/**
+ * Writes a whole buffer through a handle at `_position` (default the current position), continuing after partial writes.
+ */
+async function writeAll(_handle: RoadHandle, _data: Buffer, _position: number | null = null): Promise<void> {
+  for (let written = 0; written < _data.length;)
+    written += await _handle.write(_data, written, _data.length - written, _position === null ? null : _position + written)
+}
+/**
+ * Synchronous twin of {@link writeAll}.
+ */
+function writeAllSync(_handle: RoadHandle, _data: Buffer, _position: number | null = null): void {
+  for (let written = 0; written < _data.length;)
+    written += _handle.write_sync(_data, written, _data.length - written, _position === null ? null : _position + written)
+}
+
+
+
+// Concurrency
+/**
+ * Limits how many asynchronous tasks run at the same time, queueing the rest in order.
+ *
+ * Road operations that fan out over many entries run their file system calls through a limiter, so that
+ * huge trees can't exhaust file descriptors (`EMFILE`). Only single calls are limited, never a task that waits
+ * for further tasks of the same limiter, so that nested folders can't deadlock waiting for their parents.
+ *
+ * @example
+ * ```typescript
+ * const shared = new Limiter(8)
+ * await Promise.all([a.copy(backup, { concurrency: shared }), b.delete({ concurrency: shared })])
+ * ```
+ */
+export class Limiter {
+  active: number = 0
+  readonly waiting: (() => void)[] = []
+
+  /**
+   * @param limit - How many tasks may run at once.
+   * @throws {Error} If the limit isn't a positive integer.
+   */
+  constructor(readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1)
+      throw new Error(`Invalid concurrency limit ${limit}`)
+  }
+  /**
+   * Runs a task as soon as fewer than {@link limit} tasks are active.
+   *
+   * @param _task - The task, which must not wait for other tasks of this limiter.
+   * @returns A promise that resolves to the result of the task.
+   */
+  async run<T>(_task: () => Promise<T>): Promise<T> {
+    while (this.active >= this.limit)
+      await new Promise<void>(resolve => this.waiting.push(resolve))
+    this.active++
+    try {
+      return await _task()
+    } finally {
+      this.active--
+      this.waiting.shift()?.()
+    }
+  }
+  /**
+   * Runs a task for every item, at most {@link limit} at once, see {@link run}.
+   *
+   * @returns A promise that resolves to the results in the order of the items once all tasks are done.
+   * @throws {Error} The first error of a failed task, after all others have settled.
+   */
+  async map<T, R>(_items: Iterable<T>, _task: (_item: T) => Promise<R>): Promise<R[]> {
+    return settleAll(Array.from(_items, item => this.run(() => _task(item))))
+  }
+}
+/**
+ * Options of asynchronous operations that run many file system calls at once.
+ *
+ * @property concurrency - How many calls may be in flight: a number limits this call alone, a {@link Limiter} is shared
+ *                         with the other calls it's passed to (default the limiter set by {@link useConcurrency}).
+ */
+export interface ConcurrencyOptions {
+  concurrency?: number | Limiter
+}
+/**
+ * The limiter shared by all operations that aren't given one, see {@link useConcurrency}.
+ */
+let defaultLimiter: Limiter = new Limiter(16)
+/**
+ * Replaces the limiter shared by all operations that aren't given their own `concurrency`.
+ *
+ * @param _limit - The new default, a limit of 16 is used until this is called.
+ * @returns The previous default limiter, so that it can be restored.
+ */
+export function useConcurrency(_limit: number | Limiter): Limiter {
+  const previous = defaultLimiter
+  defaultLimiter = typeof _limit === 'number' ? new Limiter(_limit) : _limit
+  return previous
+}
+/**
+ * The limiter an operation runs its file system calls through, see {@link ConcurrencyOptions}.
+ */
+function limiterOf(_concurrency?: number | Limiter): Limiter {
+  if (_concurrency === undefined)
+    return defaultLimiter
+  return typeof _concurrency === 'number' ? new Limiter(_concurrency) : _concurrency
+}
+/**
+ * Waits for all promises, unlike `Promise.all` also after one of them failed, so that nothing keeps running unnoticed.
+ *
+ * @returns The results in order.
+ * @throws {Error} The first error in order of the promises.
+ */
+async function settleAll<T>(_promises: Promise<T>[]): Promise<T[]> {
+  const results = await Promise.allSettled(_promises)
+  const failure = results.find(result => result.status === 'rejected')
+  if (failure)
+    throw failure.reason
+  return results.map(result => (result as PromiseFulfilledResult<T>).value)
+}
+/**
+ * Asynchronously removes an entry and everything below it, removing siblings concurrently through `_limiter`.
+ */
+async function removeTree(_path: string, _limiter: Limiter): Promise<void> {
+  const stats = await _limiter.run(() => io().lstat(_path))
+  if (stats.isDirectory())
+    await settleAll((await _limiter.run(() => io().readdir(_path))).map(name => removeTree(ph.join(_path, name), _limiter)))
+  await _limiter.run(() => io().rm(_path, { recursive: true }))
+}
+
+
+
+// Type management
+/**
+ * Represents a union type of default file system node constructors.
+ * 
+ * This type can be used to refer to any of the following node types:
+ * - {@link File}
+ * - {@link Folder}
+ * - {@link BlockDevice}
+ * - {@link CharacterDevice}
+ * - {@link SymbolicLink}
+ * - {@link Fifo}
+ * - {@link Socket}
+ *
+ * Each member is referenced by its constructor type.
+ */
+export type road_t = typeof File | typeof Folder | typeof BlockDevice | typeof CharacterDevice | typeof SymbolicLink | typeof Fifo | typeof Socket
+/**
+ * Synchronously determines the constructor type of a file system object at the given path.
+ *
+ * If a string path is provided, it retrieves the mode using {@link RoadBackend.lstat_sync} of the {@link currentBackend}.
+ * If a numeric mode is provided, it uses that directly.
+ * The function then returns the corresponding {@link road_t} type based on the mode.
+ *
+ * @param _pathorMode - The file system path (string) or mode (number) to evaluate.
+ * @returns The type of the file system object as a {@link road_t}.
+ * @throws {Error} If the mode does not match any known file system object type.
+ */
+export function roadType(_pathorMode: string | number): road_t {
+  const mode = typeof _pathorMode === 'string' ? io().lstat_sync(_pathorMode).mode : _pathorMode
+  switch (mode & fs.constants.S_IFMT) {
+    case fs.constants.S_IFREG: return File
+    case fs.constants.S_IFDIR: return Folder
+    case fs.constants.S_IFBLK: return BlockDevice
+    case fs.constants.S_IFCHR: return CharacterDevice
+    case fs.constants.S_IFLNK: return SymbolicLink
+    case fs.constants.S_IFIFO: return Fifo
+    case fs.constants.S_IFSOCK: return Socket
+    default: throw new Error(`Unknown mode type ${mode} for path/mode: '${_pathorMode}'`)
+  }
+}
+
+
+
+// Permissions
+/**
+ * Whether one class of users may read, write and execute (or search, for folders) an entry.
+ */
+export interface PermissionBits {
+  read: boolean
+  write: boolean
+  execute: boolean
+}
+/**
+ * The permissions and ownership of an entry, as returned by {@link Road.permissions}.
+ *
+ * @property mode - The permission bits including setuid, setgid and sticky, e.g. `0o4755`.
+ */
+export interface Permissions {
+  owner: PermissionBits
+  group: PermissionBits
+  other: PermissionBits
+  setuid: boolean
+  setgid: boolean
+  sticky: boolean
+  uid: number
+  gid: number
+  mode: number
+}
+/**
+ * Decodes the permission bits and ownership from entry metadata.
+ */
+function permissionsOf(_stats: RoadStats): Permissions {
+  const bits = (_shift: number): PermissionBits => ({
+    read: Boolean(_stats.mode & (0o4 << _shift)),
+    write: Boolean(_stats.mode & (0o2 << _shift)),
+    execute: Boolean(_stats.mode & (0o1 << _shift))
+  })
+  return {
+    owner: bits(6), group: bits(3), other: bits(0),
+    setuid: Boolean(_stats.mode & 0o4000), setgid: Boolean(_stats.mode & 0o2000), sticky: Boolean(_stats.mode & 0o1000),
+    uid: _stats.uid, gid: _stats.gid, mode: _stats.mode & 0o7777
+  }
+}
+/**
+ * Computes new permission bits from an octal number or string (`755`) or a symbolic mode as understood by `chmod(1)`,
+ * i.e. comma separated clauses of who (`ugoa`, default all), operators (`+-=`) and permissions (`rwxXst` or `ugo` to copy).
+ *
+ * @param _mode - The requested mode, e.g. `0o640`, `'640'` or `'u+x,go-w'`.
+ * @param _current - The current mode, which symbolic modes are applied to.
+ * @param _isFolder - Whether the entry is a folder, for the conditional `X` permission.
+ * @returns The new permission bits.
+ * @throws {Error} If the mode can't be parsed.
+ */
+export function parseMode(_mode: number | string, _current: number, _isFolder: boolean): number {
+  if (typeof _mode === 'number')
+    return _mode & 0o7777
+  if (/^[0-7]{1,4}$/.test(_mode))
+    return parseInt(_mode, 8)
+  const shifts = { u: 6, g: 3, o: 0 } as const
+  let mode = _current & 0o7777
+  for (const clause of _mode.split(',')) {
+    const parsed = /^([ugoa]*)((?:[-+=](?:[ugo]|[rwxXst]*))+)$/.exec(clause)
+    if (!parsed)
+      throw new Error(`Invalid mode '${_mode}': can't parse '${clause}'`)
+    const who = (parsed[1] || 'a').replace('a', 'ugo')
+    for (const [, operator, perms] of parsed[2]!.matchAll(/([-+=])([ugo]|[rwxXst]*)/g)) {
+      const before = mode // Copies and `X` read the mode as it was before this operator
+      let bits = 0
+      let cleared = 0
+      for (const w of new Set(who) as Set<keyof typeof shifts>) {
+        const shift = shifts[w]
+        let rwx = 0
+        if (perms === 'u' || perms === 'g' || perms === 'o')
+          rwx = (before >> shifts[perms]) & 0o7
+        else {
+          const has = (_p: string) => perms!.includes(_p)
+          rwx = (has('r') ? 0o4 : 0) | (has('w') ? 0o2 : 0) | (has('x') || (has('X') && (_isFolder || (before & 0o111))) ? 0o1 : 0)
+          if (has('s') && w !== 'o')
+            bits |= w === 'u' ? 0o4000 : 0o2000
+          if (has('t') && w === 'o')
+            bits |= 0o1000
+        }
+        bits |= rwx << shift
+        cleared |= (0o7 << shift) | (w === 'u' ? 0o4000 : w === 'g' ? 0o2000 : 0o1000)
+      }
+      mode = operator === '-' ? mode & ~bits : operator === '+' ? mode | bits : (mode & ~cleared) | bits
+    }
+  }
+  return mode
+}
+
+
+
+// Timestamps
+/**
+ * The timestamps of an entry, as returned by {@link Road.times}.
+ *
+ * @property access - When the content was last read.
+ * @property modify - When the content was last changed.
+ * @property change - When the content or metadata (mode, owner, links) was last changed.
+ * @property birth - When the entry was created, `null` where the file system doesn't record it.
+ */
+export interface RoadTimes {
+  access: Date
+  modify: Date
+  change: Date
+  birth: Date | null
+}
+function timesOf(_stats: RoadStats): RoadTimes {
+  return { access: _stats.atime, modify: _stats.mtime, change: _stats.ctime, birth: _stats.birthtimeMs > 0 ? _stats.birthtime : null }
+}
+
+
+
+// Pure paths
+/**
+ * An immutable path that is only ever handled lexically, so it doesn't need to exist, e.g. the file about to be created.
+ *
+ * Redundant separators and `.` segments are collapsed on construction, `..` segments are kept until {@link normalize},
+ * since they can't be resolved without knowing about symbolic links. Nothing touches the file system until a path
+ * is turned into a {@link Road} by {@link resolve}, {@link create_file} or {@link create_folder}.
+ *
+ * @example
+ * ```typescript
+ * const report = new PurePath(folder.isAt, 'out', 'report.md')
+ * const html = await report.with_suffix('.html').create_file()
+ * report.relative_to(folder.path).parts // ['out', 'report.md']
+ * ```
+ */
+export class PurePath {
+  /**
+   * The path as a string.
+   */
+  readonly value: string
+
+  /**
+   * @param _segments - Segments joined into the path, absolute segments don't discard earlier ones (like `path.join`).
+   */
+  constructor(..._segments: (string | PurePath)[]) {
+    const joined = _segments.map(String).filter(_segment => _segment !== '').join(ph.sep)
+    const root = ph.parse(joined).root
+    const parts = joined.slice(root.length).split(ph.sep === '/' ? /\/+/ : /[\\/]+/).filter(_part => _part !== '' && _part !== '.')
+    this.value = root + parts.join(ph.sep) || '.'
+  }
+  toString(): string {
+    return this.value
+  }
+  /**
+   * Whether both paths are lexically the same.
+   */
+  equals(_other: string | PurePath): boolean {
+    return this.value === new PurePath(_other).value
+  }
+
+  // Components
+  /**
+   * The root of an absolute path (e.g. `/`), otherwise an empty string.
+   */
+  get root(): string {
+    return ph.parse(this.value).root
+  }
+  /**
+   * The segments of the path, starting with the root if it's absolute.
+   */
+  get parts(): string[] {
+    const rest = this.value.slice(this.root.length)
+    return [...(this.root ? [this.root] : []), ...(rest && rest !== '.' ? rest.split(ph.sep) : [])]
+  }
+  /**
+   * The last segment of the path, empty for a root.
+   */
+  get name(): string {
+    return this.value === this.root || this.value === '.' ? '' : ph.basename(this.value)
+  }
+  /**
+   * The extension of the name including its dot, empty for names like `.bashrc` that only start with one.
+   */
+  get suffix(): string {
+    return ph.extname(this.name)
+  }
+  /**
+   * The name without its {@link suffix}.
+   */
+  get stem(): string {
+    return this.name.slice(0, this.name.length - this.suffix.length)
+  }
+  /**
+   * The path without its last segment. The parent of a root is the root itself, the parent of `.` is `.`.
+   */
+  get parent(): PurePath {
+    return new PurePath(ph.dirname(this.value))
+  }
+  is_absolute(): boolean {
+    return this.root !== ''
+  }
+
+  // Derived paths
+  /**
+   * Appends segments to the path.
+   */
+  join(..._segments: (string | PurePath)[]): PurePath {
+    return new PurePath(this, ..._segments)
+  }
+  /**
+   * Replaces the last segment of the path.
+   *
+   * @throws {Error} If the path has no name or `_name` is not a single segment.
+   */
+  with_name(_name: string): PurePath {
+    if (!this.name)
+      throw new Error(`Path '${this.value}' has no name to replace`)
+    if (!_name || _name === '.' || _name === '..' || _name.includes('/') || _name.includes(ph.sep))
+      throw new Error(`Invalid name '${_name}'`)
+    return this.parent.join(_name)
+  }
+  /**
+   * Replaces the suffix of the name, or appends one if there is none. An empty suffix removes it.
+   *
+   * @throws {Error} If the path has no name or `_suffix` doesn't start with a dot.
+   */
+  with_suffix(_suffix: string): PurePath {
+    if (_suffix !== '' && (!_suffix.startsWith('.') || _suffix === '.'))
+      throw new Error(`Invalid suffix '${_suffix}'`)
+    return this.with_name(this.stem + _suffix)
+  }
+  /**
+   * Lexically resolves `..` segments, relative paths keep the leading ones that lead outside of them.
+   */
+  normalize(): PurePath {
+    return new PurePath(ph.normalize(this.value))
+  }
+  /**
+   * Makes the path absolute against the current working directory, lexically.
+   */
+  absolute(): PurePath {
+    return new PurePath(ph.resolve(this.value))
+  }
+  /**
+   * Whether the path equals `_other` or lies inside of it. Both are compared lexically after {@link normalize}.
+   */
+  is_within(_other: string | PurePath): boolean {
+    const self = this.normalize().parts
+    const other = new PurePath(_other).normalize().parts
+    return other.length <= self.length && other.every((_part, _i) => _part === self[_i])
+  }
+  /**
+   * The path relative to one of its ancestors (or itself, which gives `.`).
+   *
+   * @throws {Error} If the path isn't within `_other`, see {@link is_within}.
+   */
+  relative_to(_other: string | PurePath): PurePath {
+    if (!this.is_within(_other))
+      throw new Error(`Path '${this.value}' is not within '${String(_other)}'`)
+    return new PurePath(...this.normalize().parts.slice(new PurePath(_other).normalize().parts.length))
+  }
+
+  // Conversion into roads
+  /**
+   * Synchronously turns the path into an instance of the {@link Road} subclass of what is there, see {@link Road.factory_sync}.
+   *
+   * @throws {Error} If nothing exists at the path.
+   */
+  resolve_sync(): Road {
+    return Road.factory_sync(this.value)
+  }
+  /**
+   * Asynchronously turns the path into an instance of the {@link Road} subclass of what is there, see {@link Road.factory}.
+   *
+   * @throws {Error} If nothing exists at the path.
+   */
+  async resolve(): Promise<Road> {
+    return Road.factory(this.value)
+  }
+  /**
+   * Synchronously creates a file at the path unless it exists, see {@link File.create_sync}.
+   */
+  create_file_sync(_options: WriteOptions = {}): File {
+    return File.create_sync(this.value, _options)
+  }
+  /**
+   * Asynchronously creates a file at the path unless it exists, see {@link File.create}.
+   */
+  async create_file(_options: WriteOptions = {}): Promise<File> {
+    return File.create(this.value, _options)
+  }
+  /**
+   * Synchronously creates a folder and its missing parents at the path, see {@link Folder.create_sync}.
+   */
+  create_folder_sync(): Folder {
+    return Folder.create_sync(this.value)
+  }
+  /**
+   * Asynchronously creates a folder and its missing parents at the path, see {@link Folder.create}.
+   */
+  async create_folder(): Promise<Folder> {
+    return Folder.create(this.value)
+  }
+}
+
+
+
+/**
+ * Abstract base class representing a filesystem path (file or folder).
+ * Provides methods for querying, accessing, and manipulating the path.
+ * Think of it as a 
+ * 
+ * Subclasses must implement positional methods for deleting, moving, copying, and renaming.
+ * 
+ * @remarks
+ * Road provides an ergonomic, object-oriented interface over Node.js's filesystem APIs.
+ * While there are many methods that internally do checks to ensure correctness,
+ * performance considerations have been made to minimize unnecessary overhead.
+ * It does **not** guarantee safety against external changes to the filesystem,
+ * but aims to provide a convenient abstraction for common filesystem operations.
+ * 
+ * @property {string} {@link pointsTo} - The target path that this node points to.
+ * @property {PurePath} {@link path} - The path this node points to as a {@link PurePath}.
+ * @property {boolean} {@link mutable} - Indicates if the underlying entry can be modified (sometimes overridden by subclasses if necessary).
+ * 
+ * @staticmethod {@link factory} - Asynchronously creates an instance of the appropriate {@link Road} subclass for the given path.
+ * @staticmethod {@link factory_sync} - Synchronously creates an instance of the appropriate {@link Road} subclass for the given path.
+ * 
+ * @method {@link assert_mutable} - Asserts that the node is mutable, throwing an error if not.
+ * @method {@link exists_sync} - Checks synchronously if the path exists and matches the expected type.
+ * @method {@link exists} - Checks asynchronously if the path exists and matches the expected type.
+ * @method {@link stats_sync} - Gets synchronous file statistics.
+ * @method {@link stats} - Gets asynchronous file statistics.
+ * @method {@link depth} - Returns the depth of the path in the filesystem hierarchy.
+ * @method {@link parent} - Returns the parent folder as a {@link Folder}.
+ * @method {@link ancestors} - Returns all ancestor folders up to the root.
+ * @method {@link name} - Returns the basename of the path.
+ * @method {@link accessible_sync} - Checks synchronously if the path is accessible with the given mode.
+ * @method {@link accessible} - Checks asynchronously if the path is accessible with the given mode.
+ * @method {@link permissions} - Gets the permission bits and ownership as a structured object.
+ * @method {@link chmod} - Changes the permission bits from an octal or symbolic mode.
+ * @method {@link chown} - Changes the owning user and group.
+ * @method {@link link_count} - Counts the hard links of the entry.
+ * @method {@link same_entry} - Checks whether two nodes are the same entry by device and inode.
+ * @method {@link times} - Gets the access, modification, change and birth times.
+ * @method {@link set_times} - Sets the access and modification times.
+ * @method {@link touch} - Sets the access and modification times to now.
+ * @method {@link trash} - Moves the path into a {@link Trash} instead of deleting it, so that it can be restored.
+ * @method {@link until_accessible} - Waits asynchronously until the path becomes accessible, with abort and callback support.
+ * @method {@link on_change} - Watches for changes to the path, with abort and callback support.
+ * 
+ * @abstractmethod {@link delete_sync} - Synchronously deletes the path.
+ * @abstractmethod {@link delete} - Asynchronously deletes the path.
+ * @abstractmethod {@link move_sync} - Synchronously moves the path into a folder.
+ * @abstractmethod {@link move} - Asynchronously moves the path into a folder.
+ * @abstractmethod {@link copy_sync} - Synchronously copies the path into a folder.
+ * @abstractmethod {@link copy} - Asynchronously copies the path into a folder.
+ * @abstractmethod {@link rename_sync} - Synchronously renames the path.
+ * @abstractmethod {@link rename} - Asynchronously renames the path.
+ */
+export abstract class Road {
+  /**
+   * Specifies the target path that this node points to.
+   * Use this property only when it is necessary to change the default path.
+   */
+  protected pointsTo: string
+  /**
+   * Gets the immutable string representing the location this node points to.
+   * @returns The path string that this node points to.
+   */
+  get isAt(): string { return this.pointsTo }
+  /**
+   * Gets the location this node points to as a {@link PurePath}, e.g. to derive paths of entries that don't exist yet.
+   * The string form stays available as {@link isAt}.
+   * @returns A new {@link PurePath} of {@link isAt}.
+   */
+  get path(): PurePath { return new PurePath(this.pointsTo) }
+  /**
+   * Indicates whether this instance is allowed to perform modifying operations on the underlying filesystem entry.
+   * This does NOT reflect the actual filesystem permissions, but rather serves as an internal flag.
+   * Subclasses can override this property if necessary.
+   * Set to `false` to prevent modifications even if the os's filesystem would allow it.
+   * @returns `true` if the entry is mutable; otherwise, `false`.
+   */
+  mutable: boolean = true
+
+  // Constructor and factory methods
+  /**
+   * Constructs a new instance, verifying the existence of the specified path and resolving it.
+   * Throws an error if the constructed instance is not of the expected type.
+   *
+   * The entry itself has to exist, symbolic links are not followed so that dangling ones can be constructed.
+   *
+   * @param _lookFor - The file system path to check for existence and resolve.
+   * @throws {Error} If the path does not exist or if the instance type does not match the expected type.
+   */
+  constructor(_lookFor: string) {
+    io().lstat_sync(_lookFor)
+    this.pointsTo = ph.resolve(_lookFor)
+    if (!(this instanceof roadType(this.isAt)))
+      throw new Error(`Type missmatch: Path '${this.isAt}' is not of constructed type ${this.constructor.name}`)
+  }
+  /**
+   * Asynchronously creates an instance of a {@link Road} subclass based on the provided file path.
+   *
+   * This factory method first checks if the specified file exists, determines the appropriate
+   * {@link Road} subclass constructor using the {@link roadType} function, and then returns a new instance
+   * of that subclass initialized with the given file path.
+   *
+   * @param _lookFor - The file path to check and use for instantiating the {@link Road} subclass.
+   * @returns A promise that resolves to an instance of a {@link Road} subclass.
+   * @throws If the file does not exist or if instantiation fails.
+   */
+  static async factory(_lookFor: string): Promise<Road> {
+    await io().lstat(_lookFor)
+    const roadCtor = roadType(_lookFor)
+    return new roadCtor(_lookFor)
+  }
+  static factory_sync(_lookFor: string): Road {
+    io().lstat_sync(_lookFor)
+    const roadCtor = roadType(_lookFor)
+    return new roadCtor(_lookFor)
+  }
+
+  // Query methods (async and sync)
+  /**
+   * Verifies synchronously that the path exists and that the current instance matches the expected type.
+   * 
+   * @returns {boolean} `true` if the path exists and the instance type matches; otherwise, `false`.
+   */
+  verify_sync(): boolean {
+    if (!statOrNullSync(this.isAt))
+      return false
+    return this instanceof roadType(this.isAt)
+  }
+  /**
+   * Asynchronously verifies that the path exists and that the current instance matches the expected type.
+   * 
+   * @returns {Promise<boolean>} A promise that resolves to `true` if the path exists and the instance type matches; otherwise, `false`.
+   */
+  async verify(): Promise<boolean> {
+    try {
+      await io().access(this.isAt, fs.constants.F_OK)
+      return this instanceof roadType(this.isAt)
+    } catch {
+      return false
+    }
+  }
+  /**
+   * Asserts that the current node is mutable.
+   * 
+   * @throws {Error} If the node is not mutable.
    */
   assert_mutable(): void {
     if (!this.mutable)
       throw new Error(`Mutability attempt failed: Node at path '${this.isAt}' can't be modified by this instance (unrelated to OS permissions).`)
   }
   /**
-   * Checks synchronously whether the file or directory at the path specified by {@link isAt} exists,
-   * and verifies that the current instance is of the type returned by {@link roadType}.
+   * Checks synchronously whether the file or directory at the path specified by {@link isAt} exists,
+   * and verifies that the current instance is of the type returned by {@link roadType}.
+   *
+   * @returns {boolean} `true` if the path exists and the instance matches the type; otherwise, `false`.
+   */
+  exists_sync(): boolean {
+    return statOrNullSync(this.isAt) !== null && (this instanceof roadType(this.isAt))
+  }
+  /**
+   * Asynchronously checks if the file or directory at the specified path exists.
+   *
+   * Attempts to access the path using the file system's access method. If the path exists,
+   * it further checks if the current instance is of the type returned by {@link roadType}.
+   * Returns `true` if both conditions are met, otherwise returns `false`.
+   *
+   * @returns {Promise<boolean>} A promise that resolves to `true` if the path exists and the instance type matches, or `false` otherwise.
+   */
+  async exists(): Promise<boolean> {
+    try {
+      await io().access(this.isAt, fs.constants.F_OK)
+      return this instanceof roadType(this.isAt)
+    } catch {
+      return false
+    }
+  }
+  /**
+   * Synchronously retrieves the file system statistics for the path specified by {@link isAt}.
+   *
+   * @returns {RoadStats} The file system statistics object for the current path.
+   * @throws {Error} If the path does not exist or an I/O error occurs.
+   */
+  stats_sync(): RoadStats {
+    return io().lstat_sync(this.isAt)
+  }
+  /**
+   * Asynchronously retrieves the file system statistics for the current node.
+   *
+   * @returns A promise that resolves to a {@link RoadStats} object containing information about the file or directory at the current path.
+   */
+  async stats(): Promise<RoadStats> {
+    return io().lstat(this.isAt)
+  }
+
+  // Path methods
+  /**
+   * Calculates the depth of the current node based on the number of path separators
+   * in the {@link isAt} property. The depth is determined by splitting the path using the
+   * platform-specific separator and subtracting one from the resulting segments.
+   *
+   * @returns {number} The depth of the node in the path hierarchy.
+   */
+  depth(): number {
+    return this.isAt.split(ph.sep).length - 1
+  }
+  /**
+   * Returns the parent folder of the current node.
+   *
+   * @returns {Folder} A new {@link Folder} instance representing the parent directory of the current node.
+   */
+  parent(): Folder {
+    return new Folder(ph.dirname(this.isAt))
+  }
+  /**
+   * Returns an array of ancestor folders for the current folder, traversing up the parent chain.
+   * The traversal continues until a folder is reached whose {@link isAt} property is equal to its parent's {@link isAt} property,
+   * which is assumed to be the root or a sentinel node.
+   *
+   * @returns {Folder[]} An array of ancestor folders, starting from the immediate parent up to (but not including) the root.
+   */
+  ancestors(): Folder[] {
+    const result: Folder[] = []
+    let current: Folder = this.parent()
+    while (current.isAt !== current.parent().isAt) {
+      result.push(current)
+      current = current.parent()
+    }
+    return result
+  }
+  /**
+   * Returns the base name of the current node's path.
+   *
+   * @returns The base name extracted from the `isAt` property.
+   */
+  name(): string {
+    return ph.basename(this.isAt)
+  }
+  /**
+   * Joins the current path (`this.isAt`) with one or more additional path segments.
+   *
+   * @param _paths - One or more string path segments to join to the current path.
+   * @returns The resulting path as a string.
+   */
+  join(..._paths: string[]): string {
+    return ph.join(this.isAt, ..._paths)
+  }
+
+  // Access method
+  /**
+   * Synchronously checks if the file or directory at the path specified by `this.isAt` is accessible with the given mode.
+   *
+   * @param _mode - The accessibility checks to be performed (default is `fs.constants.F_OK`).
+   * @returns `true` if the file or directory is accessible with the specified mode, `false` if it does not exist or is not accessible.
+   * @throws Rethrows any error that is not `ENOENT` (no such file or directory) or `EACCES` (permission denied).
+   */
+  accessible_sync(_mode: number = fs.constants.F_OK): boolean {
+    try {
+      io().access_sync(this.isAt, _mode)
+      return true
+    } catch (e) {
+      const err = e as NodeJS.ErrnoException
+      if (err?.code === 'ENOENT' || err?.code === 'EACCES')
+        return false
+      throw e
+    }
+  }
+  /**
+   * Checks if the file or directory at the current path is accessible with the specified mode.
+   *
+   * @param _mode - The accessibility checks to perform (defaults to `fs.constants.F_OK`).
+   * @returns A promise that resolves to `true` if accessible, or `false` if not found or access is denied.
+   * @throws Rethrows any unexpected errors other than 'ENOENT' (not found) or 'EACCES' (permission denied).
+   */
+  async accessible(_mode: number = fs.constants.F_OK): Promise<boolean> {
+    try {
+      await io().access(this.isAt, _mode)
+      return true
+    } catch (e: unknown) {
+      const err = e as NodeJS.ErrnoException
+      if (err?.code === 'ENOENT' || err?.code === 'EACCES')
+        return false
+      throw e
+    }
+  }
+  /**
+   * Waits asynchronously until the file or directory at `this.isAt` becomes accessible with the specified mode.
+   * 
+   * This method first checks if the target is accessible using the provided mode (default is `fs.constants.F_OK`).
+   * If not accessible, it sets up a file system watcher and waits for change events, rechecking accessibility after each event.
+   * The process can be aborted using the provided `AbortSignal`.
+   * An optional callback can be invoked on each unsuccessful attempt.
+   *
+   * @param _mode - The accessibility check mode (e.g., `fs.constants.F_OK`, `fs.constants.R_OK`). Defaults to `fs.constants.F_OK`.
+   * @param _abortSignal - An `AbortSignal` to allow aborting the wait operation.
+   * @param _onEachAttempt - Optional callback invoked after each unsuccessful accessibility check.
+   * @returns A promise that resolves when the target becomes accessible or rejects if aborted.
+   */
+  async until_accessible(_mode: number = fs.constants.F_OK, _abortSignal: AbortSignal, _onEachAttempt?: () => unknown): Promise<void> {
+    const watcher = io().watch(this.isAt)
+    try {
+      if (await this.accessible(_mode))
+        return
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const _ of on(watcher, 'change', { signal: _abortSignal }))
+        if (await this.accessible(_mode))
+          return
+        else
+          await _onEachAttempt?.()
+    } finally {
+      watcher.close()
+    }
+  }
+  /**
+   * Watches for changes on the file or directory specified by `this.isAt` and executes an optional callback when a change occurs.
+   *
+   * @param _abortSignal - An `AbortSignal` used to cancel the watcher and stop listening for changes.
+   * @param _thenDo - An optional callback function to execute each time a change event is detected.
+   * @returns A `Promise` that resolves when the watcher is closed, either due to an abort signal or after completion.
+   * @async
+   */
+  async on_change(_abortSignal: AbortSignal, _thenDo?: () => unknown): Promise<void> {
+    const watcher = io().watch(this.isAt)
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const _ of on(watcher, 'change', { signal: _abortSignal }))
+        await _thenDo?.()
+    } finally {
+      watcher.close()
+    }
+  }
+
+  // Permission methods
+  /**
+   * Synchronously reads the permission bits and ownership of this entry.
+   *
+   * @returns The decoded {@link Permissions}.
+   * @throws {Error} If the entry can't be inspected.
+   */
+  permissions_sync(): Permissions {
+    return permissionsOf(this.stats_sync())
+  }
+  /**
+   * Asynchronously reads the permission bits and ownership of this entry.
+   *
+   * @returns A promise that resolves to the decoded {@link Permissions}.
+   * @throws {Error} If the entry can't be inspected.
+   */
+  async permissions(): Promise<Permissions> {
+    return permissionsOf(await this.stats())
+  }
+  /**
+   * Synchronously changes the permission bits of this entry.
+   * Symbolic links have no permissions of their own, for them the target is changed.
+   *
+   * @param _mode - An octal number or string like `0o640` or `'640'`, or a symbolic mode like `'u+x,go-w'`, see {@link parseMode}.
+   * @throws {Error} If the node is not mutable, the mode is invalid or the OS refuses the change.
+   */
+  chmod_sync(_mode: number | string): void {
+    this.assert_mutable()
+    const stats = io().stat_sync(this.isAt)
+    io().chmod_sync(this.isAt, parseMode(_mode, stats.mode, stats.isDirectory()))
+  }
+  /**
+   * Asynchronously changes the permission bits of this entry, see {@link chmod_sync}.
+   *
+   * @param _mode - An octal number or string like `0o640` or `'640'`, or a symbolic mode like `'u+x,go-w'`, see {@link parseMode}.
+   * @throws {Error} If the node is not mutable, the mode is invalid or the OS refuses the change.
+   */
+  async chmod(_mode: number | string): Promise<void> {
+    this.assert_mutable()
+    const stats = await io().stat(this.isAt)
+    await io().chmod(this.isAt, parseMode(_mode, stats.mode, stats.isDirectory()))
+  }
+  /**
+   * Synchronously changes the owner and group of this entry (of symbolic links themselves, not their targets).
+   * Giving entries away usually requires elevated privileges.
+   *
+   * @param _uid - The new owning user.
+   * @param _gid - The new owning group (default unchanged).
+   * @throws {Error} If the node is not mutable or the OS refuses the change.
+   */
+  chown_sync(_uid: number, _gid?: number): void {
+    this.assert_mutable()
+    io().lchown_sync(this.isAt, _uid, _gid ?? this.stats_sync().gid)
+  }
+  /**
+   * Asynchronously changes the owner and group of this entry, see {@link chown_sync}.
+   *
+   * @param _uid - The new owning user.
+   * @param _gid - The new owning group (default unchanged).
+   * @throws {Error} If the node is not mutable or the OS refuses the change.
+   */
+  async chown(_uid: number, _gid?: number): Promise<void> {
+    this.assert_mutable()
+    await io().lchown(this.isAt, _uid, _gid ?? (await this.stats()).gid)
+  }
+
+  // Identity methods
+  /**
+   * Synchronously counts the hard links of this entry, i.e. the names under which its inode can be found.
+   *
+   * @returns The number of links, at least 1 for files and 2 for folders.
+   */
+  link_count_sync(): number {
+    return this.stats_sync().nlink
+  }
+  /**
+   * Asynchronously counts the hard links of this entry, see {@link link_count_sync}.
+   *
+   * @returns A promise that resolves to the number of links.
+   */
+  async link_count(): Promise<number> {
+    return (await this.stats()).nlink
+  }
+  /**
+   * Synchronously checks whether this and another node are the same entry by device and inode,
+   * e.g. two hard links of one file or a path reached through different folders.
+   *
+   * @param _other - The node to compare with.
+   * @returns `true` if both are the same entry (symbolic links are compared themselves, not their targets).
+   */
+  same_entry_sync(_other: Road): boolean {
+    return inodeKey(this.stats_sync()) === inodeKey(_other.stats_sync())
+  }
+  /**
+   * Asynchronously checks whether this and another node are the same entry by device and inode, see {@link same_entry_sync}.
+   *
+   * @param _other - The node to compare with.
+   * @returns A promise that resolves to `true` if both are the same entry.
+   */
+  async same_entry(_other: Road): Promise<boolean> {
+    return inodeKey(await this.stats()) === inodeKey(await _other.stats())
+  }
+
+  // Timestamp methods
+  /**
+   * Synchronously reads the timestamps of this entry (of symbolic links themselves, not their targets).
+   *
+   * @returns The access, modification, change and birth times, see {@link RoadTimes}.
+   */
+  times_sync(): RoadTimes {
+    return timesOf(this.stats_sync())
+  }
+  /**
+   * Asynchronously reads the timestamps of this entry (of symbolic links themselves, not their targets).
+   *
+   * @returns A promise that resolves to the access, modification, change and birth times, see {@link RoadTimes}.
+   */
+  async times(): Promise<RoadTimes> {
+    return timesOf(await this.stats())
+  }
+  /**
+   * Synchronously sets the access and modification times of this entry (of symbolic links themselves, not their targets).
+   * The change time can't be set, the OS moves it to now.
+   *
+   * @param _atime - The new access time, or `null` to keep it.
+   * @param _mtime - The new modification time, or `null` to keep it.
+   * @throws {Error} If the node is not mutable or the OS refuses the change.
+   */
+  set_times_sync(_atime: Date | null, _mtime: Date | null): void {
+    this.assert_mutable()
+    const stats = _atime && _mtime ? null : this.stats_sync()
+    io().lutimes_sync(this.isAt, _atime ?? stats!.atime, _mtime ?? stats!.mtime)
+  }
+  /**
+   * Asynchronously sets the access and modification times of this entry, see {@link set_times_sync}.
+   *
+   * @param _atime - The new access time, or `null` to keep it.
+   * @param _mtime - The new modification time, or `null` to keep it.
+   * @throws {Error} If the node is not mutable or the OS refuses the change.
+   */
+  async set_times(_atime: Date | null, _mtime: Date | null): Promise<void> {
+    this.assert_mutable()
+    const stats = _atime && _mtime ? null : await this.stats()
+    await io().lutimes(this.isAt, _atime ?? stats!.atime, _mtime ?? stats!.mtime)
+  }
+  /**
+   * Synchronously sets the access and modification times of this entry to now (or `_time`), like `touch -h`.
+   *
+   * @param _time - The time to set (default now).
+   * @throws {Error} If the node is not mutable or the OS refuses the change.
+   */
+  touch_sync(_time: Date = new Date()): void {
+    this.set_times_sync(_time, _time)
+  }
+  /**
+   * Asynchronously sets the access and modification times of this entry to now (or `_time`), like `touch -h`.
+   *
+   * @param _time - The time to set (default now).
+   * @throws {Error} If the node is not mutable or the OS refuses the change.
+   */
+  async touch(_time: Date = new Date()): Promise<void> {
+    await this.set_times(_time, _time)
+  }
+
+  // Trash methods
+  /**
+   * Synchronously moves this entry into a trash instead of deleting it, so that it can be restored later.
+   * The trash records the original path and the deletion time, see {@link Trash}.
+   *
+   * @param _trash - The trash to move into (default the XDG home trash of the current user).
+   * @returns The new entry of the trash, to be passed to {@link Trash.restore_sync}.
+   * @throws {Error} If the node or the trash is not mutable, the node overlaps the trash or the move fails.
+   */
+  trash_sync(_trash?: Trash): TrashEntry {
+    this.assert_mutable()
+    return (_trash ?? Trash.open_sync()).add_sync(this)
+  }
+  /**
+   * Asynchronously moves this entry into a trash instead of deleting it, see {@link trash_sync}.
+   *
+   * @param _trash - The trash to move into (default the XDG home trash of the current user).
+   * @returns The new entry of the trash, to be passed to {@link Trash.restore}.
+   * @throws {Error} If the node or the trash is not mutable, the node overlaps the trash or the move fails.
+   */
+  async trash(_trash?: Trash): Promise<TrashEntry> {
+    this.assert_mutable()
+    return (_trash ?? await Trash.open()).add(this)
+  }
+
+  // Positional methods (abstract)
+  abstract delete_sync(): void
+  abstract delete(): Promise<void>
+  abstract move_sync(_into: Folder, _options?: TransferOptions): void
+  abstract move(_into: Folder, _options?: TransferOptions): Promise<void>
+  abstract copy_sync(_into: Folder, _options?: UnskippedTransferOptions): this
+  abstract copy_sync(_into: Folder, _options?: TransferOptions): this | Road
+  abstract copy(_into: Folder, _options?: UnskippedTransferOptions): Promise<this>
+  abstract copy(_into: Folder, _options?: TransferOptions): Promise<this | Road>
+  abstract rename_sync(_to: string): void
+  abstract rename(_to: string): Promise<void>
+}
+
+
+
+/**
+ * Options for {@link File.create}, {@link File.write} and {@link File.append}.
+ *
+ * @property durable - Whether the data (and the folder entry of a newly created file) is flushed to disk before returning (default `false`).
+ * @property flag - The file system flag used by {@link File.write} and {@link File.append} (default `'w'` and `'a'`).
+ */
+export interface WriteOptions {
+  durable?: boolean
+  flag?: string
+}
+/**
+ * Error codes raised by platforms that can't open or flush folders (e.g. Windows), where syncing a folder is skipped.
+ */
+const UNSYNCABLE_CODES = new Set(['EISDIR', 'EINVAL', 'EPERM', 'EACCES'])
+/**
+ * Asynchronously flushes the data and metadata of a file or folder to the storage device.
+ *
+ * @param _path - The path of the file or folder to flush.
+ * @throws If the path can't be opened or flushed, unless it's a folder on a platform that doesn't support it.
+ */
+async function syncToDisk(_path: string): Promise<void> {
+  try {
+    const handle = await io().open(_path, 'r')
+    try {
+      await handle.flush()
+    } finally {
+      await handle.close()
+    }
+  } catch (e) {
+    if (!UNSYNCABLE_CODES.has((e as NodeJS.ErrnoException).code ?? '') || !(await io().stat(_path)).isDirectory())
+      throw e
+  }
+}
+/**
+ * Synchronous twin of {@link syncToDisk}.
+ */
+function syncToDiskSync(_path: string): void {
+  try {
+    const handle = io().open_sync(_path, 'r')
+    try {
+      handle.flush_sync()
+    } finally {
+      handle.close_sync()
+    }
+  } catch (e) {
+    if (!UNSYNCABLE_CODES.has((e as NodeJS.ErrnoException).code ?? '') || !io().stat_sync(_path).isDirectory())
+      throw e
+  }
+}
+
+
+
+/**
+ * Policy applied when the destination of a copy or move already exists:
+ * - `overwrite`: replace files and links, merge into existing folders (default).
+ * - `skip`: leave the destination untouched and do nothing.
+ * - `rename`: transfer under the first free name with a numbered suffix, e.g. `report (1).txt`.
+ * - `fail`: throw an error.
+ */
+export type conflict_t = 'overwrite' | 'skip' | 'rename' | 'fail'
+/**
+ * Progress of a copy or move, reported through {@link TransferOptions.onProgress}.
+ * Totals are measured before the transfer starts, a plain rename counts as a single entry without bytes.
+ */
+export interface TransferProgress {
+  bytesDone: number
+  bytesTotal: number
+  entriesDone: number
+  entriesTotal: number
+}
+/**
+ * What a copy keeps from its source.
+ *
+ * @property mode - Keep the permission bits (default `true`).
+ * @property times - Keep access and modification times (default `false` for copies, `true` for moves across devices).
+ * @property symlinks - Recreate symbolic links instead of copying what they point to (default `true`), relative targets stay relative.
+ * @property ownership - Keep the owning user and group (default `false` for copies, `true` for moves across devices).
+ *                       Giving entries away needs privileges, without them copies silently stay with the copying user.
+ */
+export interface TransferPreserve {
+  mode?: boolean
+  times?: boolean
+  symlinks?: boolean
+  ownership?: boolean
+}
+/**
+ * Options for `copy` and `move` of {@link File}, {@link Folder} and {@link SymbolicLink}.
+ *
+ * @property signal - Aborts the transfer between entries (and between chunks when progress is reported).
+ *                    Entries transferred so far are left in place.
+ * @property onProgress - Called after each entry (and each chunk of file data) with the current {@link TransferProgress}.
+ * @property conflict - What to do when the destination exists, see {@link conflict_t}.
+ * @property preserve - What a copy keeps from its source, see {@link TransferPreserve}.
+ * @property concurrency - How many entries of a folder are copied at once, see {@link ConcurrencyOptions}.
+ */
+export interface TransferOptions extends ConcurrencyOptions {
+  signal?: AbortSignal
+  onProgress?: (_progress: Readonly<TransferProgress>) => unknown
+  conflict?: conflict_t
+  preserve?: TransferPreserve
+}
+/**
+ * {@link TransferOptions} whose conflict policy never skips, so that a copy always returns the entry it created.
+ */
+export interface UnskippedTransferOptions extends TransferOptions {
+  conflict?: Exclude<conflict_t, 'skip'>
+}
+/**
+ * Error codes of a rename that a move can recover from by copying and deleting instead.
+ */
+const MOVE_FALLBACK_CODES = new Set(['EXDEV', 'ENOTEMPTY', 'EEXIST', 'EISDIR', 'ENOTDIR'])
+/**
+ * Returns `_name` with a numbered suffix before its extension, e.g. `report (2).txt`.
+ */
+function suffixedName(_name: string, _n: number): string {
+  const ext = _name.startsWith('.') && _name.indexOf('.', 1) === -1 ? '' : ph.extname(_name)
+  return `${_name.slice(0, _name.length - ext.length)} (${_n})${ext}`
+}
+/**
+ * Carries the options and progress of a single copy or move and performs it recursively.
+ * Sources and destinations are plain paths so that nested entries don't need to be constructed as {@link Road}s.
+ */
+class Transfer {
+  readonly progress: TransferProgress = { bytesDone: 0, bytesTotal: 0, entriesDone: 0, entriesTotal: 0 }
+  readonly preserve: Required<TransferPreserve>
+  readonly limiter: Limiter
+
+  constructor(readonly options: TransferOptions, _defaults: Required<TransferPreserve> = { mode: true, times: false, symlinks: true, ownership: false }) {
+    this.preserve = { ..._defaults, ...options.preserve }
+    this.limiter = limiterOf(options.concurrency)
+  }
+
+  // Destination and bookkeeping
+  /**
+   * Resolves where `_source` ends up inside `_into` according to the conflict policy.
+   * The entry keeps its name unless `_name` says otherwise.
+   *
+   * @returns The destination path, or `null` if the transfer should be skipped.
+   * @throws If the destination is inside the source or conflicts under the `fail` policy.
+   */
+  destination_sync(_source: string, _into: Folder, _name: string = ph.basename(_source)): string | null {
+    const dest = _into.join(_name)
+    if (dest.startsWith(_source + ph.sep))
+      throw new Error(`Cannot transfer '${_source}' into itself at '${dest}'`)
+    if (!lstatOrNullSync(dest))
+      return dest
+    switch (this.options.conflict ?? 'overwrite') {
+      case 'skip': return null
+      case 'fail': throw new Error(`Conflict: '${dest}' already exists`)
+      case 'overwrite': return dest
+      case 'rename':
+        for (let n = 1; ; n++) {
+          const candidate = _into.join(suffixedName(_name, n))
+          if (!lstatOrNullSync(candidate))
+            return candidate
+        }
+    }
+  }
+  /**
+   * Asynchronous twin of {@link destination_sync}.
+   */
+  async destination(_source: string, _into: Folder, _name: string = ph.basename(_source)): Promise<string | null> {
+    const lexists = async (_path: string) => io().lstat(_path).then(() => true, () => false)
+    const dest = _into.join(_name)
+    if (dest.startsWith(_source + ph.sep))
+      throw new Error(`Cannot transfer '${_source}' into itself at '${dest}'`)
+    if (!await lexists(dest))
+      return dest
+    switch (this.options.conflict ?? 'overwrite') {
+      case 'skip': return null
+      case 'fail': throw new Error(`Conflict: '${dest}' already exists`)
+      case 'overwrite': return dest
+      case 'rename':
+        for (let n = 1; ; n++) {
+          const candidate = _into.join(suffixedName(_name, n))
+          if (!await lexists(candidate))
+            return candidate
+        }
+    }
+  }
+  /**
+   * Measures the totals of a copy of `_source`, only if someone listens for progress.
+   */
+  measure_sync(_source: string): void {
+    if (!this.options.onProgress)
+      return
+    const follow = !this.preserve.symlinks
+    const account = (_path: string) => {
+      const stats = follow ? io().stat_sync(_path) : io().lstat_sync(_path)
+      this.progress.entriesTotal++
+      this.progress.bytesTotal += stats.isFile() ? stats.size : 0
+      return stats
+    }
+    if (account(_source).isDirectory())
+      for (const entry of new Folder(follow ? io().realpath_sync(_source) : _source).walk_sync({ symlinks: follow ? 'follow' : 'yield' }))
+        account(entry.isAt)
+  }
+  /**
+   * Asynchronous twin of {@link measure_sync}.
+   */
+  async measure(_source: string): Promise<void> {
+    if (!this.options.onProgress)
+      return
+    const follow = !this.preserve.symlinks
+    const account = async (_path: string) => {
+      const stats = follow ? await io().stat(_path) : await io().lstat(_path)
+      this.progress.entriesTotal++
+      this.progress.bytesTotal += stats.isFile() ? stats.size : 0
+      return stats
+    }
+    if ((await account(_source)).isDirectory())
+      for await (const entry of new Folder(follow ? await io().realpath(_source) : _source).walk({ symlinks: follow ? 'follow' : 'yield' }))
+        await account(entry.isAt)
+  }
+  advance_sync(_bytes: number, _entries: number): void {
+    this.progress.bytesDone += _bytes
+    this.progress.entriesDone += _entries
+    this.options.onProgress?.({ ...this.progress })
+  }
+  async advance(_bytes: number, _entries: number): Promise<void> {
+    this.progress.bytesDone += _bytes
+    this.progress.entriesDone += _entries
+    await this.options.onProgress?.({ ...this.progress })
+  }
+
+  /**
+   * Synchronously hands a copy over to the owner of its source if ownership is preserved.
+   * Ownership comes before the mode, since changing it may clear setuid and setgid bits.
+   */
+  own_sync(_dest: string, _stats: RoadStats): void {
+    if (!this.preserve.ownership)
+      return
+    try {
+      io().lchown_sync(_dest, _stats.uid, _stats.gid)
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EPERM')
+        throw e
+    }
+  }
+  /**
+   * Asynchronous twin of {@link own_sync}.
+   */
+  async own(_dest: string, _stats: RoadStats): Promise<void> {
+    if (!this.preserve.ownership)
+      return
+    try {
+      await io().lchown(_dest, _stats.uid, _stats.gid)
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EPERM')
+        throw e
+    }
+  }
+
+  // Copying
+  /**
+   * Synchronously copies `_source` to `_dest` recursively, replacing conflicting entries and merging folders.
+   */
+  copy_sync(_source: string, _dest: string): void {
+    this.options.signal?.throwIfAborted()
+    if (_source === _dest)
+      throw new Error(`Cannot overwrite '${_source}' with itself`)
+    const stats = io().lstat_sync(_source)
+    const existing = lstatOrNullSync(_dest)
+    if (stats.isSymbolicLink()) {
+      if (!this.preserve.symlinks)
+        return this.copy_sync(io().realpath_sync(_source), _dest)
+      if (existing)
+        io().rm_sync(_dest, { recursive: true })
+      io().symlink_sync(io().readlink_sync(_source), _dest)
+      this.own_sync(_dest, stats)
+      if (this.preserve.times)
+        io().lutimes_sync(_dest, stats.atime, stats.mtime)
+      return this.advance_sync(0, 1)
+    }
+    if (stats.isDirectory()) {
+      if (existing && !existing.isDirectory())
+        io().rm_sync(_dest)
+      io().mkdir_sync(_dest, { recursive: true })
+      this.advance_sync(0, 1)
+      for (const name of io().readdir_sync(_source))
+        this.copy_sync(ph.join(_source, name), ph.join(_dest, name))
+    } else if (stats.isFile()) {
+      if (existing)
+        io().rm_sync(_dest, { recursive: true })
+      io().copy_file_sync(_source, _dest)
+      this.advance_sync(stats.size, 1)
+    } else if (stats.isFIFO()) {
+      if (existing)
+        io().rm_sync(_dest, { recursive: true })
+      io().mkfifo_sync(_dest)
+      this.advance_sync(0, 1)
+    } else
+      throw new Error(`Cannot copy type ${roadType(stats.mode).name} at '${_source}'`)
+    this.own_sync(_dest, stats)
+    if (this.preserve.mode)
+      io().chmod_sync(_dest, stats.mode & 0o7777)
+    if (this.preserve.times)
+      io().utimes_sync(_dest, stats.atime, stats.mtime)
+  }
+  /**
+   * Asynchronously copies `_source` to `_dest` recursively, replacing conflicting entries and merging folders.
+   * The entries of a folder are copied concurrently, each one taking a slot of the transfer's {@link Limiter}.
+   */
+  async copy(_source: string, _dest: string): Promise<void> {
+    this.options.signal?.throwIfAborted()
+    if (_source === _dest)
+      throw new Error(`Cannot overwrite '${_source}' with itself`)
+    const stats = await this.limiter.run(() => io().lstat(_source))
+    if (stats.isSymbolicLink() && !this.preserve.symlinks)
+      return this.copy(await this.limiter.run(() => io().realpath(_source)), _dest)
+    if (!stats.isDirectory())
+      return this.limiter.run(() => this.copy_entry(_source, _dest, stats))
+    const names = await this.limiter.run(async () => {
+      const existing = await lstatOrNull(_dest)
+      if (existing && !existing.isDirectory())
+        await io().rm(_dest)
+      await io().mkdir(_dest, { recursive: true })
+      return io().readdir(_source)
+    })
+    await this.advance(0, 1)
+    await settleAll(names.map(name => this.copy(ph.join(_source, name), ph.join(_dest, name))))
+    await this.limiter.run(() => this.copy_metadata(_dest, stats))
+  }
+  /**
+   * Asynchronously copies a single entry other than a folder, see {@link copy}.
+   * File data is streamed chunk by chunk when progress is reported, otherwise {@link RoadBackend.copy_file} is used.
+   */
+  async copy_entry(_source: string, _dest: string, _stats: RoadStats): Promise<void> {
+    const existing = await lstatOrNull(_dest)
+    if (_stats.isSymbolicLink()) {
+      if (existing)
+        await io().rm(_dest, { recursive: true })
+      await io().symlink(await io().readlink(_source), _dest)
+      await this.own(_dest, _stats)
+      if (this.preserve.times)
+        await io().lutimes(_dest, _stats.atime, _stats.mtime)
+      return this.advance(0, 1)
+    }
+    if (_stats.isFile()) {
+      if (existing)
+        await io().rm(_dest, { recursive: true })
+      if (this.options.onProgress) {
+        const handle = await io().open(_dest, 'wx')
+        try {
+          const readStream = io().create_read_stream(_source, { signal: this.options.signal })
+          for await (const chunk of readStream as AsyncIterable<Buffer>) {
+            await writeAll(handle, chunk)
+            await this.advance(chunk.length, 0)
+          }
+        } finally {
+          await handle.close()
+        }
+        await this.advance(0, 1)
+      } else {
+        await io().copy_file(_source, _dest)
+        await this.advance(_stats.size, 1)
+      }
+    } else if (_stats.isFIFO()) {
+      if (existing)
+        await io().rm(_dest, { recursive: true })
+      await io().mkfifo(_dest)
+      await this.advance(0, 1)
+    } else
+      throw new Error(`Cannot copy type ${roadType(_stats.mode).name} at '${_source}'`)
+    await this.copy_metadata(_dest, _stats)
+  }
+  /**
+   * Asynchronously applies the preserved metadata of a source to its copy, last so that copying content doesn't change it again.
+   */
+  async copy_metadata(_dest: string, _stats: RoadStats): Promise<void> {
+    await this.own(_dest, _stats)
+    if (this.preserve.mode)
+      await io().chmod(_dest, _stats.mode & 0o7777)
+    if (this.preserve.times)
+      await io().utimes(_dest, _stats.atime, _stats.mtime)
+  }
+
+  // Moving
+  /**
+   * Synchronously moves `_source` to `_dest` by renaming it, falling back to copy and delete
+   * across devices or when an existing folder has to be merged.
+   */
+  move_sync(_source: string, _dest: string): void {
+    this.options.signal?.throwIfAborted()
+    if (_source === _dest)
+      return
+    try {
+      io().rename_sync(_source, _dest)
+      this.progress.entriesTotal = 1
+      this.advance_sync(0, 1)
+    } catch (e) {
+      if (!MOVE_FALLBACK_CODES.has((e as NodeJS.ErrnoException).code ?? ''))
+        throw e
+      this.measure_sync(_source)
+      this.copy_sync(_source, _dest)
+      io().rm_sync(_source, { recursive: true })
+    }
+  }
+  /**
+   * Asynchronous twin of {@link move_sync}.
+   */
+  async move(_source: string, _dest: string): Promise<void> {
+    this.options.signal?.throwIfAborted()
+    if (_source === _dest)
+      return
+    try {
+      await io().rename(_source, _dest)
+      this.progress.entriesTotal = 1
+      await this.advance(0, 1)
+    } catch (e) {
+      if (!MOVE_FALLBACK_CODES.has((e as NodeJS.ErrnoException).code ?? ''))
+        throw e
+      await this.measure(_source)
+      await this.copy(_source, _dest)
+      await removeTree(_source, this.limiter)
+    }
+  }
+}
+/**
+ * Preservation defaults for moves, which fall back to copies that should be indistinguishable from a rename.
+ */
+const MOVE_PRESERVE: Required<TransferPreserve> = { mode: true, times: true, symlinks: true, ownership: true }
+
+
+
+// Trash
+/**
+ * An entry kept in a {@link Trash}, as returned by {@link Road.trash} and {@link Trash.list}.
+ *
+ * @property name - The name of the entry inside the trash, unique among its entries.
+ * @property isAt - Where the entry is kept inside the trash.
+ * @property original - The absolute path the entry was trashed from.
+ * @property deleted - When the entry was trashed, to the second (the trashinfo format records local time without a zone).
+ */
+export interface TrashEntry {
+  name: string
+  isAt: string
+  original: string
+  deleted: Date
+}
+const TRASHINFO_SUFFIX = '.trashinfo'
+/**
+ * The home trash of the current user following the XDG trash specification, `$XDG_DATA_HOME/Trash`
+ * or `~/.local/share/Trash` if the variable isn't set to an absolute path.
+ */
+function defaultTrashPath(): string {
+  const dataHome = process.env['XDG_DATA_HOME']
+  return ph.join(dataHome && ph.isAbsolute(dataHome) ? dataHome : ph.join(os.homedir(), '.local', 'share'), 'Trash')
+}
+/**
+ * Renders the `.trashinfo` record of an entry: its percent-encoded original path and local deletion time.
+ */
+function formatTrashInfo(_original: string, _deleted: Date): string {
+  const pad = (_n: number) => String(_n).padStart(2, '0')
+  const date = `${_deleted.getFullYear()}-${pad(_deleted.getMonth() + 1)}-${pad(_deleted.getDate())}`
+  const time = `${pad(_deleted.getHours())}:${pad(_deleted.getMinutes())}:${pad(_deleted.getSeconds())}`
+  const path = _original.split(ph.sep).map(encodeURIComponent).join('/')
+  return `[Trash Info]\nPath=${path}\nDeletionDate=${date}T${time}\n`
+}
+/**
+ * Parses a `.trashinfo` record, relative paths are resolved against `_base`.
+ *
+ * @returns The original path and deletion time, or `null` if the record is malformed.
+ */
+function parseTrashInfo(_text: string, _base: string): { original: string, deleted: Date } | null {
+  const lines = _text.split(/\r?\n/).filter(_line => _line.trim() !== '' && !_line.startsWith('#'))
+  if (lines[0]?.trim() !== '[Trash Info]')
+    return null
+  const values = new Map<string, string>()
+  for (const line of lines.slice(1)) {
+    if (line.startsWith('['))
+      break
+    const eq = line.indexOf('=')
+    if (eq !== -1 && !values.has(line.slice(0, eq).trim()))
+      values.set(line.slice(0, eq).trim(), line.slice(eq + 1).trim())
+  }
+  const date = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/.exec(values.get('DeletionDate') ?? '')
+  const path = values.get('Path')
+  if (!date || !path)
+    return null
+  let original: string
+  try {
+    original = ph.resolve(_base, decodeURIComponent(path))
+  } catch {
+    return null
+  }
+  const [year, month, day, hours, minutes, seconds] = date.slice(1).map(Number) as [number, number, number, number, number, number]
+  return { original, deleted: new Date(year, month - 1, day, hours, minutes, seconds) }
+}
+/**
+ * A trash area that entries are moved into instead of being deleted, laid out like the XDG trash:
+ * entries are kept in `files/` and each has a `info/<name>.trashinfo` record of its original path and deletion time.
+ * Trashing and restoring are moves, so they fall back to copy and delete across devices.
+ *
+ * @example
+ * ```typescript
+ * const trash = await Trash.open()
+ * const entry = await new File('build.log').trash(trash)
+ * await trash.restore(entry, { conflict: 'rename' })
+ * await trash.purge(30 * 24 * 60 * 60 * 1000)
+ * ```
+ */
+export class Trash {
+  constructor(readonly root: Folder) { }
+
+  /**
+   * Asynchronously opens a trash rooted at `_at`, creating its `files/` and `info/` folders (private to the user) if needed.
+   *
+   * @param _at - The root of the trash (default the XDG home trash, see {@link defaultTrashPath}).
+   * @returns The opened trash.
+   */
+  static async open(_at: string = defaultTrashPath()): Promise<Trash> {
+    await io().mkdir(ph.join(_at, 'files'), { recursive: true, mode: 0o700 })
+    await io().mkdir(ph.join(_at, 'info'), { recursive: true, mode: 0o700 })
+    return new Trash(new Folder(_at))
+  }
+  /**
+   * Synchronous twin of {@link open}.
+   */
+  static open_sync(_at: string = defaultTrashPath()): Trash {
+    io().mkdir_sync(ph.join(_at, 'files'), { recursive: true, mode: 0o700 })
+    io().mkdir_sync(ph.join(_at, 'info'), { recursive: true, mode: 0o700 })
+    return new Trash(new Folder(_at))
+  }
+
+  // Layout
+  /**
+   * Where the trashed entries themselves are kept.
+   */
+  get files(): string { return this.root.join('files') }
+  /**
+   * Where the `.trashinfo` records of the entries are kept.
+   */
+  get info(): string { return this.root.join('info') }
+  protected info_of(_name: string): string {
+    return ph.join(this.info, _name + TRASHINFO_SUFFIX)
+  }
+  /**
+   * @throws {Error} If `_path` is the trash, lies inside it or contains it.
+   */
+  protected assert_outside(_path: string): void {
+    if (_path === this.root.isAt || _path.startsWith(this.root.isAt + ph.sep) || this.root.isAt.startsWith(_path + ph.sep))
+      throw new Error(`Refusing to trash '${_path}', which is or overlaps the trash at '${this.root.isAt}'`)
+  }
+
+  // Trashing
+  /**
+   * Synchronously moves `_road` into the trash, see {@link Road.trash_sync}.
+   * The name inside the trash is claimed by exclusively creating its `.trashinfo` record first,
+   * so that concurrent trashers never pick the same name. The record is removed again if the move fails.
+   *
+   * @param _road - The entry to trash.
+   * @returns The new entry of the trash.
+   * @throws {Error} If the entry or the trash is not mutable, the entry overlaps the trash or the move fails.
+   */
+  add_sync(_road: Road): TrashEntry {
+    _road.assert_mutable()
+    this.root.assert_mutable()
+    this.assert_outside(_road.isAt)
+    const deleted = new Date(Math.floor(Date.now() / 1000) * 1000)
+    const record = formatTrashInfo(_road.isAt, deleted)
+    for (let n = 0; ; n++) {
+      const name = n === 0 ? _road.name() : suffixedName(_road.name(), n)
+      if (lstatOrNullSync(ph.join(this.files, name)))
+        continue
+      try {
+        io().write_file_sync(this.info_of(name), record, 'utf-8', 'wx')
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'EEXIST')
+          continue
+        throw e
+      }
+      try {
+        new Transfer({}, MOVE_PRESERVE).move_sync(_road.isAt, ph.join(this.files, name))
+      } catch (e) {
+        io().rm_sync(this.info_of(name), { force: true })
+        throw e
+      }
+      return { name, isAt: ph.join(this.files, name), original: _road.isAt, deleted }
+    }
+  }
+  /**
+   * Asynchronously moves `_road` into the trash, see {@link add_sync}.
+   *
+   * @param _road - The entry to trash.
+   * @returns The new entry of the trash.
+   * @throws {Error} If the entry or the trash is not mutable, the entry overlaps the trash or the move fails.
+   */
+  async add(_road: Road): Promise<TrashEntry> {
+    _road.assert_mutable()
+    this.root.assert_mutable()
+    this.assert_outside(_road.isAt)
+    const deleted = new Date(Math.floor(Date.now() / 1000) * 1000)
+    const record = formatTrashInfo(_road.isAt, deleted)
+    for (let n = 0; ; n++) {
+      const name = n === 0 ? _road.name() : suffixedName(_road.name(), n)
+      if (await lstatOrNull(ph.join(this.files, name)))
+        continue
+      try {
+        await io().write_file(this.info_of(name), record, 'utf-8', 'wx')
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'EEXIST')
+          continue
+        throw e
+      }
+      try {
+        await new Transfer({}, MOVE_PRESERVE).move(_road.isAt, ph.join(this.files, name))
+      } catch (e) {
+        await io().rm(this.info_of(name), { force: true })
+        throw e
+      }
+      return { name, isAt: ph.join(this.files, name), original: _road.isAt, deleted }
+    }
+  }
+
+  // Listing
+  /**
+   * Synchronously lists the entries of the trash, oldest first.
+   * Malformed records and records whose entry has disappeared are left out.
+   *
+   * @returns The entries of the trash.
+   */
+  list_sync(): TrashEntry[] {
+    const entries: TrashEntry[] = []
+    for (const file of io().readdir_sync(this.info)) {
+      if (!file.endsWith(TRASHINFO_SUFFIX))
+        continue
+      const name = file.slice(0, -TRASHINFO_SUFFIX.length)
+      let record: ReturnType<typeof parseTrashInfo>
+      try {
+        record = parseTrashInfo(io().read_file_sync(this.info_of(name)).toString('utf-8'), ph.dirname(this.root.isAt))
+      } catch {
+        continue // Removed meanwhile
+      }
+      if (record && lstatOrNullSync(ph.join(this.files, name)))
+        entries.push({ name, isAt: ph.join(this.files, name), ...record })
+    }
+    return entries.sort((_a, _b) => _a.deleted.getTime() - _b.deleted.getTime() || _a.name.localeCompare(_b.name))
+  }
+  /**
+   * Asynchronously lists the entries of the trash, oldest first, see {@link list_sync}.
+   *
+   * @returns The entries of the trash.
+   */
+  async list(): Promise<TrashEntry[]> {
+    const entries: TrashEntry[] = []
+    for await (const file of io().it_dir(this.info)) {
+      if (!file.endsWith(TRASHINFO_SUFFIX))
+        continue
+      const name = file.slice(0, -TRASHINFO_SUFFIX.length)
+      let record: ReturnType<typeof parseTrashInfo>
+      try {
+        record = parseTrashInfo((await io().read_file(this.info_of(name))).toString('utf-8'), ph.dirname(this.root.isAt))
+      } catch {
+        continue // Removed meanwhile
+      }
+      if (record && await lstatOrNull(ph.join(this.files, name)))
+        entries.push({ name, isAt: ph.join(this.files, name), ...record })
+    }
+    return entries.sort((_a, _b) => _a.deleted.getTime() - _b.deleted.getTime() || _a.name.localeCompare(_b.name))
+  }
+
+  // Restoring
+  /**
+   * Synchronously moves an entry back to its original path, recreating missing parent folders.
+   *
+   * @param _entry - The entry to restore, as listed by {@link list_sync}.
+   * @param _options - Abort signal, progress callback and what to do if the original path is taken again
+   *                   (default `fail`, `rename` restores next to it), see {@link TransferOptions}.
+   * @returns The restored entry as its typed {@link Road} subclass, or `null` if it was skipped and stays in the trash.
+   * @throws {Error} If the trash is not mutable, the original path is taken under the `fail` policy or the move fails.
+   */
+  restore_sync(_entry: TrashEntry, _options: TransferOptions = {}): Road | null {
+    this.root.assert_mutable()
+    const transfer = new Transfer({ conflict: 'fail', ..._options }, MOVE_PRESERVE)
+    const into = Folder.create_sync(ph.dirname(_entry.original))
+    const dest = transfer.destination_sync(_entry.isAt, into, ph.basename(_entry.original))
+    if (dest === null)
+      return null
+    transfer.move_sync(_entry.isAt, dest)
+    io().rm_sync(this.info_of(_entry.name), { force: true })
+    return Road.factory_sync(dest)
+  }
+  /**
+   * Asynchronously moves an entry back to its original path, see {@link restore_sync}.
+   *
+   * @param _entry - The entry to restore, as listed by {@link list}.
+   * @param _options - Abort signal, progress callback and conflict policy (default `fail`), see {@link TransferOptions}.
+   * @returns The restored entry as its typed {@link Road} subclass, or `null` if it was skipped and stays in the trash.
+   * @throws {Error} If the trash is not mutable, the original path is taken under the `fail` policy or the move fails.
+   */
+  async restore(_entry: TrashEntry, _options: TransferOptions = {}): Promise<Road | null> {
+    this.root.assert_mutable()
+    const transfer = new Transfer({ conflict: 'fail', ..._options }, MOVE_PRESERVE)
+    const into = await Folder.create(ph.dirname(_entry.original))
+    const dest = await transfer.destination(_entry.isAt, into, ph.basename(_entry.original))
+    if (dest === null)
+      return null
+    await transfer.move(_entry.isAt, dest)
+    await io().rm(this.info_of(_entry.name), { force: true })
+    return Road.factory(dest)
+  }
+
+  // Purging
+  /**
+   * Synchronously deletes entries of the trash for good, the entry before its record.
+   *
+   * @param _olderThan - Only purge entries trashed before this date, or more than this many milliseconds ago (default all).
+   * @returns The purged entries.
+   * @throws {Error} If the trash is not mutable or an entry can't be deleted.
+   */
+  purge_sync(_olderThan?: Date | number): TrashEntry[] {
+    this.root.assert_mutable()
+    const cutoff = _olderThan === undefined ? Infinity : _olderThan instanceof Date ? _olderThan.getTime() : Date.now() - _olderThan
+    const purged = this.list_sync().filter(_entry => _entry.deleted.getTime() < cutoff)
+    for (const entry of purged) {
+      io().rm_sync(entry.isAt, { recursive: true, force: true })
+      io().rm_sync(this.info_of(entry.name), { force: true })
+    }
+    return purged
+  }
+  /**
+   * Asynchronously deletes entries of the trash for good, see {@link purge_sync}.
+   *
+   * @param _olderThan - Only purge entries trashed before this date, or more than this many milliseconds ago (default all).
+   * @returns The purged entries.
+   * @throws {Error} If the trash is not mutable or an entry can't be deleted.
+   */
+  async purge(_olderThan?: Date | number): Promise<TrashEntry[]> {
+    this.root.assert_mutable()
+    const cutoff = _olderThan === undefined ? Infinity : _olderThan instanceof Date ? _olderThan.getTime() : Date.now() - _olderThan
+    const purged = (await this.list()).filter(_entry => _entry.deleted.getTime() < cutoff)
+    for (const entry of purged) {
+      await io().rm(entry.isAt, { recursive: true, force: true })
+      await io().rm(this.info_of(entry.name), { force: true })
+    }
+    return purged
+  }
+}
+
+
+
+// Transactions
+/**
+ * How a {@link FsTransaction} undoes one of its mutations: `path` is removed and, if set, `from` is moved back into its place.
+ */
+interface TxStep {
+  path: string
+  from: string | null
+}
+/**
+ * The topmost of `_path` and its ancestors that doesn't exist yet, i.e. what creating `_path` recursively adds.
+ */
+async function topmostMissing(_path: string): Promise<string | null> {
+  let missing: string | null = null
+  for (let current = ph.resolve(_path); !(await lstatOrNull(current)); current = ph.dirname(current)) {
+    missing = current
+    if (current === ph.dirname(current))
+      break
+  }
+  return missing
+}
+/**
+ * Synchronous twin of {@link topmostMissing}.
+ */
+function topmostMissingSync(_path: string): string | null {
+  let missing: string | null = null
+  for (let current = ph.resolve(_path); !lstatOrNullSync(current); current = ph.dirname(current)) {
+    missing = current
+    if (current === ph.dirname(current))
+      break
+  }
+  return missing
+}
+/**
+ * Groups mutations of {@link Road}s so that they either all take effect or none does.
+ *
+ * Mutations are carried out right away, but whatever they replace or remove is kept aside first in a staging folder:
+ * deleted entries are moved there and overwritten entries are copied there.
+ * {@link commit} drops the staging folder, {@link rollback} undoes the mutations in reverse order.
+ * Disposing a transaction that wasn't committed rolls it back.
+ *
+ * Rolling back restores the file system, not the instances: a {@link Road} that was moved or renamed
+ * within the transaction keeps pointing to its new path.
+ *
+ * @example
+ * ```typescript
+ * await using tx = new FsTransaction()
+ * await tx.rename(config, 'config.old.json')
+ * await tx.move(draft, releases)
+ * await tx.write(await tx.create_file('release/notes.md'), notes)
+ * await tx.commit()
+ * ```
+ */
+export class FsTransaction implements AsyncDisposable, Disposable {
+  state: 'open' | 'committed' | 'rolled back' = 'open'
+  /**
+   * Where backups are kept until the transaction ends, created on first use.
+   */
+  readonly staging: string
+  protected readonly steps: TxStep[] = []
+  protected backups: number = 0
+
+  /**
+   * @param _stagingIn - The folder to create the staging folder in (default the OS temp folder).
+   *                     Deleting is a cheap rename only if it's on the same device as the deleted entries.
+   */
+  constructor(_stagingIn?: Folder) {
+    this.staging = ph.join(_stagingIn?.isAt ?? os.tmpdir(), `fstransaction_${Date.now()}_${cr.randomUUID()}`)
+  }
+
+  /**
+   * @throws {Error} If the transaction was already committed or rolled back.
+   */
+  protected assert_open(): void {
+    if (this.state !== 'open')
+      throw new Error(`Transaction was already ${this.state}`)
+  }
+  protected backup_of(_path: string): string {
+    return ph.join(this.staging, `${this.backups++}_${ph.basename(_path)}`)
+  }
+
+  // Bookkeeping
+  /**
+   * Synchronously records how to bring `_path` back to its current state, copying it aside if it exists.
+   */
+  protected guard_sync(_path: string): void {
+    if (!lstatOrNullSync(_path)) {
+      this.steps.push({ path: _path, from: null })
+      return
+    }
+    const backup = this.backup_of(_path)
+    io().mkdir_sync(this.staging, { recursive: true, mode: 0o700 })
+    try {
+      new Transfer({}, MOVE_PRESERVE).copy_sync(_path, backup)
+    } catch (e) {
+      io().rm_sync(backup, { recursive: true, force: true })
+      throw e
+    }
+    this.steps.push({ path: _path, from: backup })
+  }
+  /**
+   * Asynchronous twin of {@link guard_sync}.
+   */
+  protected async guard(_path: string): Promise<void> {
+    if (!await lstatOrNull(_path)) {
+      this.steps.push({ path: _path, from: null })
+      return
+    }
+    const backup = this.backup_of(_path)
+    await io().mkdir(this.staging, { recursive: true, mode: 0o700 })
+    try {
+      await new Transfer({}, MOVE_PRESERVE).copy(_path, backup)
+    } catch (e) {
+      await io().rm(backup, { recursive: true, force: true })
+      throw e
+    }
+    this.steps.push({ path: _path, from: backup })
+  }
+  /**
+   * Synchronously records how to undo moving `_source` to `_dest`. Into a free destination that's moving it back,
+   * an existing destination may get merged or replaced, so both are copied aside instead.
+   */
+  protected displace_sync(_source: string, _dest: string): void {
+    if (_source === _dest)
+      return
+    if (lstatOrNullSync(_dest)) {
+      this.guard_sync(_dest)
+      this.guard_sync(_source)
+    } else
+      this.steps.push({ path: _source, from: _dest })
+  }
+  /**
+   * Asynchronous twin of {@link displace_sync}.
+   */
+  protected async displace(_source: string, _dest: string): Promise<void> {
+    if (_source === _dest)
+      return
+    if (await lstatOrNull(_dest)) {
+      await this.guard(_dest)
+      await this.guard(_source)
+    } else
+      this.steps.push({ path: _source, from: _dest })
+  }
+
+  // Mutations
+  /**
+   * Synchronously creates a file within the transaction, see {@link File.create_sync}.
+   */
+  create_file_sync(_at: string): File {
+    this.assert_open()
+    const missing = topmostMissingSync(_at)
+    if (missing)
+      this.steps.push({ path: missing, from: null })
+    return File.create_sync(_at)
+  }
+  /**
+   * Asynchronously creates a file within the transaction, see {@link File.create}.
+   */
+  async create_file(_at: string): Promise<File> {
+    this.assert_open()
+    const missing = await topmostMissing(_at)
+    if (missing)
+      this.steps.push({ path: missing, from: null })
+    return File.create(_at)
+  }
+  /**
+   * Synchronously creates a folder and its missing parents within the transaction, see {@link Folder.create_sync}.
+   */
+  create_folder_sync(_at: string): Folder {
+    this.assert_open()
+    const missing = topmostMissingSync(_at)
+    if (missing)
+      this.steps.push({ path: missing, from: null })
+    return Folder.create_sync(_at)
+  }
+  /**
+   * Asynchronously creates a folder and its missing parents within the transaction, see {@link Folder.create}.
+   */
+  async create_folder(_at: string): Promise<Folder> {
+    this.assert_open()
+    const missing = await topmostMissing(_at)
+    if (missing)
+      this.steps.push({ path: missing, from: null })
+    return Folder.create(_at)
+  }
+  /**
+   * Synchronously replaces the content of a file within the transaction, see {@link File.write_sync}.
+   */
+  write_sync(_file: File, _data: Buffer | string, _encoding?: BufferEncoding): void {
+    this.assert_open()
+    _file.assert_mutable()
+    this.guard_sync(_file.isAt)
+    _file.write_sync(_data, _encoding)
+  }
+  /**
+   * Asynchronously replaces the content of a file within the transaction, see {@link File.write}.
+   */
+  async write(_file: File, _data: Buffer | string, _encoding?: BufferEncoding): Promise<void> {
+    this.assert_open()
+    _file.assert_mutable()
+    await this.guard(_file.isAt)
+    await _file.write(_data, _encoding)
+  }
+  /**
+   * Synchronously moves an entry into a folder within the transaction, see {@link Road.move_sync}.
+   */
+  move_sync(_road: Road, _into: Folder, _options: TransferOptions = {}): void {
+    this.assert_open()
+    _road.assert_mutable()
+    const dest = new Transfer(_options).destination_sync(_road.isAt, _into)
+    if (dest !== null)
+      this.displace_sync(_road.isAt, dest)
+    _road.move_sync(_into, _options)
+  }
+  /**
+   * Asynchronously moves an entry into a folder within the transaction, see {@link Road.move}.
+   */
+  async move(_road: Road, _into: Folder, _options: TransferOptions = {}): Promise<void> {
+    this.assert_open()
+    _road.assert_mutable()
+    const dest = await new Transfer(_options).destination(_road.isAt, _into)
+    if (dest !== null)
+      await this.displace(_road.isAt, dest)
+    await _road.move(_into, _options)
+  }
+  /**
+   * Synchronously renames an entry within the transaction, see {@link Road.rename_sync}.
+   */
+  rename_sync(_road: Road, _to: string): void {
+    this.assert_open()
+    _road.assert_mutable()
+    this.displace_sync(_road.isAt, _road.parent().join(_to))
+    _road.rename_sync(_to)
+  }
+  /**
+   * Asynchronously renames an entry within the transaction, see {@link Road.rename}.
+   */
+  async rename(_road: Road, _to: string): Promise<void> {
+    this.assert_open()
+    _road.assert_mutable()
+    await this.displace(_road.isAt, _road.parent().join(_to))
+    await _road.rename(_to)
+  }
+  /**
+   * Synchronously copies an entry into a folder within the transaction, see {@link Road.copy_sync}.
+   */
+  copy_sync<T extends Road>(_road: T, _into: Folder, _options?: UnskippedTransferOptions): T
+  copy_sync<T extends Road>(_road: T, _into: Folder, _options?: TransferOptions): T | Road
+  copy_sync<T extends Road>(_road: T, _into: Folder, _options: TransferOptions = {}): T | Road {
+    this.assert_open()
+    const dest = new Transfer(_options).destination_sync(_road.isAt, _into)
+    if (dest !== null)
+      this.guard_sync(dest)
+    return _road.copy_sync(_into, _options)
+  }
+  /**
+   * Asynchronously copies an entry into a folder within the transaction, see {@link Road.copy}.
+   */
+  async copy<T extends Road>(_road: T, _into: Folder, _options?: UnskippedTransferOptions): Promise<T>
+  async copy<T extends Road>(_road: T, _into: Folder, _options?: TransferOptions): Promise<T | Road>
+  async copy<T extends Road>(_road: T, _into: Folder, _options: TransferOptions = {}): Promise<T | Road> {
+    this.assert_open()
+    const dest = await new Transfer(_options).destination(_road.isAt, _into)
+    if (dest !== null)
+      await this.guard(dest)
+    return _road.copy(_into, _options)
+  }
+  /**
+   * Synchronously deletes an entry within the transaction by moving it into the staging folder, which is removed on commit.
+   */
+  delete_sync(_road: Road): void {
+    this.assert_open()
+    _road.assert_mutable()
+    const backup = this.backup_of(_road.isAt)
+    io().mkdir_sync(this.staging, { recursive: true, mode: 0o700 })
+    new Transfer({}, MOVE_PRESERVE).move_sync(_road.isAt, backup)
+    this.steps.push({ path: _road.isAt, from: backup })
+  }
+  /**
+   * Asynchronously deletes an entry within the transaction, see {@link delete_sync}.
+   */
+  async delete(_road: Road): Promise<void> {
+    this.assert_open()
+    _road.assert_mutable()
+    const backup = this.backup_of(_road.isAt)
+    await io().mkdir(this.staging, { recursive: true, mode: 0o700 })
+    await new Transfer({}, MOVE_PRESERVE).move(_road.isAt, backup)
+    this.steps.push({ path: _road.isAt, from: backup })
+  }
+
+  // Completion
+  /**
+   * Synchronously makes all mutations final by dropping the staging folder.
+   *
+   * @throws {Error} If the transaction was already committed or rolled back, or the staging folder can't be removed.
+   */
+  commit_sync(): void {
+    this.assert_open()
+    this.state = 'committed'
+    io().rm_sync(this.staging, { recursive: true, force: true })
+  }
+  /**
+   * Asynchronously makes all mutations final by dropping the staging folder.
+   *
+   * @throws {Error} If the transaction was already committed or rolled back, or the staging folder can't be removed.
+   */
+  async commit(): Promise<void> {
+    this.assert_open()
+    this.state = 'committed'
+    await io().rm(this.staging, { recursive: true, force: true })
+  }
+  /**
+   * Synchronously undoes all mutations in reverse order. Every step is attempted even if an earlier one fails,
+   * in which case the staging folder is kept for manual recovery.
+   *
+   * @throws {Error} If the transaction was already committed or rolled back, or the first error of a failed step.
+   */
+  rollback_sync(): void {
+    this.assert_open()
+    this.state = 'rolled back'
+    let failure: unknown = null
+    for (const step of this.steps.toReversed()) {
+      try {
+        io().rm_sync(step.path, { recursive: true, force: true })
+        if (step.from)
+          new Transfer({}, MOVE_PRESERVE).move_sync(step.from, step.path)
+      } catch (e) {
+        failure ??= e
+      }
+    }
+    if (failure)
+      throw failure
+    io().rm_sync(this.staging, { recursive: true, force: true })
+  }
+  /**
+   * Asynchronously undoes all mutations in reverse order, see {@link rollback_sync}.
+   *
+   * @throws {Error} If the transaction was already committed or rolled back, or the first error of a failed step.
+   */
+  async rollback(): Promise<void> {
+    this.assert_open()
+    this.state = 'rolled back'
+    let failure: unknown = null
+    for (const step of this.steps.toReversed()) {
+      try {
+        await io().rm(step.path, { recursive: true, force: true })
+        if (step.from)
+          await new Transfer({}, MOVE_PRESERVE).move(step.from, step.path)
+      } catch (e) {
+        failure ??= e
+      }
+    }
+    if (failure)
+      throw failure
+    await io().rm(this.staging, { recursive: true, force: true })
+  }
+  [Symbol.dispose](): void {
+    if (this.state === 'open')
+      this.rollback_sync()
+  }
+  async [Symbol.asyncDispose](): Promise<void> {
+    if (this.state === 'open')
+      await this.rollback()
+  }
+}
+
+
+
+// Archives
+/**
+ * Options for {@link Folder.pack} and {@link File.unpack}.
+ *
+ * @property signal - Aborts the operation between entries and chunks, a partially written archive is removed again.
+ * @property onProgress - Called after every entry and chunk. Packing measures the totals beforehand, unpacking counts
+ * the bytes read from the (compressed) archive against its size and leaves `entriesTotal` at 0 as it's only known at the end.
+ * @property gzip - Whether the archive is gzip compressed. Packing defaults to `false`, unpacking detects it by default.
+ */
+export interface ArchiveOptions {
+  signal?: AbortSignal
+  onProgress?: (_progress: Readonly<TransferProgress>) => unknown
+  gzip?: boolean
+}
+/**
+ * The size of tar headers and the unit data is padded to.
+ */
+const TAR_BLOCK = 512
+/**
+ * Type flags of the tar entries that are packed and unpacked.
+ */
+const TAR_TYPES = { file: '0', hardlink: '1', symlink: '2', folder: '5', contiguous: '7', pax: 'x', paxGlobal: 'g', gnuLongName: 'L', gnuLongLink: 'K' } as const
+/**
+ * A decoded tar header, with ustar prefixes already joined to the name.
+ */
+interface TarHeader {
+  name: string
+  mode: number
+  uid: number
+  gid: number
+  size: number
+  mtime: number // Seconds since the epoch
+  type: string
+  linkname: string
+}
+/**
+ * Returns the padding needed after `_size` bytes of entry data.
+ */
+function tarPadding(_size: number): number {
+  return (TAR_BLOCK - _size % TAR_BLOCK) % TAR_BLOCK
+}
+/**
+ * Encodes pax extended header records, each prefixed with its own length in bytes.
+ */
+function paxRecords(_records: Record<string, string>): Buffer {
+  return Buffer.concat(Object.entries(_records).map(([key, value]) => {
+    const body = ` ${key}=${value}\n`
+    let length = Buffer.byteLength(body)
+    while (String(length).length + Buffer.byteLength(body) !== length)
+      length = String(length).length + Buffer.byteLength(body)
+    return Buffer.from(length + body)
+  }))
+}
+/**
+ * Decodes pax extended header records, see {@link paxRecords}.
+ */
+function parsePaxRecords(_data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {}
+  for (let offset = 0; offset < _data.length;) {
+    const space = _data.indexOf(0x20, offset)
+    const length = parseInt(_data.toString('utf-8', offset, space), 10)
+    if (space === -1 || !(length > 0))
+      break
+    const record = _data.toString('utf-8', space + 1, offset + length - 1)
+    records[record.slice(0, record.indexOf('='))] = record.slice(record.indexOf('=') + 1)
+    offset += length
+  }
+  return records
+}
+/**
+ * Encodes a single ustar header block, values that don't fit are expected in a preceding pax header.
+ */
+function encodeTarHeader(_header: TarHeader): Buffer {
+  const block = Buffer.alloc(TAR_BLOCK)
+  const octal = (_value: number, _offset: number, _length: number) => {
+    const digits = _value.toString(8)
+    if (digits.length < _length)
+      block.write(digits.padStart(_length - 1, '0') + '\0', _offset, 'ascii')
+  }
+  let name = _header.name
+  let prefix = ''
+  if (Buffer.byteLength(name) > 100)
+    for (let slash = name.indexOf('/'); slash !== -1; slash = name.indexOf('/', slash + 1))
+      if (Buffer.byteLength(name.slice(0, slash)) <= 155 && Buffer.byteLength(name.slice(slash + 1)) <= 100) {
+        prefix = name.slice(0, slash)
+        name = name.slice(slash + 1)
+        break
+      }
+  block.write(name, 0, 100, 'utf-8')
+  octal(_header.mode, 100, 8)
+  octal(_header.uid, 108, 8)
+  octal(_header.gid, 116, 8)
+  octal(_header.size, 124, 12)
+  octal(_header.mtime, 136, 12)
+  block.write(_header.type, 156, 1, 'ascii')
+  block.write(_header.linkname, 157, 100, 'utf-8')
+  block.write('ustar\x0000', 257, 8, 'ascii')
+  block.write(prefix, 345, 155, 'utf-8')
+  block.fill(0x20, 148, 156)
+  block.write(block.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii')
+  return block
+}
+/**
+ * Decodes a tar header block.
+ *
+ * @returns The header, or `null` for the zero blocks marking the end of the archive.
+ * @throws {Error} If the checksum doesn't match.
+ */
+function decodeTarHeader(_block: Buffer, _offset: number): TarHeader | null {
+  if (_block.every(byte => byte === 0))
+    return null
+  const text = (_at: number, _length: number) => {
+    const field = _block.subarray(_at, _at + _length)
+    return field.toString('utf-8', 0, field.includes(0) ? field.indexOf(0) : _length)
+  }
+  const number = (_at: number, _length: number) => {
+    if (_block[_at]! & 0x80) // Base-256 for values beyond the octal range
+      return Number(_block.subarray(_at + 1, _at + _length).reduce((value, byte) => value * 256n + BigInt(byte), 0n))
+    return parseInt(text(_at, _length).trim() || '0', 8)
+  }
+  const checksum = _block.reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 0x20 : byte), 0)
+  if (checksum !== number(148, 8))
+    throw new Error(`Corrupt tar header at offset ${_offset}: checksum mismatch`)
+  const prefix = text(257, 6) === 'ustar' ? text(345, 155) : ''
+  return {
+    name: prefix ? `${prefix}/${text(0, 100)}` : text(0, 100),
+    mode: number(100, 8),
+    uid: number(108, 8),
+    gid: number(116, 8),
+    size: number(124, 12),
+    mtime: number(136, 12),
+    type: text(156, 1) || TAR_TYPES.file,
+    linkname: text(157, 100)
+  }
+}
+/**
+ * Encodes the header blocks of an entry, preceded by a pax header for values ustar can't hold.
+ */
+function tarEntryHeader(_header: TarHeader): Buffer {
+  const pax: Record<string, string> = {}
+  const nameFits = Buffer.byteLength(_header.name) <= 100 || [..._header.name.matchAll(/\//g)].some(m =>
+    Buffer.byteLength(_header.name.slice(0, m.index)) <= 155 && Buffer.byteLength(_header.name.slice(m.index + 1)) <= 100)
+  if (!nameFits)
+    pax['path'] = _header.name
+  if (Buffer.byteLength(_header.linkname) > 100)
+    pax['linkpath'] = _header.linkname
+  if (_header.size >= 8 ** 11)
+    pax['size'] = String(_header.size)
+  for (const key of ['uid', 'gid'] as const)
+    if (_header[key] >= 8 ** 7)
+      pax[key] = String(_header[key])
+  const header = encodeTarHeader(_header)
+  if (Object.keys(pax).length === 0)
+    return header
+  const records = paxRecords(pax)
+  const paxHeader = encodeTarHeader({ ..._header, name: `PaxHeader/${ph.posix.basename(_header.name).slice(0, 80)}`, size: records.length, type: TAR_TYPES.pax, linkname: '' })
+  return Buffer.concat([paxHeader, records, Buffer.alloc(tarPadding(records.length)), header])
+}
+/**
+ * Yields the blocks of a tar archive of a folder's content, streaming file data chunk by chunk.
+ */
+async function* tarBlocks(_root: Folder, _exclude: string, _options: ArchiveOptions, _progress: TransferProgress): AsyncGenerator<Buffer> {
+  for await (const entry of _root.walk({ symlinks: 'yield', prune: entry => entry.isAt === _exclude })) {
+    _options.signal?.throwIfAborted()
+    const stats = await entry.stats()
+    const name = ph.relative(_root.isAt, entry.isAt).split(ph.sep).join('/')
+    const header: TarHeader = { name, mode: stats.mode & 0o7777, uid: stats.uid, gid: stats.gid, size: 0, mtime: Math.floor(stats.mtimeMs / 1000), type: TAR_TYPES.file, linkname: '' }
+    if (entry instanceof Folder)
+      yield tarEntryHeader({ ...header, name: name + '/', type: TAR_TYPES.folder })
+    else if (entry instanceof SymbolicLink)
+      yield tarEntryHeader({ ...header, type: TAR_TYPES.symlink, linkname: await io().readlink(entry.isAt) })
+    else if (entry instanceof File) {
+      yield tarEntryHeader({ ...header, size: stats.size })
+      let written = 0
+      for await (const chunk of io().create_read_stream(entry.isAt, { signal: _options.signal }) as AsyncIterable<Buffer>) {
+        const kept = chunk.subarray(0, Math.max(0, stats.size - written)) // A file growing meanwhile must not break the archive
+        yield kept
+        written += kept.length
+        _progress.bytesDone += chunk.length
+        await _options.onProgress?.({ ..._progress })
+      }
+      if (written < stats.size)
+        throw new Error(`File '${entry.isAt}' shrank while being packed`)
+      yield Buffer.alloc(tarPadding(stats.size))
+    } else
+      throw new Error(`Cannot pack type ${entry.constructor.name} at '${entry.isAt}'`)
+    _progress.entriesDone++
+    await _options.onProgress?.({ ..._progress })
+  }
+  yield Buffer.alloc(2 * TAR_BLOCK)
+}
+/**
+ * Hands out exact byte counts from a stream of arbitrarily sized chunks.
+ */
+class TarReader {
+  chunks: Buffer[] = []
+  buffered: number = 0
+  offset: number = 0 // Bytes handed out so far
+  ended: boolean = false
+
+  constructor(readonly source: AsyncIterator<Buffer>) {}
+
+  /**
+   * Returns the next `_length` bytes, fewer only at the end of the stream.
+   */
+  async take(_length: number): Promise<Buffer> {
+    while (this.buffered < _length && !this.ended) {
+      const next = await this.source.next()
+      if (next.done)
+        this.ended = true
+      else {
+        this.chunks.push(next.value)
+        this.buffered += next.value.length
+      }
+    }
+    if (this.chunks.length > 1)
+      this.chunks = [Buffer.concat(this.chunks)]
+    const head = this.chunks[0] ?? Buffer.alloc(0)
+    const taken = head.subarray(0, _length)
+    this.chunks = head.length > _length ? [head.subarray(_length)] : []
+    this.buffered -= taken.length
+    this.offset += taken.length
+    return taken
+  }
+  /**
+   * Returns exactly `_length` bytes or throws if the archive ends early.
+   */
+  async exactly(_length: number): Promise<Buffer> {
+    const taken = await this.take(_length)
+    if (taken.length < _length)
+      throw new Error(`Truncated tar archive: expected ${_length} more bytes at offset ${this.offset}`)
+    return taken
+  }
+  /**
+   * Passes the next `_length` bytes to `_sink` in chunks of at most 64KB.
+   */
+  async forward(_length: number, _sink: (_chunk: Buffer) => unknown): Promise<void> {
+    for (let remaining = _length; remaining > 0;) {
+      const chunk = await this.exactly(Math.min(remaining, 64 * 1024))
+      await _sink(chunk)
+      remaining -= chunk.length
+    }
+  }
+}
+/**
+ * Resolves where an archive entry is extracted to.
+ *
+ * @throws {Error} If the entry would end up outside of `_root`, e.g. through `..` or an absolute name.
+ */
+function tarDestination(_root: string, _name: string): string {
+  const dest = ph.resolve(_root, _name)
+  if (dest !== _root && !dest.startsWith(_root + ph.sep))
+    throw new Error(`Refusing to extract '${_name}' outside of '${_root}'`)
+  return dest
+}
+/**
+ * Creates the missing parent folders of an entry, after making sure the existing ones don't lead
+ * outside of `_root` through symbolic links extracted earlier.
+ */
+async function tarParents(_root: string, _dest: string): Promise<void> {
+  let existing = ph.dirname(_dest)
+  while (!await statOrNull(existing))
+    existing = ph.dirname(existing)
+  const real = await io().realpath(existing)
+  if (real !== _root && !real.startsWith(_root + ph.sep))
+    throw new Error(`Refusing to extract '${_dest}' through a link leading outside of '${_root}'`)
+  await io().mkdir(ph.dirname(_dest), { recursive: true })
+}
+/**
+ * Resolves the source of a hard link entry, which must be a file extracted earlier and reached without
+ * any symbolic link, as `_root` itself is already resolved.
+ *
+ * @throws {Error} If the source is missing, isn't a file or is reached through a symbolic link.
+ */
+async function tarLinkSource(_root: string, _name: string): Promise<string> {
+  const source = tarDestination(_root, _name)
+  if (!(await lstatOrNull(source))?.isFile() || await io().realpath(source) !== source)
+    throw new Error(`Refusing to extract a hard link to '${_name}', which isn't a file inside of '${_root}'`)
+  return source
+}
+/**
+ * Extracts a stream of tar blocks into a folder.
+ * Folder modes and times are applied last, as extracting their content changes them.
+ */
+async function untar(_source: AsyncIterable<Buffer>, _root: string, _options: ArchiveOptions, _progress: TransferProgress): Promise<void> {
+  const reader = new TarReader(_source[Symbol.asyncIterator]())
+  const folders: [string, TarHeader][] = []
+  let extended: Record<string, string> = {}
+  for (;;) {
+    _options.signal?.throwIfAborted()
+    const header = decodeTarHeader(await reader.exactly(TAR_BLOCK), reader.offset - TAR_BLOCK)
+    if (!header)
+      break
+    const size = extended['size'] ? Number(extended['size']) : header.size
+    if (header.type === TAR_TYPES.pax || header.type === TAR_TYPES.gnuLongName || header.type === TAR_TYPES.gnuLongLink) {
+      const data = await reader.exactly(size)
+      if (header.type === TAR_TYPES.pax)
+        extended = { ...extended, ...parsePaxRecords(data) }
+      else
+        extended[header.type === TAR_TYPES.gnuLongName ? 'path' : 'linkpath'] = data.toString('utf-8').replace(/\0+$/, '')
+      await reader.exactly(tarPadding(size))
+      continue
+    }
+    const entry: TarHeader = { ...header, size, name: extended['path'] ?? header.name, linkname: extended['linkpath'] ?? header.linkname }
+    extended = {}
+    const dest = tarDestination(_root, entry.name)
+    const mtime = new Date(entry.mtime * 1000)
+    if (dest !== _root)
+      await tarParents(_root, dest)
+    const existing = dest === _root ? null : await lstatOrNull(dest)
+    if (existing && !(existing.isDirectory() && entry.type === TAR_TYPES.folder))
+      await io().rm(dest, { recursive: true }) // Never write through what's already there
+    switch (entry.type) {
+      case TAR_TYPES.folder:
+        if (!existing?.isDirectory() && dest !== _root)
+          await io().mkdir(dest)
+        folders.push([dest, entry])
+        break
+      case TAR_TYPES.symlink:
+        await io().symlink(entry.linkname, dest)
+        await io().lutimes(dest, mtime, mtime)
+        break
+      case TAR_TYPES.hardlink:
+        await io().copy_file(await tarLinkSource(_root, entry.linkname), dest)
+        break
+      case TAR_TYPES.file:
+      case TAR_TYPES.contiguous: {
+        const handle = await io().open(dest, 'wx', 0o600)
+        try {
+          await reader.forward(entry.size, async chunk => {
+            await writeAll(handle, chunk)
+            await _options.onProgress?.({ ..._progress })
+          })
+        } finally {
+          await handle.close()
+        }
+        await io().chmod(dest, entry.mode & 0o7777)
+        await io().utimes(dest, mtime, mtime)
+        break
+      }
+      default: // Devices, FIFOs and vendor extensions are skipped
+        await reader.forward(entry.size, () => undefined)
+    }
+    await reader.exactly(tarPadding(entry.size))
+    _progress.entriesDone++
+    await _options.onProgress?.({ ..._progress })
+  }
+  for (const [dest, entry] of folders.reverse()) {
+    if (!(await lstatOrNull(dest))?.isDirectory() || await io().realpath(dest) !== dest)
+      continue // Replaced by a later entry, possibly with a link leading elsewhere
+    await io().chmod(dest, entry.mode & 0o7777)
+    await io().utimes(dest, new Date(entry.mtime * 1000), new Date(entry.mtime * 1000))
+  }
+}
+
+
+// Locking
+/**
+ * Options for {@link File.lock}.
+ *
+ * @property exclusive - Whether no one else may hold the lock (default `true`), or other shared holders are fine.
+ * @property timeout - How many milliseconds to wait for the lock before giving up (default forever, `0` tries once).
+ * @property signal - Aborts waiting for the lock.
+ * @property stale - After how many milliseconds without refresh a lockfile counts as abandoned (default 60 seconds).
+ */
+export interface LockOptions {
+  exclusive?: boolean
+  timeout?: number
+  signal?: AbortSignal
+  stale?: number
+}
+/**
+ * Who holds a lock, as recorded in its lockfile.
+ */
+interface LockOwner {
+  pid: number
+  host: string
+  exclusive: boolean
+}
+/**
+ * Upper bound of the randomised, growing pause between attempts to take a lock.
+ */
+const LOCK_RETRY_MAX_MS = 250
+/**
+ * Lists the lockfiles of shared holders next to an exclusive lockfile, except `_own`.
+ */
+async function sharedLockfiles(_exclusive: string, _own: string): Promise<string[]> {
+  const prefix = ph.basename(_exclusive) + '.'
+  const found: string[] = []
+  for await (const name of io().it_dir(ph.dirname(_exclusive)))
+    if (name.startsWith(prefix) && name.endsWith('.shared') && ph.join(ph.dirname(_exclusive), name) !== _own)
+      found.push(ph.join(ph.dirname(_exclusive), name))
+  return found
+}
+/**
+ * Makes a single attempt to take a lock by creating its lockfile exclusively, then checking for holders of the
+ * other kind. Whoever sees a conflict after creating its own lockfile backs off, so that two parties never both win.
+ *
+ * @returns `null` if the lock was taken, otherwise the lockfile that stands in the way.
+ */
+async function tryLock(_exclusive: string, _own: string, _owner: LockOwner): Promise<string | null> {
+  try {
+    await io().write_file(_own, JSON.stringify(_owner), 'utf-8', 'wx')
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'EEXIST')
+      return _own
+    throw e
+  }
+  const blocker = _owner.exclusive ? (await sharedLockfiles(_exclusive, _own))[0] : (await lstatOrNull(_exclusive)) ? _exclusive : undefined
+  if (!blocker)
+    return null
+  await io().rm(_own, { force: true })
+  return blocker
+}
+/**
+ * Checks whether a lockfile was abandoned: it wasn't refreshed within `_staleMs` or its process on this host is gone.
+ */
+async function isStaleLockfile(_path: string, _staleMs: number): Promise<boolean> {
+  const stats = await lstatOrNull(_path)
+  if (!stats)
+    return false
+  if (Date.now() - stats.mtimeMs > _staleMs)
+    return true
+  let owner: LockOwner
+  try {
+    owner = JSON.parse((await io().read_file(_path)).toString('utf-8')) as LockOwner
+  } catch {
+    return false // Still being written
+  }
+  if (owner.host !== os.hostname())
+    return false
+  try {
+    process.kill(owner.pid, 0)
+    return false
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === 'ESRCH'
+  }
+}
+/**
+ * Removes an abandoned lockfile so that only one of several parties seeing it as stale breaks it.
+ * The lockfile is claimed by renaming it to a unique name first, and only deleted if what was claimed is still stale:
+ * a fresh lockfile taken by someone who broke the stale one just before is put back instead.
+ */
+async function breakStaleLockfile(_path: string, _staleMs: number): Promise<void> {
+  const claimed = `${_path}.${cr.randomUUID()}.stale`
+  try {
+    await io().rename(_path, claimed)
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT')
+      return // Broken by someone else
+    throw e
+  }
+  if (!await isStaleLockfile(claimed, _staleMs))
+    await io().link(claimed, _path).catch(() => undefined) // Never replaces a lockfile taken since
+  await io().rm(claimed, { force: true })
+}
+/**
+ * A held advisory lock on a {@link File}, as returned by {@link File.lock}.
+ *
+ * The lock is represented by a lockfile next to the file, which is refreshed while held so that it doesn't count as stale.
+ * Releasing is idempotent and happens automatically when the handle is disposed.
+ *
+ * @example
+ * ```typescript
+ * await using lock = await state.lock({ timeout: 5000 })
+ * await state.append('entry\n')
+ * ```
+ */
+export class FileLock implements AsyncDisposable, Disposable {
+  released: boolean = false
+  protected readonly backend: RoadBackend = io()
+  protected readonly refresher: NodeJS.Timeout
+
+  constructor(readonly file: File, readonly lockfile: string, readonly exclusive: boolean, _staleMs: number) {
+    this.refresher = setInterval(() => {
+      const now = new Date()
+      this.backend.utimes(this.lockfile, now, now).catch(() => undefined)
+    }, Math.max(1, _staleMs / 2)).unref()
+  }
+
+  /**
+   * Synchronously releases the lock by removing its lockfile.
+   */
+  release_sync(): void {
+    if (this.released)
+      return
+    this.released = true
+    clearInterval(this.refresher)
+    this.backend.rm_sync(this.lockfile, { force: true })
+  }
+  /**
+   * Asynchronously releases the lock by removing its lockfile.
+   */
+  async release(): Promise<void> {
+    if (this.released)
+      return
+    this.released = true
+    clearInterval(this.refresher)
+    await this.backend.rm(this.lockfile, { force: true })
+  }
+  [Symbol.dispose](): void {
+    this.release_sync()
+  }
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.release()
+  }
+}
+
+
+// Following
+/**
+ * Options for {@link File.follow}.
+ *
+ * @property fromEnd - Whether only data appended from now on is yielded (default `true`), or the existing content first.
+ * @property encoding - Yields decoded lines in this encoding instead of raw chunks. A final line is only yielded
+ *                      once its line break arrived, or when the file is rotated.
+ * @property signal - Ends the iteration, without an error.
+ * @property interval - Milliseconds between checks for changes that the watcher missed (default 1000).
+ */
+export interface FollowOptions {
+  fromEnd?: boolean
+  encoding?: BufferEncoding
+  signal?: AbortSignal
+  interval?: number
+}
+/**
+ * Puts {@link File.follow} to sleep until something happens next to the followed file, the polling interval passed
+ * or following is aborted. The parent folder is watched, so that the file being replaced is noticed as well.
+ */
+class FollowWaker {
+  protected readonly watcher: RoadWatcher
+  protected pending: boolean = false
+  protected wake: (() => void) | null = null
+
+  constructor(_file: File, readonly interval: number, readonly signal?: AbortSignal) {
+    this.watcher = io().watch(_file.parent().isAt)
+    this.watcher.on('change', (_event: string, _name: string | null) => {
+      if (_name === null || _name === _file.name())
+        this.notify()
+    })
+    this.watcher.on('error', () => undefined) // Polling carries on
+    signal?.addEventListener('abort', this.notify, { once: true })
+  }
+
+  readonly notify = (): void => {
+    this.pending = true
+    this.wake?.()
+  }
+  async wait(): Promise<void> {
+    if (!this.pending)
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, this.interval)
+        this.wake = () => {
+          clearTimeout(timer)
+          resolve()
+        }
+      })
+    this.wake = null
+    this.pending = false
+  }
+  close(): void {
+    this.watcher.close()
+    this.signal?.removeEventListener('abort', this.notify)
+  }
+}
+
+
+
+// Random access
+/**
+ * Numeric types a {@link BinaryCursor} reads and writes: unsigned and signed integers of 8 to 64 bits and IEEE floats.
+ * The 64-bit integers are `bigint`s, everything else a `number`.
+ */
+export type binary_t = 'u8' | 'i8' | 'u16' | 'i16' | 'u32' | 'i32' | 'u64' | 'i64' | 'f32' | 'f64'
+/**
+ * The JavaScript type of a value of a {@link binary_t}.
+ */
+export type binaryValue_t<T extends binary_t> = T extends 'u64' | 'i64' ? bigint : number
+/**
+ * Byte order of multi-byte values, little (`le`) or big endian (`be`).
+ */
+export type endian_t = 'le' | 'be'
+/**
+ * How many bytes each {@link binary_t} takes and how it's decoded from and encoded into the start of a buffer.
+ */
+const BINARY_CODECS: Record<binary_t, {
+  size: number
+  read(_buffer: Buffer, _le: boolean): number | bigint
+  write(_buffer: Buffer, _value: number | bigint, _le: boolean): number
+}> = {
+  u8: { size: 1, read: _b => _b.readUInt8(), write: (_b, _v) => _b.writeUInt8(_v as number) },
+  i8: { size: 1, read: _b => _b.readInt8(), write: (_b, _v) => _b.writeInt8(_v as number) },
+  u16: { size: 2, read: (_b, _le) => _le ? _b.readUInt16LE() : _b.readUInt16BE(), write: (_b, _v, _le) => _le ? _b.writeUInt16LE(_v as number) : _b.writeUInt16BE(_v as number) },
+  i16: { size: 2, read: (_b, _le) => _le ? _b.readInt16LE() : _b.readInt16BE(), write: (_b, _v, _le) => _le ? _b.writeInt16LE(_v as number) : _b.writeInt16BE(_v as number) },
+  u32: { size: 4, read: (_b, _le) => _le ? _b.readUInt32LE() : _b.readUInt32BE(), write: (_b, _v, _le) => _le ? _b.writeUInt32LE(_v as number) : _b.writeUInt32BE(_v as number) },
+  i32: { size: 4, read: (_b, _le) => _le ? _b.readInt32LE() : _b.readInt32BE(), write: (_b, _v, _le) => _le ? _b.writeInt32LE(_v as number) : _b.writeInt32BE(_v as number) },
+  u64: { size: 8, read: (_b, _le) => _le ? _b.readBigUInt64LE() : _b.readBigUInt64BE(), write: (_b, _v, _le) => _le ? _b.writeBigUInt64LE(_v as bigint) : _b.writeBigUInt64BE(_v as bigint) },
+  i64: { size: 8, read: (_b, _le) => _le ? _b.readBigInt64LE() : _b.readBigInt64BE(), write: (_b, _v, _le) => _le ? _b.writeBigInt64LE(_v as bigint) : _b.writeBigInt64BE(_v as bigint) },
+  f32: { size: 4, read: (_b, _le) => _le ? _b.readFloatLE() : _b.readFloatBE(), write: (_b, _v, _le) => _le ? _b.writeFloatLE(_v as number) : _b.writeFloatBE(_v as number) },
+  f64: { size: 8, read: (_b, _le) => _le ? _b.readDoubleLE() : _b.readDoubleBE(), write: (_b, _v, _le) => _le ? _b.writeDoubleLE(_v as number) : _b.writeDoubleBE(_v as number) },
+}
+/**
+ * An open {@link File} for reading and writing at arbitrary offsets, as returned by {@link File.open}.
+ * Closing is idempotent and happens automatically when the handle is disposed.
+ *
+ * @example
+ * ```typescript
+ * await using handle = await file.open('r')
+ * const magic = await handle.read_at(0, 4)
+ * ```
+ */
+export class FileHandle implements AsyncDisposable, Disposable {
+  closed: boolean = false
+
+  constructor(readonly file: File, protected readonly handle: RoadHandle) { }
+
+  /**
+   * @throws {Error} If the handle was closed.
+   */
+  protected assert_open(): void {
+    if (this.closed)
+      throw new Error(`Handle of '${this.file.isAt}' was already closed`)
+  }
+
+  // Reading and writing
+  /**
+   * Synchronously reads up to `_length` bytes starting at `_offset`, fewer only at the end of the file.
+   */
+  read_at_sync(_offset: number, _length: number): Buffer {
+    this.assert_open()
+    const buffer = Buffer.alloc(_length)
+    let done = 0
+    for (let bytesRead = -1; done < _length && bytesRead !== 0; done += bytesRead)
+      bytesRead = this.handle.read_sync(buffer, done, _length - done, _offset + done)
+    return buffer.subarray(0, done)
+  }
+  /**
+   * Asynchronously reads up to `_length` bytes starting at `_offset`, fewer only at the end of the file.
+   */
+  async read_at(_offset: number, _length: number): Promise<Buffer> {
+    this.assert_open()
+    const buffer = Buffer.alloc(_length)
+    let done = 0
+    for (let bytesRead = -1; done < _length && bytesRead !== 0; done += bytesRead)
+      bytesRead = await this.handle.read(buffer, done, _length - done, _offset + done)
+    return buffer.subarray(0, done)
+  }
+  /**
+   * Synchronously writes all of `_data` starting at `_offset`, growing the file if needed.
+   */
+  write_at_sync(_offset: number, _data: Buffer | string, _encoding: BufferEncoding = 'utf-8'): void {
+    this.assert_open()
+    writeAllSync(this.handle, typeof _data === 'string' ? Buffer.from(_data, _encoding) : _data, _offset)
+  }
+  /**
+   * Asynchronously writes all of `_data` starting at `_offset`, growing the file if needed.
+   */
+  async write_at(_offset: number, _data: Buffer | string, _encoding: BufferEncoding = 'utf-8'): Promise<void> {
+    this.assert_open()
+    await writeAll(this.handle, typeof _data === 'string' ? Buffer.from(_data, _encoding) : _data, _offset)
+  }
+  /**
+   * Returns a {@link BinaryCursor} over this handle.
+   *
+   * @param _position - Where the cursor starts (default the start of the file).
+   * @param _endian - The byte order of multi-byte values (default little endian).
+   */
+  cursor(_position: number = 0, _endian: endian_t = 'le'): BinaryCursor {
+    return new BinaryCursor(this, _position, _endian)
+  }
+
+  // Size and durability
+  size_sync(): number {
+    this.assert_open()
+    return this.handle.stat_sync().size
+  }
+  async size(): Promise<number> {
+    this.assert_open()
+    return (await this.handle.stat()).size
+  }
+  /**
+   * Synchronously cuts off or zero-extends the file to `_length` bytes.
+   */
+  truncate_sync(_length: number = 0): void {
+    this.assert_open()
+    this.handle.truncate_sync(_length)
+  }
+  /**
+   * Asynchronously cuts off or zero-extends the file to `_length` bytes.
+   */
+  async truncate(_length: number = 0): Promise<void> {
+    this.assert_open()
+    await this.handle.truncate(_length)
+  }
+  /**
+   * Synchronously flushes data and metadata of the file to the storage device.
+   */
+  sync_sync(): void {
+    this.assert_open()
+    this.handle.flush_sync()
+  }
+  /**
+   * Asynchronously flushes data and metadata of the file to the storage device.
+   */
+  async sync(): Promise<void> {
+    this.assert_open()
+    await this.handle.flush()
+  }
+
+  // Closing
+  close_sync(): void {
+    if (this.closed)
+      return
+    this.closed = true
+    this.handle.close_sync()
+  }
+  async close(): Promise<void> {
+    if (this.closed)
+      return
+    this.closed = true
+    await this.handle.close()
+  }
+  [Symbol.dispose](): void {
+    this.close_sync()
+  }
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close()
+  }
+}
+/**
+ * Reads and writes typed binary values through a {@link FileHandle}, advancing its {@link position} past each value.
+ * Reading past the end of the file throws instead of yielding partial values.
+ *
+ * @example
+ * ```typescript
+ * await using handle = await file.open('r')
+ * const header = handle.cursor(0, 'be')
+ * const version = await header.read('u16')
+ * const length = await header.read('u64')
+ * const title = await header.read_string('u8')
+ * ```
+ */
+export class BinaryCursor {
+  constructor(readonly handle: FileHandle, public position: number = 0, public endian: endian_t = 'le') { }
+
+  /**
+   * Moves the cursor to an absolute offset.
+   */
+  seek(_position: number): this {
+    this.position = _position
+    return this
+  }
+  /**
+   * Moves the cursor by `_bytes`, backwards if negative.
+   */
+  skip(_bytes: number): this {
+    this.position += _bytes
+    return this
+  }
+  /**
+   * @throws {Error} If fewer than `_length` bytes were available.
+   */
+  protected take(_bytes: Buffer, _length: number): Buffer {
+    if (_bytes.length < _length)
+      throw new Error(`Unexpected end of '${this.handle.file.isAt}' reading ${_length} bytes at offset ${this.position}`)
+    this.position += _length
+    return _bytes
+  }
+
+  // Raw bytes
+  read_bytes_sync(_length: number): Buffer {
+    return this.take(this.handle.read_at_sync(this.position, _length), _length)
+  }
+  async read_bytes(_length: number): Promise<Buffer> {
+    return this.take(await this.handle.read_at(this.position, _length), _length)
+  }
+  write_bytes_sync(_data: Buffer): void {
+    this.handle.write_at_sync(this.position, _data)
+    this.position += _data.length
+  }
+  async write_bytes(_data: Buffer): Promise<void> {
+    await this.handle.write_at(this.position, _data)
+    this.position += _data.length
+  }
+
+  // Numbers
+  /**
+   * Synchronously reads a number of the given type in the cursor's byte order.
+   *
+   * @throws {Error} If the file ends before the value does.
+   */
+  read_sync<T extends binary_t>(_type: T): binaryValue_t<T> {
+    return BINARY_CODECS[_type].read(this.read_bytes_sync(BINARY_CODECS[_type].size), this.endian === 'le') as binaryValue_t<T>
+  }
+  /**
+   * Asynchronously reads a number of the given type in the cursor's byte order.
+   *
+   * @throws {Error} If the file ends before the value does.
+   */
+  async read<T extends binary_t>(_type: T): Promise<binaryValue_t<T>> {
+    return BINARY_CODECS[_type].read(await this.read_bytes(BINARY_CODECS[_type].size), this.endian === 'le') as binaryValue_t<T>
+  }
+  /**
+   * Encodes a number of the given type in the cursor's byte order.
+   *
+   * @throws {RangeError} If the value doesn't fit the type.
+   */
+  protected encode<T extends binary_t>(_type: T, _value: binaryValue_t<T>): Buffer {
+    const buffer = Buffer.alloc(BINARY_CODECS[_type].size)
+    BINARY_CODECS[_type].write(buffer, _value, this.endian === 'le')
+    return buffer
+  }
+  /**
+   * Synchronously writes a number of the given type in the cursor's byte order.
+   *
+   * @throws {RangeError} If the value doesn't fit the type.
+   */
+  write_sync<T extends binary_t>(_type: T, _value: binaryValue_t<T>): void {
+    this.write_bytes_sync(this.encode(_type, _value))
+  }
+  /**
+   * Asynchronously writes a number of the given type in the cursor's byte order.
+   *
+   * @throws {RangeError} If the value doesn't fit the type.
+   */
+  async write<T extends binary_t>(_type: T, _value: binaryValue_t<T>): Promise<void> {
+    await this.write_bytes(this.encode(_type, _value))
+  }
+
+  // Strings
+  /**
+   * Synchronously reads a string preceded by its byte length.
+   *
+   * @param _prefix - The unsigned type of the length prefix (default `u32`).
+   * @param _encoding - The character encoding of the string (default UTF-8).
+   */
+  read_string_sync(_prefix: 'u8' | 'u16' | 'u32' = 'u32', _encoding: BufferEncoding = 'utf-8'): string {
+    return this.read_bytes_sync(this.read_sync(_prefix)).toString(_encoding)
+  }
+  /**
+   * Asynchronously reads a string preceded by its byte length, see {@link read_string_sync}.
+   */
+  async read_string(_prefix: 'u8' | 'u16' | 'u32' = 'u32', _encoding: BufferEncoding = 'utf-8'): Promise<string> {
+    return (await this.read_bytes(await this.read(_prefix))).toString(_encoding)
+  }
+  /**
+   * Synchronously writes a string preceded by its byte length.
+   *
+   * @param _value - The string to write.
+   * @param _prefix - The unsigned type of the length prefix (default `u32`).
+   * @param _encoding - The character encoding of the string (default UTF-8).
+   * @throws {RangeError} If the encoded string is too long for the prefix.
+   */
+  write_string_sync(_value: string, _prefix: 'u8' | 'u16' | 'u32' = 'u32', _encoding: BufferEncoding = 'utf-8'): void {
+    const bytes = Buffer.from(_value, _encoding)
+    this.write_bytes_sync(Buffer.concat([this.encode(_prefix, bytes.length), bytes]))
+  }
+  /**
+   * Asynchronously writes a string preceded by its byte length, see {@link write_string_sync}.
+   */
+  async write_string(_value: string, _prefix: 'u8' | 'u16' | 'u32' = 'u32', _encoding: BufferEncoding = 'utf-8'): Promise<void> {
+    const bytes = Buffer.from(_value, _encoding)
+    await this.write_bytes(Buffer.concat([this.encode(_prefix, bytes.length), bytes]))
+  }
+}
+
+
+
+// Formats
+/**
+ * Thrown when the content of a file can't be parsed, pointing to where it went wrong.
+ * Lines and columns count from 1.
+ */
+export class ParseError extends Error {
+  constructor(readonly file: string, readonly line: number, readonly column: number, _reason: string, _options?: ErrorOptions) {
+    super(`${file}:${line}:${column}: ${_reason}`, _options)
+    this.name = 'ParseError'
+  }
+}
+/**
+ * Options for reading JSON and JSON Lines.
+ *
+ * @property reviver - Transforms parsed values, see {@link JSON.parse}.
+ * @property validate - Checks and types each parsed document, returning it or throwing (e.g. a schema's `parse`).
+ */
+export interface JsonReadOptions<T> {
+  reviver?: (this: unknown, _key: string, _value: unknown) => unknown
+  validate?: (_value: unknown) => T
+}
+/**
+ * Options for writing JSON.
+ *
+ * @property indent - Indentation of nested values (default 2), `0` writes everything on one line.
+ * @property replacer - Transforms values before they're written, see {@link JSON.stringify}.
+ * @property atomic - Whether to replace the file through {@link File.write_atomic} (default `false`).
+ */
+export interface JsonWriteOptions {
+  indent?: number | string
+  replacer?: (this: unknown, _key: string, _value: unknown) => unknown
+  atomic?: boolean
+}
+/**
+ * Options for reading CSV.
+ *
+ * @property delimiter - The field separator (default `,`).
+ * @property headers - Whether the first record names the columns (default `true`), or the names to use instead.
+ * Without headers, columns are named by their index. With headers, every record must have one field per column.
+ * @property map - Turns each record into a typed row, receiving the line the record starts on.
+ */
+export interface CsvReadOptions<T> {
+  delimiter?: string
+  headers?: boolean | string[]
+  map?: (_record: Record<string, string>, _line: number) => T
+}
+/**
+ * Options for writing CSV.
+ *
+ * @property delimiter - The field separator (default `,`).
+ * @property columns - Which keys of object rows to write and in which order (default the keys of the first row).
+ * @property headers - Whether to write the column names as first record (default `true` if there are columns).
+ * @property newline - The record separator (default `\r\n` as in RFC 4180).
+ */
+export interface CsvWriteOptions {
+  delimiter?: string
+  columns?: string[]
+  headers?: boolean
+  newline?: string
+}
+/**
+ * A row to write as CSV, either by column name or by position.
+ */
+export type csvRow_t = Record<string, unknown> | readonly unknown[]
+/**
+ * Finds the offset of the first character that makes `_text` invalid JSON, or `_text.length` if it ends too early.
+ * Only some of V8's syntax error messages name a position, so the offset is worked out by scanning the text itself.
+ */
+function jsonErrorOffset(_text: string): number {
+  let i = 0
+  const space = () => {
+    while (i < _text.length && ' \t\n\r'.includes(_text[i]!))
+      i++
+  }
+  const literal = (_word: string): boolean => {
+    for (const c of _word) {
+      if (_text[i] !== c)
+        return false
+      i++
+    }
+    return true
+  }
+  const string = (): boolean => {
+    for (i++; i < _text.length; i++) {
+      const c = _text[i]!
+      if (c === '"') {
+        i++
+        return true
+      }
+      if (c < ' ')
+        return false
+      if (c === '\\') {
+        const escape = _text[++i] ?? ''
+        if (escape === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(_text.slice(i + 1, i + 5)))
+            return false
+          i += 4
+        } else if (escape === '' || !'"\\/bfnrt'.includes(escape))
+          return false
+      }
+    }
+    return false
+  }
+  const number = (): boolean => {
+    const valid = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+    valid.lastIndex = i
+    const length = valid.exec(_text)?.[0].length ?? 0
+    i += length
+    return length > 0
+  }
+  const value = (): boolean => {
+    space()
+    const c = _text[i]
+    if (c === '{' || c === '[') {
+      const close = c === '{' ? '}' : ']'
+      i++
+      space()
+      if (_text[i] === close) {
+        i++
+        return true
+      }
+      for (;;) {
+        if (close === '}') {
+          space()
+          if (_text[i] !== '"' || !string())
+            return false
+          space()
+          if (_text[i] !== ':')
+            return false
+          i++
+        }
+        if (!value())
+          return false
+        space()
+        if (_text[i] !== ',' && _text[i] !== close)
+          return false
+        if (_text[i++] === close)
+          return true
+      }
+    }
+    if (c === '"')
+      return string()
+    if (c === 't' || c === 'f' || c === 'n')
+      return literal(c === 't' ? 'true' : c === 'f' ? 'false' : 'null')
+    return number()
+  }
+  if (value())
+    space()
+  return Math.min(i, _text.length)
+}
+/**
+ * Parses JSON text, turning syntax errors into a {@link ParseError} that points into the file.
+ *
+ * @param _line - The line of the file the text starts on.
+ */
+function parseJson(_text: string, _file: string, _line: number, _reviver?: JsonReadOptions<unknown>['reviver']): unknown {
+  try {
+    return JSON.parse(_text, _reviver)
+  } catch (e) {
+    const before = _text.slice(0, jsonErrorOffset(_text)).split('\n')
+    throw new ParseError(_file, _line + before.length - 1, before.at(-1)!.length + 1, (e as Error).message, { cause: e })
+  }
+}
+/**
+ * Runs the validation hook of {@link JsonReadOptions} on a parsed document, naming the file on failure.
+ */
+function validateJson<T>(_value: unknown, _options: JsonReadOptions<T>, _where: string): T {
+  if (!_options.validate)
+    return _value as T
+  try {
+    return _options.validate(_value)
+  } catch (e) {
+    throw new Error(`Invalid content at '${_where}': ${(e as Error).message}`, { cause: e })
+  }
+}
+/**
+ * Serializes a value as JSON followed by a newline.
+ *
+ * @throws {Error} If the value has no JSON representation, e.g. `undefined` or a function.
+ */
+function stringifyJson(_value: unknown, _options: JsonWriteOptions): string {
+  const text = JSON.stringify(_value, _options.replacer, _options.indent ?? 2) as string | undefined
+  if (text === undefined)
+    throw new Error(`Cannot serialize ${typeof _value} as JSON`)
+  return text + '\n'
+}
+/**
+ * Encodes a single CSV field, quoting it if it contains the delimiter, quotes, line breaks or surrounding spaces.
+ */
+function csvField(_value: unknown, _delimiter: string): string {
+  const text = _value === null || _value === undefined ? '' : _value instanceof Date ? _value.toISOString() : String(_value)
+  if (text.includes(_delimiter) || /["\r\n]|^\s|\s$/.test(text))
+    return `"${text.replaceAll('"', '""')}"`
+  return text
+}
+/**
+ * Encodes rows as CSV records, writing the header before the first one.
+ */
+class CsvWriter {
+  readonly delimiter: string
+  readonly newline: string
+  columns: string[] | undefined
+  started: boolean = false
+
+  constructor(readonly options: CsvWriteOptions) {
+    this.delimiter = options.delimiter ?? ','
+    this.newline = options.newline ?? '\r\n'
+    this.columns = options.columns
+  }
+
+  encode(_row: csvRow_t): string {
+    let text = ''
+    if (!this.started) {
+      this.started = true
+      this.columns ??= Array.isArray(_row) ? undefined : Object.keys(_row)
+      if (this.columns && (this.options.headers ?? true))
+        text += this.columns.map(c => csvField(c, this.delimiter)).join(this.delimiter) + this.newline
+    }
+    const fields = Array.isArray(_row) ? _row : (this.columns ?? []).map(c => (_row as Record<string, unknown>)[c])
+    return text + fields.map(f => csvField(f, this.delimiter)).join(this.delimiter) + this.newline
+  }
+}
+/**
+ * Incrementally parses RFC 4180 CSV text into typed rows, tracking lines and columns for error messages.
+ * Quoted fields may contain delimiters, doubled quotes and line breaks, records end with CRLF, LF or CR.
+ */
+class CsvReader<T> {
+  readonly delimiter: string
+  names: string[] | undefined
+  record: string[] = []
+  field: string = ''
+  state: 'start' | 'unquoted' | 'quoted' | 'closed' = 'start' // Where in the current field we are
+  line: number = 1
+  column: number = 0
+  recordLine: number = 1
+  quoteAt: [number, number] = [0, 0]
+  afterCR: boolean = false
+  bom: boolean = true
+
+  constructor(readonly file: string, readonly options: CsvReadOptions<T>) {
+    this.delimiter = options.delimiter ?? ','
+    if (this.delimiter.length !== 1 || /["\r\n]/.test(this.delimiter))
+      throw new Error(`Invalid CSV delimiter '${this.delimiter}'`)
+    this.names = Array.isArray(options.headers) ? options.headers : undefined
+  }
+
+  error(_reason: string, _line: number = this.line, _column: number = this.column): ParseError {
+    return new ParseError(this.file, _line, _column, _reason)
+  }
+  push(_text: string): T[] {
+    const rows: T[] = []
+    for (const char of this.bom && _text.startsWith('\uFEFF') ? _text.slice(1) : _text) {
+      this.bom = false
+      if (this.afterCR && char === '\n' && this.state !== 'quoted') {
+        this.afterCR = false
+        continue
+      }
+      this.afterCR = false
+      this.column++
+      if (this.state === 'quoted') {
+        if (char === '"')
+          this.state = 'closed'
+        else
+          this.field += char
+        if (char === '\n') {
+          this.line++
+          this.column = 0
+        }
+        continue
+      }
+      if (char === '"') {
+        if (this.state === 'closed') { // Doubled quote
+          this.field += '"'
+          this.state = 'quoted'
+        } else if (this.state === 'start') {
+          this.state = 'quoted'
+          this.quoteAt = [this.line, this.column]
+        } else
+          throw this.error('Unexpected quote in unquoted field')
+      } else if (char === this.delimiter)
+        this.end_field()
+      else if (char === '\r' || char === '\n') {
+        this.end_field()
+        this.end_record(rows)
+        this.line++
+        this.column = 0
+        this.afterCR = char === '\r'
+        this.recordLine = this.line
+      } else if (this.state === 'closed')
+        throw this.error(`Unexpected '${char}' after closing quote`)
+      else {
+        this.field += char
+        this.state = 'unquoted'
+      }
+    }
+    return rows
+  }
+  end(): T[] {
+    if (this.state === 'quoted')
+      throw this.error('Unterminated quoted field', ...this.quoteAt)
+    const rows: T[] = []
+    if (this.record.length > 0 || this.state !== 'start') {
+      this.end_field()
+      this.end_record(rows)
+    }
+    return rows
+  }
+  end_field(): void {
+    this.record.push(this.field)
+    this.field = ''
+    this.state = 'start'
+  }
+  end_record(_rows: T[]): void {
+    const record = this.record
+    this.record = []
+    if (record.length === 1 && record[0] === '')
+      return // Blank line
+    if (!this.names && (this.options.headers ?? true)) {
+      this.names = record
+      return
+    }
+    if (this.names && record.length !== this.names.length)
+      throw this.error(`Expected ${this.names.length} fields but found ${record.length}`, this.recordLine, 1)
+    const named: Record<string, string> = {}
+    record.forEach((value, i) => named[this.names?.[i] ?? String(i)] = value)
+    _rows.push(this.options.map ? this.options.map(named, this.recordLine) : named as T)
+  }
+}
+
+
+
+/**
+ * Represents a file in the filesystem, providing synchronous and asynchronous methods
+ * for reading, writing, appending, copying, moving, renaming, and deleting file content.
+ * 
+ * Supports both text and binary operations, as well as streaming interfaces for reading
+ * and writing. The `File` class extends {@link Road} and is designed to be used in conjunction
+ * with the {@link Folder} class for file management tasks.
+ * 
+ * Methods are provided for both synchronous and asynchronous usage, allowing flexibility
+ * depending on the application's requirements.
+ * 
+ * @method {@link create} - Asynchronously creates a file at the specified path if it does not exist.
+ * @method {@link create_sync} - Synchronously creates a file at the specified path if it does not exist.
+ * @method {@link read_text_sync} - Synchronously reads the file content as a UTF-8 string.
+ * @method {@link read_text} - Asynchronously reads the file content as a UTF-8 string.
+ * @method {@link it_lines} - Asynchronously iterates over the lines of the file.
+ * @method {@link read_json} - Asynchronously reads and validates a JSON document.
+ * @method {@link write_json} - Asynchronously writes a value as pretty-printed JSON.
+ * @method {@link it_jsonl} - Asynchronously iterates over the records of a JSON Lines file.
+ * @method {@link append_jsonl} - Asynchronously appends records to a JSON Lines file.
+ * @method {@link it_csv} - Asynchronously streams the records of a CSV file.
+ * @method {@link write_csv} - Asynchronously streams rows into a CSV file.
+ * @method {@link write_text_sync} - Synchronously writes a UTF-8 string to the file.
+ * @method {@link write_text} - Asynchronously writes a UTF-8 string to the file.
+ * @method {@link write_atomic_sync} - Synchronously and atomically replaces the file content, durable on disk.
+ * @method {@link write_atomic} - Asynchronously and atomically replaces the file content, durable on disk.
+ * @method {@link append_text_sync} - Synchronously appends a UTF-8 string to the file.
+ * @method {@link append_text} - Asynchronously appends a UTF-8 string to the file.
+ * @method {@link read_bytes_sync} - Synchronously reads the file content as a Buffer.
+ * @method {@link read_bytes} - Asynchronously reads the file content as a Buffer.
+ * @method {@link it_bytes_sync} - Synchronously iterates over the file content in chunks.
+ * @method {@link it_bytes} - Asynchronously iterates over the file content in chunks.
+ * @method {@link write_bytes_sync} - Synchronously writes a Buffer to the file.
+ * @method {@link write_bytes} - Asynchronously writes a Buffer to the file.
+ * @method {@link append_bytes_sync} - Synchronously appends a Buffer to the file.
+ * @method {@link append_bytes} - Asynchronously appends a Buffer to the file.
+ * @method {@link it_bytes_writeable_sync} - Synchronously provides a writable stream for writing file content in chunks.
+ * @method {@link it_bytes_writeable} - Asynchronously provides a writable stream for writing file content in chunks.
+ * @method {@link create_read_stream} - Creates a readable stream for the file.
+ * @method {@link create_write_stream} - Creates a writable stream for the file.
+ * @method {@link hash_sync} - Synchronously computes a digest of the file content.
+ * @method {@link hash} - Asynchronously computes a digest of the file content by streaming it.
+ * @method {@link unpack} - Asynchronously extracts a (gzip compressed) tar archive into a folder.
+ * @method {@link lock} - Asynchronously takes a shared or exclusive advisory lock on the file.
+ * @method {@link follow} - Asynchronously yields appended data like `tail -f`, surviving truncation and rotation.
+ * @method {@link open} - Asynchronously opens the file for random access reads and writes.
+ * @method {@link hardlink_to} - Asynchronously creates a hard link to the file.
+ * @method {@link extension} - Returns the file extension.
+ * 
+ * @remarks
+ * - The file path is managed internally and can be updated by operations such as move or rename.
+ * - Mutating operations assert that the file is mutable before proceeding.
+ * - File extension and parent folder can be accessed via utility methods.
+ * 
+ * @example
+ * ```typescript
+ * // Create a new file (async)
+ * const file = await File.create('/path/to/file.txt');
+ * await file.write_text('Hello, world!');
+ * 
+ * // Read file content (sync)
+ * const content = file.read_text_sync();
+ * 
+ * // Append a line that is on disk once the promise resolves (async)
+ * await file.append('done\n', 'utf-8', { durable: true });
+ * 
+ * // Move file to another folder (async)
+ * await file.move(anotherFolder);
+ * ```
+ */
+export class File extends Road {
+  /**
+   * Creates a new `File` instance at the specified path.
+   * If the file does not exist, it will be created as an empty file.
+   *
+   * @param _at - The file path where the `File` should be created.
+   * @param _options - Whether a newly created file and its parent folder entry are flushed to disk, see {@link WriteOptions}.
+   * @returns A promise that resolves to the created `File` instance.
+   */
+  static async create(_at: string, _options: WriteOptions = {}): Promise<File> {
+    try {
+      await io().access(_at, fs.constants.F_OK)
+    } catch {
+      await io().write_file(_at, "")
+      if (_options.durable) {
+        await syncToDisk(_at)
+        await syncToDisk(ph.dirname(ph.resolve(_at)))
+      }
+    }
+    return new File(_at)
+  }
+  /**
+   * Synchronously creates a file at the specified path if it does not already exist.
+   *
+   * @param _at - The file path where the file should be created.
+   * @param _options - Whether a newly created file and its parent folder entry are flushed to disk, see {@link WriteOptions}.
+   * @returns A new instance of the `File` class representing the file at the specified path.
+   * @throws Will throw an error if the file cannot be created or accessed.
+   */
+  static create_sync(_at: string, _options: WriteOptions = {}): File {
+    try {
+      io().access_sync(_at, fs.constants.F_OK)
+    } catch {
+      io().write_file_sync(_at, "")
+      if (_options.durable) {
+        syncToDiskSync(_at)
+        syncToDiskSync(ph.dirname(ph.resolve(_at)))
+      }
+    }
+    return new File(_at)
+  }
+
+  // Reading
+  /**
+   * Reads the contents of the file at the path specified by `this.isAt` synchronously and returns it a Buffer.
+   * 
+   * @returns {Buffer} The contents of the file as a Buffer.
+   * @throws {Error} If the file cannot be read, an error is thrown.
+   */
+  read_sync(): Buffer
+  /**
+   * Reads the contents of the file at the path specified by `this.isAt` synchronously and returns it as an encoded string.
+   *
+   * @param _encoding - The character encoding to use.
+   * @param _flag - The file system flag.
+   * @returns {string} The contents of the file as a string.
+   * @throws {Error} If the file cannot be read, an error is thrown.
+   */
+  read_sync(_encoding: BufferEncoding, _flag?: string): string
+  read_sync(_encoding?: BufferEncoding, _flag?: string): Buffer | string {
+    if (_encoding)
+      return io().read_file_sync(this.isAt, _flag).toString(_encoding)
+    else
+      return io().read_file_sync(this.isAt)
+  }
+  /**
+   * Asynchronously reads the contents of the file at the path specified by `this.isAt` and returns it as a Buffer.
+   * 
+   * @returns {Promise<Buffer>} A promise that resolves to the contents of the file as a Buffer.
+   * @throws If the file cannot be read, the promise is rejected with an error.
+   */
+  async read(): Promise<Buffer>
+  /**
+   * Asynchronously reads the contents of the file at the path specified by `this.isAt` and returns it as an encoded string.
+   * 
+   * @param _encoding - The character encoding to use.
+   * @param _flag - The file system flag.
+   * @returns A promise that resolves to the contents of the file as a string.
+   * @throws If the file cannot be read, the promise is rejected with an error.
+   */
+  async read(_encoding: BufferEncoding, _flag?: string): Promise<string>
+  async read(_encoding?: BufferEncoding, _flag?: string): Promise<Buffer | string> {
+    if (_encoding)
+      return (await io().read_file(this.isAt, _flag)).toString(_encoding)
+    else
+      return io().read_file(this.isAt)
+  }
+  /**
+   * Asynchronously iterates over the bytes of a file specified by `this.isAt` and yields each chunk as a Buffer.
+   * 
+   * @param _chunkSize - The size of each chunk to read from the file (default is 64KB).
+   * @param _flags - The file system flags to use when opening the file.
+   * @yields {Promise<Buffer>} A promise that resolves to each chunk of bytes read from the file.
+   * @throws {Error} If the file cannot be read, an error is thrown.
+   */
+  async *it_buff(_chunkSize: number = 64 * 1024, _flags?: string): AsyncIterableIterator<Buffer> {
+    const fd = await io().open(this.isAt, _flags)
+    try {
+      const buffer = Buffer.alloc(_chunkSize)
+      let bytesRead: number
+      do {
+        bytesRead = await fd.read(buffer, 0, _chunkSize, null)
+        if (bytesRead > 0)
+          yield buffer.subarray(0, bytesRead)
+      } while (bytesRead === _chunkSize)
+    } finally {
+      await fd.close()
+    }
+  }
+  /**
+   * Asynchronously iterates over the lines of a file specified by `this.isAt` and yields each line as an encoded string.
+   * 
+   * @param _encoding - The character encoding to use.
+   * @yields {Promise<string>} A promise that resolves to each line of the file as a string.
+   * @throws {Error} If the file cannot be read, an error is thrown.
+   */
+  async *it_lines(_encoding: BufferEncoding = 'utf-8', _flags?: string): AsyncIterableIterator<string> {
+    const readStream = io().create_read_stream(this.isAt, { encoding: _encoding, flags: _flags })
+    const rlInterface = rl.createInterface({ input: readStream, crlfDelay: Infinity })
+    try {
+      for await (const line of rlInterface)
+        yield line
+    } finally {
+      rlInterface.close()
+      readStream.destroy()
+    }
+  }
+
+  // Writing
+  /**
+   * Creates or overwrites the file at `this.isAt` with the provided data synchronously.
+   * 
+   * @param _data - The data (Buffer or string) to write to the file.
+   * @param _encoding - The character encoding to use if writing a string.
+   * @param _flagOrOptions - The file system flag to use, or options such as flushing the data to disk before returning, see {@link WriteOptions}.
+   * @throws {Error} If the node is not mutable or if the file cannot be written.
+   */
+  write_sync(_data: Buffer | string, _encoding?: BufferEncoding, _flagOrOptions: string | WriteOptions = {}): void {
+    this.assert_mutable()
+    const options = typeof _flagOrOptions === 'string' ? { flag: _flagOrOptions } : _flagOrOptions
+    io().write_file_sync(this.isAt, _data, _encoding, options.flag)
+    if (options.durable)
+      syncToDiskSync(this.isAt)
+  }
+  /**
+   * Asynchronously creates or overwrites the file at `this.isAt` with the provided data.
+   * 
+   * @param _data - The data (Buffer or string) to write to the file.
+   * @param _encoding - The character encoding to use if writing a string.
+   * @param _flagOrOptions - The file system flag to use, or options such as flushing the data to disk before the promise resolves, see {@link WriteOptions}.
+   * @throws {Error} If the node is not mutable or if the file cannot be written.
+   */
+  async write(_data: Buffer | string, _encoding?: BufferEncoding, _flagOrOptions: string | WriteOptions = {}): Promise<void> {
+    this.assert_mutable()
+    const options = typeof _flagOrOptions === 'string' ? { flag: _flagOrOptions } : _flagOrOptions
+    await io().write_file(this.isAt, _data, _encoding, options.flag)
+    if (options.durable)
+      await syncToDisk(this.isAt)
+  }
+  /**
+   * Atomically replaces the content of the file at `this.isAt` synchronously.
+   *
+   * The data is written to a hidden sibling temporary file carrying the original file mode, flushed to disk,
+   * renamed over the target and finally the parent folder is flushed, so that after a crash
+   * the file holds either the old or the new content but never a truncated mix.
+   * A file deleted in the meantime is created anew with the default mode, `0o666` restricted by the umask.
+   *
+   * @param _data - The data (Buffer or string) to write to the file.
+   * @param _encoding - The character encoding to use if writing a string.
+   * @throws {Error} If the node is not mutable or if any step fails (the temporary file is removed again).
+   */
+  write_atomic_sync(_data: Buffer | string, _encoding?: BufferEncoding): void {
+    this.assert_mutable()
+    const stats = statOrNullSync(this.isAt)
+    const mode = stats ? stats.mode & 0o7777 : undefined
+    const temp = this.parent().join(`.${this.name()}.${cr.randomUUID()}.tmp`)
+    try {
+      const handle = io().open_sync(temp, 'wx', mode)
+      try {
+        writeAllSync(handle, typeof _data === 'string' ? Buffer.from(_data, _encoding) : _data)
+        if (mode !== undefined)
+          handle.chmod_sync(mode) // The creation mode is masked by the umask
+        handle.flush_sync()
+      } finally {
+        handle.close_sync()
+      }
+      io().rename_sync(temp, this.isAt)
+    } catch (e) {
+      io().rm_sync(temp, { force: true })
+      throw e
+    }
+    syncToDiskSync(ph.dirname(this.isAt))
+  }
+  /**
+   * Atomically replaces the content of the file at `this.isAt` asynchronously.
+   * See {@link write_atomic_sync} for the exact steps taken.
+   *
+   * @param _data - The data (Buffer or string) to write to the file.
+   * @param _encoding - The character encoding to use if writing a string.
+   * @returns A promise that resolves once the new content and its folder entry are on disk.
+   * @throws {Error} If the node is not mutable or if any step fails (the temporary file is removed again).
+   */
+  async write_atomic(_data: Buffer | string, _encoding?: BufferEncoding): Promise<void> {
+    this.assert_mutable()
+    const stats = await statOrNull(this.isAt)
+    const mode = stats ? stats.mode & 0o7777 : undefined
+    const temp = this.parent().join(`.${this.name()}.${cr.randomUUID()}.tmp`)
+    try {
+      const handle = await io().open(temp, 'wx', mode)
+      try {
+        await writeAll(handle, typeof _data === 'string' ? Buffer.from(_data, _encoding) : _data)
+        if (mode !== undefined)
+          await handle.chmod(mode) // The creation mode is masked by the umask
+        await handle.flush()
+      } finally {
+        await handle.close()
+      }
+      await io().rename(temp, this.isAt)
+    } catch (e) {
+      await io().rm(temp, { force: true })
+      throw e
+    }
+    await syncToDisk(ph.dirname(this.isAt))
+  }
+  /**
+   * Appends the provided data to the file at `this.isAt` synchronously.
+   * 
+   * @param _data - The data (Buffer or string) to append to the file.
+   * @param _encoding - The character encoding to use if appending a string.
+   * @param _flagOrOptions - The file system flag to use, or options such as flushing the data to disk before returning, see {@link WriteOptions}.
+   * @throws {Error} If the node is not mutable or if the file cannot be appended to.
+   */
+  append_sync(_data: Buffer | string, _encoding?: BufferEncoding, _flagOrOptions: string | WriteOptions = {}): void {
+    this.assert_mutable()
+    const options = typeof _flagOrOptions === 'string' ? { flag: _flagOrOptions } : _flagOrOptions
+    io().write_file_sync(this.isAt, _data, _encoding, options.flag ?? 'a')
+    if (options.durable)
+      syncToDiskSync(this.isAt)
+  }
+  /**
+   * Asynchronously appends the provided data to the file at `this.isAt`.
+   * 
+   * @param _data - The data (Buffer or string) to append to the file.
+   * @param _encoding - The character encoding to use if appending a string.
+   * @param _flagOrOptions - The file system flag to use, or options such as flushing the data to disk before the promise resolves, see {@link WriteOptions}.
+   * @throws {Error} If the node is not mutable or if the file cannot be appended to.
+   */
+  async append(_data: Buffer | string, _encoding?: BufferEncoding, _flagOrOptions: string | WriteOptions = {}): Promise<void> {
+    this.assert_mutable()
+    const options = typeof _flagOrOptions === 'string' ? { flag: _flagOrOptions } : _flagOrOptions
+    await io().write_file(this.isAt, _data, _encoding, options.flag ?? 'a')
+    if (options.durable)
+      await syncToDisk(this.isAt)
+  }
+
+  // Streaming
+  /**
+   * Creates and returns a readable file stream for the file located at `this.isAt`.
+   *
+   * @returns {Readable} A readable stream for the specified file.
+   *
+   * @remarks
+   * This method utilizes {@link RoadBackend.create_read_stream} of the {@link currentBackend} to open a stream for reading the file.
+   * Ensure that `this.isAt` contains a valid file path.
+   *
+   * @throws {Error} If the file does not exist or cannot be opened, an error will be thrown by the underlying `fs` module.
+   */
+  create_read_stream(): Readable {
+    return io().create_read_stream(this.isAt)
+  }
+  /**
+   * Creates and returns a writable file stream for the current file path.
+   *
+   * @returns {Writable} A writable stream for the file at `this.isAt`.
+   * @throws {Error} If the node is not mutable.
+   */
+  create_write_stream(): Writable {
+    this.assert_mutable()
+    return io().create_write_stream(this.isAt)
+  }
+  /**
+   * Compares this file with another file to determine if they are identical.
+   *
+   * In `position` mode (default) both instances must point to the same path and have equal contents.
+   * In `content` mode only the contents matter: sizes are compared first, then the streamed hashes.
+   *
+   * @param _other - The other `File` instance to compare against.
+   * @param _compare - Whether to compare by `position` and content or by `content` only.
+   * @returns {Promise<boolean>} A promise that resolves to `true` if the files are identical, or `false` otherwise.
+   * @throws {Error} If either file cannot be read.
+   */
+  async same_as(_other: File, _compare: 'position' | 'content' = 'position'): Promise<boolean> {
+    if (_compare === 'position' && this.isAt !== _other.isAt)
+      return false
+    if ((await this.stats()).size !== (await _other.stats()).size)
+      return false
+    return await this.hash() === await _other.hash()
+  }
+  /**
+   * Synchronously compares this file with another file to determine if they are identical.
+   * See {@link same_as} for the comparison modes.
+   *
+   * @param _other - The other `File` instance to compare against.
+   * @param _compare - Whether to compare by `position` and content or by `content` only.
+   * @returns {boolean} `true` if the files are identical, `false` otherwise.
+   * @throws {Error} If either file cannot be read.
+   */
+  same_as_sync(_other: File, _compare: 'position' | 'content' = 'position'): boolean {
+    if (_compare === 'position' && this.isAt !== _other.isAt)
+      return false
+    if (this.stats_sync().size !== _other.stats_sync().size)
+      return false
+    return this.hash_sync() === _other.hash_sync()
+  }
+
+  // Following
+  /**
+   * Asynchronously follows the file like `tail -f` and yields whatever is appended to it, as raw chunks or as lines.
+   *
+   * The file is watched through {@link RoadBackend.watch} and polled as a fallback. If the file shrinks it was truncated
+   * and is followed from its start again. If another file takes its place (a different inode, e.g. after log rotation),
+   * the old one is drained and the new one followed from its start. A deleted file is waited for to reappear.
+   *
+   * @param _options - Where to start, line decoding, abort signal and polling interval, see {@link FollowOptions}.
+   * @yields Chunks of appended bytes, or lines without their line break if an encoding is given.
+   * @throws {Error} If the file can't be opened or read.
+   *
+   * @example
+   * ```typescript
+   * for await (const line of log.follow({ encoding: 'utf-8', signal }))
+   *   console.log(line)
+   * ```
+   */
+  follow(_options: FollowOptions & { encoding: BufferEncoding }): AsyncIterableIterator<string>
+  follow(_options?: FollowOptions & { encoding?: undefined }): AsyncIterableIterator<Buffer>
+  async *follow(_options: FollowOptions = {}): AsyncIterableIterator<Buffer | string> {
+    const signal = _options.signal
+    const waker = new FollowWaker(this, _options.interval ?? 1000, signal)
+    let handle = await io().open(this.isAt, 'r')
+    let stats = await handle.stat()
+    let position = (_options.fromEnd ?? true) ? stats.size : 0
+    const decoder = _options.encoding ? new StringDecoder(_options.encoding) : null
+    let partial = ''
+    const buffer = Buffer.alloc(64 * 1024)
+    try {
+      while (!signal?.aborted) {
+        let bytesRead: number
+        while (!signal?.aborted && (bytesRead = await handle.read(buffer, 0, buffer.length, position)) > 0) {
+          position += bytesRead
+          const chunk = Buffer.from(buffer.subarray(0, bytesRead))
+          if (!decoder) {
+            yield chunk
+            continue
+          }
+          const lines = (partial + decoder.write(chunk)).split('\n')
+          partial = lines.pop()!
+          for (const line of lines)
+            yield line.endsWith('\r') ? line.slice(0, -1) : line
+        }
+        const current = await statOrNull(this.isAt)
+        if (current && (current.ino !== stats.ino || current.dev !== stats.dev)) {
+          // Rotated, the old file is drained
+          const rest = partial + (decoder?.end() ?? '')
+          partial = ''
+          if (rest)
+            yield rest
+          let replacement: RoadHandle
+          try {
+            replacement = await io().open(this.isAt, 'r')
+          } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== 'ENOENT')
+              throw e
+            await waker.wait() // Gone again before it could be opened
+            continue
+          }
+          await handle.close()
+          handle = replacement
+          stats = await handle.stat()
+          position = 0
+          continue
+        }
+        if ((await handle.stat()).size < position) {
+          // Truncated
+          position = 0
+          partial = ''
+          decoder?.end()
+          continue
+        }
+        await waker.wait()
+      }
+    } finally {
+      waker.close()
+      await handle.close()
+    }
+  }
+
+  // Formats
+  /**
+   * Synchronously reads and parses the file as JSON.
+   *
+   * @param _options - Reviver and validation hook, see {@link JsonReadOptions}.
+   * @returns The parsed (and validated) document.
+   * @throws {ParseError} If the content isn't valid JSON, pointing to the line and column.
+   * @throws {Error} If the file can't be read or the validation hook rejects the document.
+   */
+  read_json_sync<T = unknown>(_options: JsonReadOptions<T> = {}): T {
+    return validateJson(parseJson(this.read_sync('utf-8'), this.isAt, 1, _options.reviver), _options, this.isAt)
+  }
+  /**
+   * Asynchronously reads and parses the file as JSON.
+   *
+   * @param _options - Reviver and validation hook, see {@link JsonReadOptions}.
+   * @returns A promise that resolves to the parsed (and validated) document.
+   * @throws {ParseError} If the content isn't valid JSON, pointing to the line and column.
+   * @throws {Error} If the file can't be read or the validation hook rejects the document.
+   *
+   * @example
+   * ```typescript
+   * const config = await file.read_json({ validate: ConfigSchema.parse })
+   * ```
+   */
+  async read_json<T = unknown>(_options: JsonReadOptions<T> = {}): Promise<T> {
+    return validateJson(parseJson(await this.read('utf-8'), this.isAt, 1, _options.reviver), _options, this.isAt)
+  }
+  /**
+   * Synchronously writes a value as pretty-printed JSON followed by a newline.
+   *
+   * @param _value - The value to write.
+   * @param _options - Indentation, replacer and atomic replacement, see {@link JsonWriteOptions}.
+   * @throws {Error} If the node is not mutable, the value can't be serialized or the file can't be written.
+   */
+  write_json_sync(_value: unknown, _options: JsonWriteOptions = {}): void {
+    const text = stringifyJson(_value, _options)
+    if (_options.atomic)
+      this.write_atomic_sync(text, 'utf-8')
+    else
+      this.write_sync(text, 'utf-8')
+  }
+  /**
+   * Asynchronously writes a value as pretty-printed JSON followed by a newline.
+   *
+   * @param _value - The value to write.
+   * @param _options - Indentation, replacer and atomic replacement, see {@link JsonWriteOptions}.
+   * @throws {Error} If the node is not mutable, the value can't be serialized or the file can't be written.
+   */
+  async write_json(_value: unknown, _options: JsonWriteOptions = {}): Promise<void> {
+    const text = stringifyJson(_value, _options)
+    if (_options.atomic)
+      await this.write_atomic(text, 'utf-8')
+    else
+      await this.write(text, 'utf-8')
+  }
+  /**
+   * Asynchronously iterates over the records of a JSON Lines file, skipping blank lines.
+   *
+   * @param _options - Reviver and validation hook applied to every record, see {@link JsonReadOptions}.
+   * @yields Each parsed (and validated) record.
+   * @throws {ParseError} If a line isn't valid JSON, pointing to the line and column.
+   * @throws {Error} If the file can't be read or the validation hook rejects a record.
+   */
+  async *it_jsonl<T = unknown>(_options: JsonReadOptions<T> = {}): AsyncIterableIterator<T> {
+    let line = 0
+    for await (const text of this.it_lines()) {
+      line++
+      if (text.trim() !== '')
+        yield validateJson(parseJson(text, this.isAt, line, _options.reviver), _options, `${this.isAt}:${line}`)
+    }
+  }
+  /**
+   * Synchronously appends records to a JSON Lines file, one line each.
+   *
+   * @param _records - The records to append.
+   * @throws {Error} If the node is not mutable, a record can't be serialized or the file can't be appended to.
+   */
+  append_jsonl_sync(..._records: unknown[]): void {
+    this.append_sync(_records.map(r => stringifyJson(r, { indent: 0 })).join(''), 'utf-8')
+  }
+  /**
+   * Asynchronously appends records to a JSON Lines file, one line each, in a single write.
+   *
+   * @param _records - The records to append.
+   * @throws {Error} If the node is not mutable, a record can't be serialized or the file can't be appended to.
+   */
+  async append_jsonl(..._records: unknown[]): Promise<void> {
+    await this.append(_records.map(r => stringifyJson(r, { indent: 0 })).join(''), 'utf-8')
+  }
+  /**
+   * Asynchronously streams the records of an RFC 4180 CSV file.
+   *
+   * @param _options - Delimiter, headers and row mapping, see {@link CsvReadOptions}.
+   * @yields Each record, by default keyed by column name.
+   * @throws {ParseError} If the content is malformed, e.g. an unterminated quote or a record of the wrong width.
+   *
+   * @example
+   * ```typescript
+   * for await (const user of file.it_csv({ map: r => ({ name: r['name'], age: Number(r['age']) }) }))
+   *   console.log(user.name, user.age)
+   * ```
+   */
+  async *it_csv<T = Record<string, string>>(_options: CsvReadOptions<T> = {}): AsyncIterableIterator<T> {
+    const reader = new CsvReader(this.isAt, _options)
+    for await (const chunk of io().create_read_stream(this.isAt, { encoding: 'utf-8' }) as AsyncIterable<string>)
+      yield* reader.push(chunk)
+    yield* reader.end()
+  }
+  /**
+   * Synchronously reads all records of an RFC 4180 CSV file.
+   *
+   * @param _options - Delimiter, headers and row mapping, see {@link CsvReadOptions}.
+   * @returns All records, by default keyed by column name.
+   * @throws {ParseError} If the content is malformed, e.g. an unterminated quote or a record of the wrong width.
+   */
+  read_csv_sync<T = Record<string, string>>(_options: CsvReadOptions<T> = {}): T[] {
+    const reader = new CsvReader(this.isAt, _options)
+    return [...reader.push(this.read_sync('utf-8')), ...reader.end()]
+  }
+  /**
+   * Asynchronously reads all records of an RFC 4180 CSV file, see {@link it_csv} to stream them instead.
+   *
+   * @param _options - Delimiter, headers and row mapping, see {@link CsvReadOptions}.
+   * @returns A promise that resolves to all records, by default keyed by column name.
+   * @throws {ParseError} If the content is malformed, e.g. an unterminated quote or a record of the wrong width.
+   */
+  async read_csv<T = Record<string, string>>(_options: CsvReadOptions<T> = {}): Promise<T[]> {
+    const rows: T[] = []
+    for await (const row of this.it_csv(_options))
+      rows.push(row)
+    return rows
+  }
+  /**
+   * Synchronously writes rows as RFC 4180 CSV, replacing the file content.
+   *
+   * @param _rows - Rows keyed by column name or given by position.
+   * @param _options - Delimiter, columns, headers and line endings, see {@link CsvWriteOptions}.
+   * @throws {Error} If the node is not mutable or the file can't be written.
+   */
+  write_csv_sync(_rows: Iterable<csvRow_t>, _options: CsvWriteOptions = {}): void {
+    this.assert_mutable()
+    const writer = new CsvWriter(_options)
+    const handle = io().open_sync(this.isAt, 'w')
+    try {
+      for (const row of _rows)
+        writeAllSync(handle, Buffer.from(writer.encode(row), 'utf-8'))
+    } finally {
+      handle.close_sync()
+    }
+  }
+  /**
+   * Asynchronously streams rows as RFC 4180 CSV into the file, replacing its content.
+   *
+   * @param _rows - Rows keyed by column name or given by position, possibly produced asynchronously.
+   * @param _options - Delimiter, columns, headers and line endings, see {@link CsvWriteOptions}.
+   * @throws {Error} If the node is not mutable or the file can't be written.
+   */
+  async write_csv(_rows: Iterable<csvRow_t> | AsyncIterable<csvRow_t>, _options: CsvWriteOptions = {}): Promise<void> {
+    this.assert_mutable()
+    const writer = new CsvWriter(_options)
+    const handle = await io().open(this.isAt, 'w')
+    try {
+      for await (const row of _rows)
+        await writeAll(handle, Buffer.from(writer.encode(row), 'utf-8'))
+    } finally {
+      await handle.close()
+    }
+  }
+
+  // Archives
+  /**
+   * Asynchronously extracts this tar archive (ustar, pax or GNU, optionally gzip compressed) into a folder.
+   *
+   * Entries are streamed straight into place, keeping their modes, modification times and symbolic links.
+   * Existing entries are replaced, hard links become copies and devices or FIFOs are skipped.
+   * Entries that would end up outside of the folder, directly or through a symbolic link, abort the extraction,
+   * as do hard links whose source isn't a file extracted earlier.
+   *
+   * @param _into - The folder to extract into.
+   * @param _options - Abort signal, progress callback and compression, see {@link ArchiveOptions}.
+   * @returns A promise that resolves once all entries are extracted.
+   * @throws {Error} If the folder isn't mutable, the archive is corrupt or an entry escapes the folder.
+   *
+   * @example
+   * ```typescript
+   * await new File('dist.tar.gz').unpack(await Folder.create('deploy'))
+   * ```
+   */
+  async unpack(_into: Folder, _options: ArchiveOptions = {}): Promise<void> {
+    _into.assert_mutable()
+    const root = await io().realpath(_into.isAt)
+    const progress: TransferProgress = { bytesDone: 0, bytesTotal: (await this.stats()).size, entriesDone: 0, entriesTotal: 0 }
+    let gzip = _options.gzip
+    if (gzip === undefined) {
+      const magic = Buffer.alloc(2)
+      const handle = await io().open(this.isAt, 'r')
+      try {
+        await handle.read(magic, 0, magic.length, 0)
+      } finally {
+        await handle.close()
+      }
+      gzip = magic[0] === 0x1f && magic[1] === 0x8b
+    }
+    const input = io().create_read_stream(this.isAt, { signal: _options.signal })
+    const counted = async function* (_source: AsyncIterable<Buffer>) {
+      for await (const chunk of _source) {
+        progress.bytesDone += chunk.length
+        yield chunk
+      }
+    }
+    const extract = async (_source: AsyncIterable<Buffer>) => untar(_source, root, _options, progress)
+    if (gzip)
+      await pipeline(input, counted, zl.createGunzip(), extract)
+    else
+      await pipeline(input, counted, extract)
+  }
+
+  // Hard links
+  /**
+   * Synchronously creates another name for this file: a hard link at `_at` sharing its inode and content.
+   * Unlike a {@link SymbolicLink} it stays valid when this path is deleted or moved, but it can't cross devices.
+   *
+   * @param _at - Where to create the hard link, which must not exist yet.
+   * @returns The file at the new path.
+   * @throws {Error} If `_at` exists, is on another device or the OS refuses the link.
+   */
+  hardlink_to_sync(_at: string): File {
+    io().link_sync(this.isAt, _at)
+    return new File(_at)
+  }
+  /**
+   * Asynchronously creates another name for this file, see {@link hardlink_to_sync}.
+   *
+   * @param _at - Where to create the hard link, which must not exist yet.
+   * @returns A promise that resolves to the file at the new path.
+   * @throws {Error} If `_at` exists, is on another device or the OS refuses the link.
+   */
+  async hardlink_to(_at: string): Promise<File> {
+    await io().link(this.isAt, _at)
+    return new File(_at)
+  }
+
+  // Random access
+  /**
+   * Synchronously opens the file for reading and writing at arbitrary offsets.
+   *
+   * @param _flags - How to open the file, e.g. `r` to only read or `r+` to read and write (default `r+`).
+   * @returns The open handle, close it by disposing it or through {@link FileHandle.close_sync}.
+   * @throws {Error} If the flags allow writing but the node is not mutable, or the file can't be opened.
+   */
+  open_sync(_flags: string = 'r+'): FileHandle {
+    if (_flags !== 'r' && _flags !== 'rs')
+      this.assert_mutable()
+    return new FileHandle(this, io().open_sync(this.isAt, _flags))
+  }
+  /**
+   * Asynchronously opens the file for reading and writing at arbitrary offsets, see {@link open_sync}.
+   *
+   * @param _flags - How to open the file, e.g. `r` to only read or `r+` to read and write (default `r+`).
+   * @returns The open handle, close it by disposing it or through {@link FileHandle.close}.
+   * @throws {Error} If the flags allow writing but the node is not mutable, or the file can't be opened.
+   *
+   * @example
+   * ```typescript
+   * await using handle = await file.open()
+   * await handle.cursor(8, 'be').write('u32', count)
+   * ```
+   */
+  async open(_flags: string = 'r+'): Promise<FileHandle> {
+    if (_flags !== 'r' && _flags !== 'rs')
+      this.assert_mutable()
+    return new FileHandle(this, await io().open(this.isAt, _flags))
+  }
+
+  // Locking
+  /**
+   * Asynchronously takes an advisory lock on this file, waiting until it's available.
+   *
+   * Locks are lockfiles next to the file (`.name.lock` for exclusive holders, `.name.lock.<id>.shared` for shared ones),
+   * so they work across processes that all use this method, but don't stop anyone from accessing the file itself.
+   * Lockfiles of processes that died on this host or that weren't refreshed within `stale` milliseconds are taken over.
+   *
+   * @param _options - Lock mode, timeout, abort signal and staleness, see {@link LockOptions}.
+   * @returns A promise that resolves to the held lock, release it by disposing it or through {@link FileLock.release}.
+   * @throws {Error} If the timeout expires, the signal aborts or a lockfile can't be created.
+   *
+   * @example
+   * ```typescript
+   * {
+   *   await using lock = await file.lock({ signal })
+   *   await file.append(line)
+   * } // Released here
+   * ```
+   */
+  async lock(_options: LockOptions = {}): Promise<FileLock> {
+    const owner: LockOwner = { pid: process.pid, host: os.hostname(), exclusive: _options.exclusive ?? true }
+    const stale = _options.stale ?? 60_000
+    const exclusive = this.parent().join(`.${this.name()}.lock`)
+    const own = owner.exclusive ? exclusive : `${exclusive}.${cr.randomUUID()}.shared`
+    const deadline = Date.now() + (_options.timeout ?? Infinity)
+    for (let attempt = 0; ; attempt++) {
+      _options.signal?.throwIfAborted()
+      const blocker = await tryLock(exclusive, own, owner)
+      if (!blocker)
+        return new FileLock(this, own, owner.exclusive, stale)
+      if (await isStaleLockfile(blocker, stale)) {
+        await breakStaleLockfile(blocker, stale)
+        continue
+      }
+      if (Date.now() >= deadline)
+        throw new Error(`Timed out after ${_options.timeout}ms waiting for a lock on '${this.isAt}' held through '${blocker}'`)
+      const pause = Math.min(LOCK_RETRY_MAX_MS, 5 * 2 ** attempt) * (0.5 + Math.random() / 2) // Randomised against lockstep retries
+      await inb.sleep(Math.min(pause, deadline - Date.now()), _options.signal)
+    }
+  }
+
+  // Hashing
+  /**
+   * Asynchronously computes a digest of the file content by streaming it through {@link it_buff}.
    *
-   * @returns {boolean} `true` if the path exists and the instance matches the type; otherwise, `false`.
+   * @param _algorithm - Any hash algorithm supported by `node:crypto` (default `sha256`).
+   * @param _bytes - Only hash up to this many leading bytes (default the whole file).
+   * @returns A promise that resolves to the hex encoded digest.
+   * @throws {Error} If the file cannot be read or the algorithm is unsupported.
    */
-  exists_sync(): boolean {
-    return fs.existsSync(this.isAt) && (this instanceof roadType(this.isAt))
+  async hash(_algorithm: string = 'sha256', _bytes: number = Infinity): Promise<string> {
+    const hasher = cr.createHash(_algorithm)
+    let remaining = _bytes
+    for await (const chunk of this.it_buff(Math.min(64 * 1024, Math.max(1, remaining)))) {
+      hasher.update(chunk.subarray(0, remaining))
+      remaining -= chunk.length
+      if (remaining <= 0)
+        break
+    }
+    return hasher.digest('hex')
   }
   /**
-   * Asynchronously checks if the file or directory at the specified path exists.
+   * Synchronously computes a digest of the file content, reading it in chunks.
    *
-   * Attempts to access the path using the file system's access method. If the path exists,
-   * it further checks if the current instance is of the type returned by {@link roadType}.
-   * Returns `true` if both conditions are met, otherwise returns `false`.
+   * @param _algorithm - Any hash algorithm supported by `node:crypto` (default `sha256`).
+   * @param _bytes - Only hash up to this many leading bytes (default the whole file).
+   * @returns The hex encoded digest.
+   * @throws {Error} If the file cannot be read or the algorithm is unsupported.
+   */
+  hash_sync(_algorithm: string = 'sha256', _bytes: number = Infinity): string {
+    const hasher = cr.createHash(_algorithm)
+    const buffer = Buffer.alloc(Math.min(64 * 1024, Math.max(1, _bytes)))
+    const handle = io().open_sync(this.isAt, 'r')
+    try {
+      for (let remaining = _bytes, bytesRead = -1; remaining > 0 && bytesRead !== 0; remaining -= bytesRead) {
+        bytesRead = handle.read_sync(buffer, 0, Math.min(buffer.length, remaining), null)
+        hasher.update(buffer.subarray(0, bytesRead))
+      }
+    } finally {
+      handle.close_sync()
+    }
+    return hasher.digest('hex')
+  }
+
+  // Properties
+  /**
+   * Returns the file extension of the current path stored in `this.isAt`.
    *
-   * @returns {Promise<boolean>} A promise that resolves to `true` if the path exists and the instance type matches, or `false` otherwise.
+   * @returns The file extension as a string, including the leading dot (e.g., ".txt").
    */
-  async exists(): Promise<boolean> {
+  ext(): string {
+    return ph.extname(this.isAt)
+  }
+
+  // Implement abstract methods
+  /**
+   * Synchronously deletes the file at the path specified by `this.isAt`.
+   * 
+   * @throws {Error} If the node is not mutable or if the file cannot be deleted.
+   * @remarks
+   * This method first checks if the node is mutable by calling `assert_mutable()`.
+   * If the check passes, it deletes the file using {@link RoadBackend.unlink_sync}.
+   */
+  delete_sync(): void {
+    this.assert_mutable()
+    io().unlink_sync(this.isAt)
+  }
+  /**
+   * Asynchronously deletes the file at the path specified by `this.isAt`.
+   * 
+   * @returns A promise that resolves when the file has been deleted.
+   * @throws {Error} If the node is not mutable or if the file cannot be deleted.
+   * @remarks
+   * This method first checks if the node is mutable by calling `assert_mutable()`.
+   * If the check passes, it deletes the file using {@link RoadBackend.unlink}.
+   */
+  async delete(): Promise<void> {
+    this.assert_mutable()
+    return io().unlink(this.isAt)
+  }
+  /**
+   * Synchronously moves the file into the specified folder.
+   * Falls back to copying and deleting when the folder is on another device.
+   *
+   * @param _into - The target folder where the file should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
+   */
+  move_sync(_into: Folder, _options: TransferOptions = {}): void {
+    this.assert_mutable()
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return
+    transfer.move_sync(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Asynchronously moves the file into the specified folder.
+   * Falls back to copying and deleting when the folder is on another device.
+   *
+   * @param _into - The target folder where the file should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
+   * @returns A promise that resolves when the move operation is complete.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
+   */
+  async move(_into: Folder, _options: TransferOptions = {}): Promise<void> {
+    this.assert_mutable()
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return
+    await transfer.move(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Copies the current file synchronously into the specified folder.
+   *
+   * @param _into - The destination folder where the file will be copied.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A new instance of the file at the destination path, typed as `this`, or the existing entry as its typed {@link Road} subclass if skipped.
+   * @throws {Error} If the copy is aborted or the destination conflicts under the `fail` policy.
+   */
+  copy_sync(_into: Folder, _options?: UnskippedTransferOptions): this
+  copy_sync(_into: Folder, _options?: TransferOptions): this | Road
+  copy_sync(_into: Folder, _options: TransferOptions = {}): this | Road {
+    const transfer = new Transfer(_options)
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory_sync(_into.join(this.name()))
+    transfer.measure_sync(this.isAt)
+    transfer.copy_sync(this.isAt, newPath)
+    return new File(newPath) as this
+  }
+  /**
+   * Asynchronously copies the current file into the specified folder.
+   *
+   * @param _into - The destination folder where the file will be copied.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A promise that resolves to a new instance of the file at the destination path, or the existing entry if skipped.
+   * @throws {Error} If the copy is aborted or the destination conflicts under the `fail` policy.
+   */
+  async copy(_into: Folder, _options?: UnskippedTransferOptions): Promise<this>
+  async copy(_into: Folder, _options?: TransferOptions): Promise<this | Road>
+  async copy(_into: Folder, _options: TransferOptions = {}): Promise<this | Road> {
+    const transfer = new Transfer(_options)
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory(_into.join(this.name()))
+    await transfer.measure(this.isAt)
+    await transfer.copy(this.isAt, newPath)
+    return new File(newPath) as this
+  }
+  /**
+   * Renames the current node synchronously to the specified path.
+   *
+   * This method asserts that the node is mutable, constructs the new path
+   * by joining the parent directory with the provided `_to` string, and
+   * then renames the file or directory on the filesystem. After renaming,
+   * it updates the internal reference to the new path.
+   *
+   * @param _to - The new name or relative path for the node.
+   * @throws {Error} If the node is not mutable or if the rename operation fails.
+   */
+  rename_sync(_to: string): void {
+    this.assert_mutable()
+    const newPath = this.parent().join(_to)
+    io().rename_sync(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Renames the current node to the specified new name.
+   *
+   * @param _to - The new name for the node.
+   * @returns A promise that resolves when the rename operation is complete.
+   * @throws If the node is not mutable.
+   */
+  async rename(_to: string): Promise<void> {
+    this.assert_mutable()
+    const newPath = this.parent().join(_to)
+    await io().rename(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+}
+
+
+
+/**
+ * Policy for {@link SymbolicLink} entries met during {@link Folder.walk}:
+ * - `skip`: the link is neither yielded nor followed.
+ * - `yield`: the link is yielded as a {@link SymbolicLink} but never followed (default).
+ * - `follow`: the link is yielded and, if it resolves to a folder, its target is descended into, yielding the
+ *   entries under the link's path (e.g. `link/b.txt`). Cycles are detected by device and inode of the folders on the current branch.
+ */
+export type walkSymlinks_t = 'skip' | 'yield' | 'follow'
+/**
+ * Options for {@link Folder.walk} and {@link Folder.walk_sync}.
+ *
+ * @property order - `depth-first` (pre-order, default) or `breadth-first`.
+ * @property maxDepth - Deepest level to yield, where direct children are at depth 1 (default `Infinity`).
+ * @property prune - Called for every entry, returning `true` skips the entry and, for folders, its whole subtree.
+ * @property symlinks - How to handle symbolic links, see {@link walkSymlinks_t}.
+ */
+export interface WalkOptions {
+  order?: 'depth-first' | 'breadth-first'
+  maxDepth?: number
+  prune?: (_entry: Road, _depth: number) => boolean
+  symlinks?: walkSymlinks_t
+}
+/**
+ * A folder scheduled for traversal along with its depth and, when following links,
+ * the device/inode keys of all folders on its branch for cycle detection.
+ * The path may be a followed link, so that entries are yielded under the link rather than under its target.
+ */
+interface WalkFrame {
+  readonly path: string
+  readonly depth: number
+  readonly ancestry: readonly string[]
+}
+function inodeKey(_stats: RoadStats): string {
+  return `${_stats.dev}:${_stats.ino}`
+}
+/**
+ * Asynchronously yields every entry of a frame's folder that survives the walk options,
+ * paired with the frame to descend into next (or `null` if the entry is a leaf for this walk).
+ */
+async function* walkEntries(_frame: WalkFrame, _options: WalkOptions): AsyncGenerator<[Road, WalkFrame | null]> {
+  const depth = _frame.depth + 1
+  const follow = _options.symlinks === 'follow'
+  if (depth > (_options.maxDepth ?? Infinity)) // E.g. `maxDepth: 0` yields nothing at all
+    return
+  for await (const name of io().it_dir(_frame.path)) {
+    const entry = await Road.factory(ph.join(_frame.path, name))
+    if (entry instanceof SymbolicLink && _options.symlinks === 'skip')
+      continue
+    if (_options.prune?.(entry, depth))
+      continue
+    let next: WalkFrame | null = null
+    if (depth < (_options.maxDepth ?? Infinity))
+      if (entry instanceof Folder)
+        next = { path: entry.isAt, depth, ancestry: follow ? [..._frame.ancestry, inodeKey(await entry.stats())] : [] }
+      else if (entry instanceof SymbolicLink && follow) {
+        const targetStats = await statOrNull(entry.isAt) // Dangling links are leaves
+        if (targetStats?.isDirectory() && !_frame.ancestry.includes(inodeKey(targetStats)))
+          next = { path: entry.isAt, depth, ancestry: [..._frame.ancestry, inodeKey(targetStats)] }
+      }
+    yield [entry, next]
+  }
+}
+/**
+ * Synchronous twin of {@link walkEntries}.
+ */
+function* walkEntriesSync(_frame: WalkFrame, _options: WalkOptions): Generator<[Road, WalkFrame | null]> {
+  const depth = _frame.depth + 1
+  const follow = _options.symlinks === 'follow'
+  if (depth > (_options.maxDepth ?? Infinity)) // E.g. `maxDepth: 0` yields nothing at all
+    return
+  for (const name of io().it_dir_sync(_frame.path)) {
+    const entry = Road.factory_sync(ph.join(_frame.path, name))
+    if (entry instanceof SymbolicLink && _options.symlinks === 'skip')
+      continue
+    if (_options.prune?.(entry, depth))
+      continue
+    let next: WalkFrame | null = null
+    if (depth < (_options.maxDepth ?? Infinity))
+      if (entry instanceof Folder)
+        next = { path: entry.isAt, depth, ancestry: follow ? [..._frame.ancestry, inodeKey(entry.stats_sync())] : [] }
+      else if (entry instanceof SymbolicLink && follow) {
+        const targetStats = statOrNullSync(entry.isAt) // Dangling links are leaves
+        if (targetStats?.isDirectory() && !_frame.ancestry.includes(inodeKey(targetStats)))
+          next = { path: entry.isAt, depth, ancestry: [..._frame.ancestry, inodeKey(targetStats)] }
+      }
+    yield [entry, next]
+  }
+}
+
+
+
+
+/**
+ * Expands shell-style braces (`{a,b}`, nested and repeated) into every alternative pattern.
+ * Braces without a top-level comma are kept literally, backslash escapes are left untouched.
+ */
+function expandBraces(_pattern: string): string[] {
+  let depth = 0
+  let open = -1
+  const commas: number[] = []
+  for (let i = 0; i < _pattern.length; i++) {
+    const c = _pattern[i]
+    if (c === '\\')
+      i++
+    else if (c === '{') {
+      if (depth++ === 0) {
+        open = i
+        commas.length = 0
+      }
+    } else if (c === ',' && depth === 1)
+      commas.push(i)
+    else if (c === '}' && depth > 0 && --depth === 0 && commas.length > 0) {
+      const head = _pattern.slice(0, open)
+      const tail = _pattern.slice(i + 1)
+      const bounds = [open, ...commas, i]
+      return bounds.slice(1).flatMap((end, k) => expandBraces(head + _pattern.slice(bounds[k]! + 1, end) + tail))
+    }
+  }
+  return [_pattern]
+}
+/**
+ * Translates a single path segment of a glob (no `/`, no braces) into regular expression source.
+ */
+function globSegmentSource(_segment: string, _dot: boolean): string {
+  let source = _dot || _segment.startsWith('.') ? '' : '(?!\\.)'
+  for (let i = 0; i < _segment.length; i++) {
+    const c = _segment[i]!
+    if (c === '\\' && i + 1 < _segment.length) {
+      const next = _segment[++i]!
+      source += /[a-zA-Z0-9]/.test(next) ? next : `\\${next}`
+    } else if (c === '*')
+      source += '[^/]*'
+    else if (c === '?')
+      source += '[^/]'
+    else if (c === '[' && _segment.indexOf(']', i + 2) !== -1) {
+      const close = _segment.indexOf(']', i + 2)
+      let body = _segment.slice(i + 1, close)
+      const negated = body.startsWith('!') || body.startsWith('^')
+      if (negated)
+        body = body.slice(1)
+      source += `[${negated ? '^/' : ''}${body.replace(/\\/g, '\\\\')}]`
+      i = close
+    } else
+      source += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+  }
+  return source
+}
+/**
+ * Compiles a glob pattern into a regular expression matching `/`-separated relative paths.
+ *
+ * Supported syntax:
+ * - `*` matches any characters within a segment, `?` matches exactly one.
+ * - `**` as a whole segment matches zero or more segments.
+ * - `[abc]`, `[a-z]`, `[!abc]`/`[^abc]` match one character of (or not of) a class.
+ * - `{a,b}` expands to each alternative, braces can be nested.
+ * - `\` escapes the next character.
+ *
+ * Negation (a leading `!`) is not part of a single pattern, see {@link Folder.glob}.
+ *
+ * @param _pattern - The glob pattern to compile.
+ * @param _dot - Whether wildcards also match names starting with a dot (default `false`, like most shells).
+ * @returns A regular expression anchored at both ends.
+ */
+export function globRegExp(_pattern: string, _dot: boolean = false): RegExp {
+  const alternatives = expandBraces(_pattern).map(pattern => {
+    const any = _dot ? '[^/]*' : '(?!\\.)[^/]*'
+    const segments = pattern.split('/')
+    let source = ''
+    segments.forEach((segment, i) => {
+      const last = i === segments.length - 1
+      if (segment === '**')
+        source += last ? `${any}(?:/${any})*` : `(?:${any}/)*`
+      else
+        source += globSegmentSource(segment, _dot) + (last ? '' : '/')
+    })
+    return source
+  })
+  return new RegExp(`^(?:${alternatives.join('|')})$`)
+}
+/**
+ * Options for {@link Folder.glob} and {@link Folder.glob_sync}.
+ *
+ * @property dot - Whether wildcards match names starting with a dot (default `false`).
+ * @property ignoreFiles - Names of `.gitignore`-style files honoured while descending (e.g. `['.gitignore']`).
+ * @property symlinks - How to handle symbolic links while descending, see {@link walkSymlinks_t}.
+ */
+export interface GlobOptions {
+  dot?: boolean
+  ignoreFiles?: string[]
+  symlinks?: walkSymlinks_t
+}
+/**
+ * A single parsed line of an ignore file, relative to the folder that contains it.
+ */
+interface IgnoreRule {
+  readonly base: string
+  readonly matcher: RegExp
+  readonly negated: boolean
+  readonly dirOnly: boolean
+}
+/**
+ * Parses the content of a `.gitignore`-style file located in `_base` into rules.
+ */
+function parseIgnoreRules(_base: string, _content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+  for (let line of _content.split(/\r?\n/)) {
+    line = line.replace(/(?<!\\)\s+$/, '')
+    if (line === '' || line.startsWith('#'))
+      continue
+    const negated = line.startsWith('!')
+    if (negated || line.startsWith('\\!') || line.startsWith('\\#'))
+      line = line.slice(1)
+    const dirOnly = line.endsWith('/')
+    if (dirOnly)
+      line = line.slice(0, -1)
+    const anchored = line.includes('/')
+    if (line.startsWith('/'))
+      line = line.slice(1)
+    rules.push({ base: _base, matcher: globRegExp(anchored ? line : `**/${line}`, true), negated, dirOnly })
+  }
+  return rules
+}
+/**
+ * The walk options and entry predicate shared by {@link Folder.glob} and {@link Folder.glob_sync}.
+ *
+ * Pruning happens inside the synchronous walk predicate, so the ignore rules of a folder have to be loaded
+ * before its entries are walked: the globs load them for the root and for every folder they're yielded.
+ */
+interface GlobPlan {
+  readonly walk: WalkOptions
+  accepts(_entry: Road): boolean
+  load(_folder: string): Promise<void>
+  load_sync(_folder: string): void
+}
+/**
+ * Builds the {@link GlobPlan} of a glob below `_root`.
+ */
+function globPlan(_root: Folder, _patterns: string | string[], _options: GlobOptions): GlobPlan {
+  const patterns = typeof _patterns === 'string' ? [_patterns] : _patterns
+  const dot = _options.dot ?? false
+  const positives = patterns.filter(p => !p.startsWith('!'))
+  const includes = positives.map(p => globRegExp(p, dot))
+  const excludes = patterns.filter(p => p.startsWith('!')).map(p => globRegExp(p.slice(1), dot))
+  const relative = (_from: string, _to: string) => ph.relative(_from, _to).split(ph.sep).join('/')
+  // Without `**` nothing deeper than the longest pattern can match
+  const maxDepth = positives.some(p => p.includes('**')) ? Infinity : Math.max(0, ...positives.flatMap(p => expandBraces(p).map(e => e.split('/').length)))
+
+  const rulesOf: Map<string, IgnoreRule[]> = new Map()
+  const inherited = (_folder: string): IgnoreRule[] =>
+    _folder.startsWith(_root.isAt + ph.sep) ? [...rulesOf.get(ph.dirname(_folder)) ?? []] : []
+  const ignored = (_entry: Road): boolean => {
+    let result = false
+    for (const rule of rulesOf.get(ph.dirname(_entry.isAt)) ?? [])
+      if ((!rule.dirOnly || _entry instanceof Folder) && rule.matcher.test(relative(rule.base, _entry.isAt)))
+        result = !rule.negated
+    return result
+  }
+  const walk: WalkOptions = {
+    maxDepth,
+    prune: entry => ignored(entry) || (entry instanceof Folder && excludes.some(e => e.test(relative(_root.isAt, entry.isAt)))),
+    ...(_options.symlinks ? { symlinks: _options.symlinks } : {})
+  }
+  const accepts = (_entry: Road): boolean => {
+    const path = relative(_root.isAt, _entry.isAt)
+    return includes.some(i => i.test(path)) && !excludes.some(e => e.test(path))
+  }
+  const load = async (_folder: string): Promise<void> => {
+    const rules = inherited(_folder)
+    for (const name of _options.ignoreFiles ?? [])
+      if ((await statOrNull(ph.join(_folder, name)))?.isFile())
+        rules.push(...parseIgnoreRules(_folder, (await io().read_file(ph.join(_folder, name))).toString('utf-8')))
+    rulesOf.set(_folder, rules)
+  }
+  const load_sync = (_folder: string): void => {
+    const rules = inherited(_folder)
+    for (const name of _options.ignoreFiles ?? [])
+      if (statOrNullSync(ph.join(_folder, name))?.isFile())
+        rules.push(...parseIgnoreRules(_folder, io().read_file_sync(ph.join(_folder, name)).toString('utf-8')))
+    rulesOf.set(_folder, rules)
+  }
+  return { walk, accepts, load, load_sync }
+}
+
+
+
+/**
+ * Number of leading bytes hashed by {@link Folder.find_duplicates} before hashing whole files.
+ */
+const PARTIAL_HASH_BYTES = 4 * 1024
+/**
+ * Splits every group by a key and keeps only the resulting groups that still hold more than one file.
+ * Keys of a group are computed concurrently through `_limiter`.
+ */
+async function regroup(_groups: File[][], _key: (_file: File) => Promise<string | number>, _limiter: Limiter): Promise<File[][]> {
+  const result: File[][] = []
+  for (const group of _groups) {
+    const byKey: Map<string | number, File[]> = new Map()
+    const keys = await _limiter.map(group, _key)
+    for (const [i, file] of group.entries()) {
+      const key = keys[i]!
+      byKey.set(key, [...(byKey.get(key) ?? []), file])
+    }
+    result.push(...[...byKey.values()].filter(g => g.length > 1))
+  }
+  return result
+}
+/**
+ * Synchronous twin of {@link regroup}.
+ */
+function regroupSync(_groups: File[][], _key: (_file: File) => string | number): File[][] {
+  const result: File[][] = []
+  for (const group of _groups) {
+    const byKey: Map<string | number, File[]> = new Map()
+    for (const file of group) {
+      const key = _key(file)
+      byKey.set(key, [...(byKey.get(key) ?? []), file])
+    }
+    result.push(...[...byKey.values()].filter(g => g.length > 1))
+  }
+  return result
+}
+/**
+ * Hashes `[relativePath, record]` pairs in path order, so that the digest doesn't depend on directory listing order.
+ */
+function digestRecords(_records: [string, string][], _algorithm: string): string {
+  const hasher = cr.createHash(_algorithm)
+  for (const [path, record] of _records.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0))
+    hasher.update(`${path}\0${record}\n`)
+  return hasher.digest('hex')
+}
+
+
+
+/**
+ * Options for {@link Folder.sync_to}.
+ *
+ * @property compare - Detect changed files by `mtime` and size (default) or by `checksum` of their content.
+ * @property delete - Delete entries in the target that don't exist in the source (default `false`).
+ * @property include - Glob patterns (see {@link globRegExp}) a non-folder entry must match to be synchronised.
+ * @property exclude - Glob patterns of entries to leave alone on both sides, excluded folders are skipped entirely.
+ * @property dryRun - Only compute the plan without touching the target (default `false`).
+ */
+export interface SyncOptions {
+  compare?: 'mtime' | 'checksum'
+  delete?: boolean
+  include?: string[]
+  exclude?: string[]
+  dryRun?: boolean
+}
+/**
+ * A single step of a {@link SyncPlan}.
+ *
+ * @property kind - Whether the entry is created in, updated in or deleted from the target.
+ * @property path - The `/`-separated path of the entry relative to both folders.
+ * @property source - The entry in the source folder, `null` for deletions.
+ * @property target - The entry in the target folder, `null` for creations.
+ */
+export interface SyncAction {
+  readonly kind: 'create' | 'update' | 'delete'
+  readonly path: string
+  readonly source: Road | null
+  readonly target: Road | null
+}
+/**
+ * The difference between a source and a target folder as computed by {@link Folder.sync_to}.
+ *
+ * The plan can be inspected through {@link actions} before it's carried out by {@link apply},
+ * which records every action that actually changed the target in {@link applied}.
+ */
+export class SyncPlan {
+  readonly applied: SyncAction[] = []
+
+  constructor(readonly source: Folder, readonly target: Folder, readonly actions: readonly SyncAction[]) {}
+
+  /**
+   * Applies all pending actions in order: folders are created before their content, files are copied with their
+   * timestamps (so that a later `mtime` comparison sees them as unchanged), links are recreated with their verbatim
+   * target and deletions remove whole subtrees.
+   *
+   * @returns A promise that resolves to the actions applied so far.
+   * @throws {Error} If the target folder isn't mutable or any step fails, {@link applied} holds what was done until then.
+   */
+  async apply(): Promise<SyncAction[]> {
+    this.target.assert_mutable()
+    for (const action of this.actions.slice(this.applied.length)) {
+      const at = this.target.join(...action.path.split('/'))
+      if (action.kind === 'delete' || (action.target && action.source?.constructor !== action.target.constructor) || action.target instanceof SymbolicLink)
+        await action.target?.delete()
+      if (action.source instanceof Folder)
+        await Folder.create(at)
+      else if (action.source instanceof SymbolicLink) // Verbatim, so that relative links stay relative
+        await io().symlink(await io().readlink(action.source.isAt), at)
+      else if (action.source)
+        await action.source.copy(new Folder(ph.dirname(at)), { conflict: 'overwrite', preserve: { times: true } })
+      this.applied.push(action)
+    }
+    return this.applied
+  }
+}
+/**
+ * Decides whether a synchronised entry at `_path` takes part according to the include/exclude filters.
+ */
+function syncFilter(_options: SyncOptions): (_path: string, _isFolder: boolean) => boolean {
+  const includes = (_options.include ?? []).map(p => globRegExp(p, true))
+  const excludes = (_options.exclude ?? []).map(p => globRegExp(p, true))
+  return (_path, _isFolder) => !excludes.some(e => e.test(_path)) && (_isFolder || includes.length === 0 || includes.some(i => i.test(_path)))
+}
+/**
+ * Tells whether a target file differs from its source file according to the comparison mode.
+ */
+async function syncDiffers(_source: File, _target: File, _compare: SyncOptions['compare']): Promise<boolean> {
+  const [sourceStats, targetStats] = [await _source.stats(), await _target.stats()]
+  if (sourceStats.size !== targetStats.size)
+    return true
+  if (_compare === 'checksum')
+    return await _source.hash() !== await _target.hash()
+  return Math.abs(sourceStats.mtimeMs - targetStats.mtimeMs) >= 1 // Copies only carry millisecond precision
+}
+
+
+
+/**
+ * Kind of change reported by {@link Folder.watch}.
+ */
+export type watchEvent_t = 'added' | 'removed' | 'modified' | 'renamed'
+/**
+ * A coalesced change below a watched folder.
+ *
+ * @property kind - What happened to the entry, see {@link watchEvent_t}.
+ * @property path - The absolute path of the entry (its new path for renames).
+ * @property road - The entry as its typed {@link Road} subclass, `null` if it was removed.
+ * @property from - The previous absolute path, only set for renames.
+ */
+export interface WatchEvent {
+  readonly kind: watchEvent_t
+  readonly path: string
+  readonly road: Road | null
+  readonly from?: string
+}
+/**
+ * Options for {@link Folder.watch}.
+ *
+ * @property signal - Stops watching and ends the iteration.
+ * @property debounce - Milliseconds without raw events before pending changes are reported (default 50).
+ * @property recursive - Whether subfolders are watched as well (default `true`).
+ */
+export interface WatchOptions {
+  signal?: AbortSignal
+  debounce?: number
+  recursive?: boolean
+}
+/**
+ * A pending event of a flush, keyed by device and inode so that removals and additions can be paired into renames.
+ */
+interface PendingWatchEvent {
+  kind: watchEvent_t
+  path: string
+  key: string
+  from?: string
+}
+/**
+ * Keeps a snapshot of a folder tree up to date through one non-recursive {@link RoadBackend.watch} per folder.
+ *
+ * Raw events only mark paths as dirty, after the debounce window the dirty paths are reconciled with the
+ * snapshot into typed events. Folders whose inode changed (replaced by another folder) or whose watcher
+ * failed are re-armed and rescanned.
+ */
+class FolderWatcher {
+  readonly snapshot: Map<string, RoadStats> = new Map()
+  readonly watchers: Map<string, RoadWatcher> = new Map()
+  readonly dirty: Map<string, boolean> = new Map() // Path to whether it must be rescanned as a folder
+  readonly queue: WatchEvent[] = []
+  pending: PendingWatchEvent[] = []
+  timer: NodeJS.Timeout | undefined = undefined
+  wake: (() => void) | undefined = undefined
+  failure: { error: unknown } | undefined = undefined
+  closed: boolean = false
+
+  constructor(readonly root: Folder, readonly options: WatchOptions) {
+    this.reconcile(root.isAt, false)
+    if (options.signal?.aborted)
+      this.close()
+    options.signal?.addEventListener('abort', () => this.close(), { once: true })
+  }
+
+  // Raw event handling
+  arm(_folder: string): void {
+    this.watchers.get(_folder)?.close()
+    const watcher = io().watch(_folder)
+    watcher.on('change', (_: string, _name: string | Buffer | null) => this.touch(_name ? ph.join(_folder, _name.toString()) : _folder, !_name))
+    watcher.on('error', () => {
+      watcher.close()
+      this.watchers.delete(_folder)
+      this.touch(_folder, true)
+    })
+    this.watchers.set(_folder, watcher)
+  }
+  touch(_path: string, _rescan: boolean): void {
+    this.dirty.set(_path, (this.dirty.get(_path) ?? false) || _rescan)
+    clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.flush(), this.options.debounce ?? 50)
+  }
+  flush(): void {
+    try {
+      const dirty = [...this.dirty].sort(([a], [b]) => a.length - b.length) // Parents first
+      this.dirty.clear()
+      for (const [path, rescan] of dirty)
+        this.reconcile(path, true, rescan)
+      const pending = this.pending
+      this.pending = []
+      for (const removed of pending.filter(e => e.kind === 'removed')) {
+        const twin = pending.find(e => e.kind === 'added' && e.key === removed.key)
+        if (twin) {
+          twin.kind = 'renamed'
+          twin.from = removed.path
+          pending.splice(pending.indexOf(removed), 1)
+        }
+      }
+      for (const event of pending) {
+        let road: Road | null = null
+        if (event.kind !== 'removed')
+          try {
+            road = Road.factory_sync(event.path)
+          } catch {
+            continue // Gone again already, the next flush reports it
+          }
+        this.queue.push(event.from ? { kind: event.kind, path: event.path, road, from: event.from } : { kind: event.kind, path: event.path, road })
+      }
+    } catch (e) {
+      this.failure = { error: e }
+    }
+    this.wake?.()
+  }
+
+  // Snapshot maintenance
+  reconcile(_path: string, _emit: boolean, _rescan: boolean = false): void {
+    if (!(_path === this.root.isAt || _path.startsWith(this.root.isAt + ph.sep)))
+      return
+    const before = this.snapshot.get(_path)
+    const now = lstatOrNullSync(_path)
+    if (!now)
+      return before ? this.forget(_path, _emit) : undefined
+    if (before && (before.mode & fs.constants.S_IFMT) !== (now.mode & fs.constants.S_IFMT)) {
+      this.forget(_path, _emit)
+      return this.reconcile(_path, _emit)
+    }
+    this.snapshot.set(_path, now)
+    if (_emit && _path !== this.root.isAt) {
+      if (!before)
+        this.pending.push({ kind: 'added', path: _path, key: inodeKey(now) })
+      else if (before.ino !== now.ino || (!now.isDirectory() && (before.mtimeMs !== now.mtimeMs || before.size !== now.size)))
+        this.pending.push({ kind: 'modified', path: _path, key: inodeKey(now) })
+    }
+    if (!now.isDirectory() || (_path !== this.root.isAt && this.options.recursive === false))
+      return
+    if (before && before.ino === now.ino && this.watchers.has(_path) && !_rescan)
+      return
     try {
-      await fp.access(this.isAt, fs.constants.F_OK)
-      return this instanceof roadType(this.isAt)
-    } catch {
-      return false
+      this.arm(_path)
+      const names = new Set(io().readdir_sync(_path))
+      for (const known of [...this.snapshot.keys()].filter(k => ph.dirname(k) === _path && k !== _path))
+        if (!names.has(ph.basename(known)))
+          this.forget(known, _emit)
+      for (const name of names)
+        this.reconcile(ph.join(_path, name), _emit)
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') // Removed while scanning, its parent reports it
+        throw e
     }
   }
-  /**
-   * Synchronously retrieves the file system statistics for the path specified by {@link isAt}.
-   *
-   * @returns {fs.Stats} The file system statistics object for the current path.
-   * @throws {Error} If the path does not exist or an I/O error occurs.
-   */
-  stats_sync(): fs.Stats {
-    return fs.lstatSync(this.isAt)
-  }
-  /**
-   * Asynchronously retrieves the file system statistics for the current node.
-   *
-   * @returns A promise that resolves to an {@link fs.Stats} object containing information about the file or directory at the current path.
-   */
-  async stats(): Promise<fs.Stats> {
-    return fp.lstat(this.isAt)
+  forget(_path: string, _emit: boolean): void {
+    const gone = [...this.snapshot.keys()].filter(k => k === _path || k.startsWith(_path + ph.sep)).reverse()
+    for (const path of gone) {
+      if (_emit)
+        this.pending.push({ kind: 'removed', path, key: inodeKey(this.snapshot.get(path)!) })
+      this.snapshot.delete(path)
+      this.watchers.get(path)?.close()
+      this.watchers.delete(path)
+    }
   }
 
-  // Path methods
-  /**
-   * Calculates the depth of the current node based on the number of path separators
-   * in the {@link isAt} property. The depth is determined by splitting the path using the
-   * platform-specific separator and subtracting one from the resulting segments.
-   *
-   * @returns {number} The depth of the node in the path hierarchy.
-   */
-  depth(): number {
-    return this.isAt.split(ph.sep).length - 1
+  // Consumption
+  async *events(): AsyncGenerator<WatchEvent> {
+    while (!this.closed) {
+      if (this.failure)
+        throw this.failure.error
+      const next = this.queue.shift()
+      if (next)
+        yield next
+      else
+        await new Promise<void>(resolve => this.wake = resolve)
+    }
   }
-  /**
-   * Returns the parent folder of the current node.
-   *
-   * @returns {Folder} A new {@link Folder} instance representing the parent directory of the current node.
-   */
-  parent(): Folder {
-    return new Folder(ph.dirname(this.isAt))
+  close(): void {
+    this.closed = true
+    clearTimeout(this.timer)
+    for (const watcher of this.watchers.values())
+      watcher.close()
+    this.watchers.clear()
+    this.wake?.()
   }
+}
+
+
+
+// Hard links
+/**
+ * Collects paths by the inode they are hard links of, to tell which entries met during a traversal share their content.
+ * Only entries with more than one link are kept, since all others can't share their inode with anything.
+ *
+ * @example
+ * ```typescript
+ * const links = await folder.hardlinks()
+ * for (const group of links.groups())
+ *   console.log('Same content:', group.join(', '))
+ * ```
+ */
+export class HardLinkGroup {
+  protected readonly byInode: Map<string, string[]> = new Map()
+
   /**
-   * Returns an array of ancestor folders for the current folder, traversing up the parent chain.
-   * The traversal continues until a folder is reached whose {@link isAt} property is equal to its parent's {@link isAt} property,
-   * which is assumed to be the root or a sentinel node.
+   * Records an entry met during a traversal.
    *
-   * @returns {Folder[]} An array of ancestor folders, starting from the immediate parent up to (but not including) the root.
+   * @param _path - Where the entry is.
+   * @param _stats - The metadata of the entry itself, as from `lstat`.
+   * @returns `true` if it's the first entry seen of its inode, `false` if the inode was seen under another path before.
    */
-  ancestors(): Folder[] {
-    const result: Folder[] = []
-    let current: Folder = this.parent()
-    while (current.isAt !== current.parent().isAt) {
-      result.push(current)
-      current = current.parent()
+  add(_path: string, _stats: RoadStats): boolean {
+    if (_stats.nlink < 2)
+      return true
+    const paths = this.byInode.get(inodeKey(_stats))
+    if (paths) {
+      paths.push(_path)
+      return false
     }
-    return result
+    this.byInode.set(inodeKey(_stats), [_path])
+    return true
   }
   /**
-   * Returns the base name of the current node's path.
-   *
-   * @returns The base name extracted from the `isAt` property.
+   * The recorded paths of the inode of `_stats`, in the order they were added.
    */
-  name(): string {
-    return ph.basename(this.isAt)
+  paths_of(_stats: RoadStats): string[] {
+    return [...this.byInode.get(inodeKey(_stats)) ?? []]
   }
   /**
-   * Joins the current path (`this.isAt`) with one or more additional path segments.
-   *
-   * @param _paths - One or more string path segments to join to the current path.
-   * @returns The resulting path as a string.
+   * The groups of at least two recorded paths that share an inode.
    */
-  join(..._paths: string[]): string {
-    return ph.join(this.isAt, ..._paths)
+  groups(): string[][] {
+    return [...this.byInode.values()].filter(_paths => _paths.length > 1).map(_paths => [..._paths])
   }
+}
+
+
+
+// Disk usage
+/**
+ * Options for {@link Folder.usage}.
+ *
+ * @property depth - Down to which depth subfolders are reported in {@link FolderUsage.children} (default 0, only totals).
+ * Deeper content still counts towards its ancestors.
+ * @property top - How many of the largest non-folder entries to report in {@link FolderUsage.largest} (default 0).
+ * @property concurrency - How many file system operations the asynchronous scan runs at once, see {@link ConcurrencyOptions}.
+ */
+export interface UsageOptions extends ConcurrencyOptions {
+  depth?: number
+  top?: number
+}
+/**
+ * The space taken by a single entry or a whole subtree.
+ *
+ * @property apparent - The size in bytes as seen when reading the content.
+ * @property allocated - The bytes actually allocated on the storage device (512 byte blocks), less for sparse files.
+ */
+export interface UsageEntry {
+  path: string
+  apparent: number
+  allocated: number
+}
+/**
+ * The space taken by a folder including everything below it, as returned by {@link Folder.usage}.
+ * Hard linked files count once, at the first place they're found. Symbolic links count themselves, not their targets.
+ *
+ * @property files - How many non-folder entries the subtree holds.
+ * @property folders - How many folders the subtree holds, including this one.
+ * @property children - The usage of subfolders within the requested depth, largest allocation first.
+ * @property largest - The largest non-folder entries by allocation, only filled in on the scanned folder.
+ */
+export interface FolderUsage extends UsageEntry {
+  files: number
+  folders: number
+  children: FolderUsage[]
+  largest: UsageEntry[]
+}
+/**
+ * Bookkeeping of a single usage scan: which hard linked inodes were counted already and the largest entries so far.
+ */
+class UsageScan {
+  readonly links: HardLinkGroup = new HardLinkGroup()
+  readonly largest: UsageEntry[] = []
+
+  constructor(readonly options: UsageOptions) {}
 
-  // Access method
   /**
-   * Synchronously checks if the file or directory at the path specified by `this.isAt` is accessible with the given mode.
-   *
-   * @param _mode - The accessibility checks to be performed (default is `fs.constants.F_OK`).
-   * @returns `true` if the file or directory is accessible with the specified mode, `false` if it does not exist or is not accessible.
-   * @throws Rethrows any error that is not `ENOENT` (no such file or directory) or `EACCES` (permission denied).
+   * Starts the usage of a folder from its own metadata.
    */
-  accessible_sync(_mode: number = fs.constants.F_OK): boolean {
-    try {
-      fs.accessSync(this.isAt, _mode)
-      return true
-    } catch (e) {
-      const err = e as NodeJS.ErrnoException
-      if (err?.code === 'ENOENT' || err?.code === 'EACCES')
-        return false
-      throw e
-    }
+  folder(_path: string, _stats: RoadStats): FolderUsage {
+    return { path: _path, apparent: _stats.size, allocated: _stats.blocks * 512, files: 0, folders: 1, children: [], largest: [] }
   }
   /**
-   * Checks if the file or directory at the current path is accessible with the specified mode.
-   *
-   * @param _mode - The accessibility checks to perform (defaults to `fs.constants.F_OK`).
-   * @returns A promise that resolves to `true` if accessible, or `false` if not found or access is denied.
-   * @throws Rethrows any unexpected errors other than 'ENOENT' (not found) or 'EACCES' (permission denied).
+   * Adds a non-folder entry to its folder, unless it's a hard link counted before.
    */
-  async accessible(_mode: number = fs.constants.F_OK): Promise<boolean> {
-    try {
-      await fp.access(this.isAt, _mode)
-      return true
-    } catch (e: unknown) {
-      const err = e as NodeJS.ErrnoException
-      if (err?.code === 'ENOENT' || err?.code === 'EACCES')
-        return false
-      throw e
+  add_entry(_usage: FolderUsage, _path: string, _stats: RoadStats): void {
+    if (!this.links.add(_path, _stats))
+      return
+    const entry = { path: _path, apparent: _stats.size, allocated: _stats.blocks * 512 }
+    _usage.apparent += entry.apparent
+    _usage.allocated += entry.allocated
+    _usage.files++
+    if ((this.options.top ?? 0) > 0) {
+      this.largest.push(entry)
+      this.largest.sort((a, b) => b.allocated - a.allocated || b.apparent - a.apparent)
+      this.largest.length = Math.min(this.largest.length, this.options.top!)
     }
   }
   /**
-   * Waits asynchronously until the file or directory at `this.isAt` becomes accessible with the specified mode.
-   * 
-   * This method first checks if the target is accessible using the provided mode (default is `fs.constants.F_OK`).
-   * If not accessible, it sets up a file system watcher and waits for change events, rechecking accessibility after each event.
-   * The process can be aborted using the provided `AbortSignal`.
-   * An optional callback can be invoked on each unsuccessful attempt.
-   *
-   * @param _mode - The accessibility check mode (e.g., `fs.constants.F_OK`, `fs.constants.R_OK`). Defaults to `fs.constants.F_OK`.
-   * @param _abortSignal - An `AbortSignal` to allow aborting the wait operation.
-   * @param _onEachAttempt - Optional callback invoked after each unsuccessful accessibility check.
-   * @returns A promise that resolves when the target becomes accessible or rejects if aborted.
+   * Adds the usage of a subfolder to its parent at `_depth`, keeping it as child if within the requested depth.
    */
-  async until_accessible(_mode: number = fs.constants.F_OK, _abortSignal: AbortSignal, _onEachAttempt?: () => unknown): Promise<void> {
-    const watcher = fs.watch(this.isAt)
-    try {
-      if (await this.accessible(_mode))
-        return
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      for await (const _ of on(watcher, 'change', { signal: _abortSignal }))
-        if (await this.accessible(_mode))
-          return
-        else
-          await _onEachAttempt?.()
-    } finally {
-      watcher.close()
-    }
+  add_folder(_usage: FolderUsage, _child: FolderUsage, _depth: number): void {
+    _usage.apparent += _child.apparent
+    _usage.allocated += _child.allocated
+    _usage.files += _child.files
+    _usage.folders += _child.folders
+    if (_depth < (this.options.depth ?? 0))
+      _usage.children.push(_child)
   }
   /**
-   * Watches for changes on the file or directory specified by `this.isAt` and executes an optional callback when a change occurs.
-   *
-   * @param _abortSignal - An `AbortSignal` used to cancel the watcher and stop listening for changes.
-   * @param _thenDo - An optional callback function to execute each time a change event is detected.
-   * @returns A `Promise` that resolves when the watcher is closed, either due to an abort signal or after completion.
-   * @async
+   * Orders the children of a finished folder, largest first.
    */
-  async on_change(_abortSignal: AbortSignal, _thenDo?: () => unknown): Promise<void> {
-    const watcher = fs.watch(this.isAt)
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      for await (const _ of on(watcher, 'change', { signal: _abortSignal }))
-        await _thenDo?.()
-    } finally {
-      watcher.close()
-    }
+  finish(_usage: FolderUsage): FolderUsage {
+    _usage.children.sort((a, b) => b.allocated - a.allocated || b.apparent - a.apparent)
+    return _usage
   }
-
-  // Positional methods (abstract)
-  abstract delete_sync(): void
-  abstract delete(): Promise<void>
-  abstract move_sync(_into: Folder): void
-  abstract move(_into: Folder): Promise<void>
-  abstract copy_sync(_into: Folder): this
-  abstract copy(_into: Folder): Promise<this>
-  abstract rename_sync(_to: string): void
-  abstract rename(_to: string): Promise<void>
+}
+/**
+ * Asynchronously measures a folder at `_depth` below the scanned one, sharing the scan's operation limit.
+ * The limit only wraps single operations, so that nested folders can't deadlock waiting for their parents.
+ */
+async function measureUsage(_path: string, _stats: RoadStats, _depth: number, _scan: UsageScan, _limiter: Limiter): Promise<FolderUsage> {
+  const usage = _scan.folder(_path, _stats)
+  const names = await _limiter.run(() => io().readdir(_path))
+  await settleAll(names.map(async name => {
+    const path = ph.join(_path, name)
+    const stats = await _limiter.run(() => io().lstat(path))
+    if (stats.isDirectory())
+      _scan.add_folder(usage, await measureUsage(path, stats, _depth + 1, _scan, _limiter), _depth)
+    else
+      _scan.add_entry(usage, path, stats)
+  }))
+  return _scan.finish(usage)
+}
+/**
+ * Synchronous twin of {@link measureUsage}.
+ */
+function measureUsageSync(_path: string, _stats: RoadStats, _depth: number, _scan: UsageScan): FolderUsage {
+  const usage = _scan.folder(_path, _stats)
+  for (const name of io().it_dir_sync(_path)) {
+    const path = ph.join(_path, name)
+    const stats = io().lstat_sync(path)
+    if (stats.isDirectory())
+      _scan.add_folder(usage, measureUsageSync(path, stats, _depth + 1, _scan), _depth)
+    else
+      _scan.add_entry(usage, path, stats)
+  }
+  return _scan.finish(usage)
 }
 
 
 
 /**
- * Represents a file in the filesystem, providing synchronous and asynchronous methods
- * for reading, writing, appending, copying, moving, renaming, and deleting file content.
- * 
- * Supports both text and binary operations, as well as streaming interfaces for reading
- * and writing. The `File` class extends {@link Road} and is designed to be used in conjunction
- * with the {@link Folder} class for file management tasks.
- * 
- * Methods are provided for both synchronous and asynchronous usage, allowing flexibility
- * depending on the application's requirements.
- * 
- * @method {@link create} - Asynchronously creates a file at the specified path if it does not exist.
- * @method {@link create_sync} - Synchronously creates a file at the specified path if it does not exist.
- * @method {@link read_text_sync} - Synchronously reads the file content as a UTF-8 string.
- * @method {@link read_text} - Asynchronously reads the file content as a UTF-8 string.
- * @method {@link it_lines} - Asynchronously iterates over the lines of the file.
- * @method {@link write_text_sync} - Synchronously writes a UTF-8 string to the file.
- * @method {@link write_text} - Asynchronously writes a UTF-8 string to the file.
- * @method {@link append_text_sync} - Synchronously appends a UTF-8 string to the file.
- * @method {@link append_text} - Asynchronously appends a UTF-8 string to the file.
- * @method {@link read_bytes_sync} - Synchronously reads the file content as a Buffer.
- * @method {@link read_bytes} - Asynchronously reads the file content as a Buffer.
- * @method {@link it_bytes_sync} - Synchronously iterates over the file content in chunks.
- * @method {@link it_bytes} - Asynchronously iterates over the file content in chunks.
- * @method {@link write_bytes_sync} - Synchronously writes a Buffer to the file.
- * @method {@link write_bytes} - Asynchronously writes a Buffer to the file.
- * @method {@link append_bytes_sync} - Synchronously appends a Buffer to the file.
- * @method {@link append_bytes} - Asynchronously appends a Buffer to the file.
- * @method {@link it_bytes_writeable_sync} - Synchronously provides a writable stream for writing file content in chunks.
- * @method {@link it_bytes_writeable} - Asynchronously provides a writable stream for writing file content in chunks.
- * @method {@link create_read_stream} - Creates a readable stream for the file.
- * @method {@link create_write_stream} - Creates a writable stream for the file.
- * @method {@link extension} - Returns the file extension.
- * 
+ * Represents a folder in the filesystem, extending the `Road` class.
+ * Provides synchronous and asynchronous methods for folder creation, traversal, listing, searching, and manipulation.
+ *
+ * @function `create`: Asynchronously creates a folder at the specified path if it does not exist.
+ * @function `create_sync`: Synchronously creates a folder at the specified path if it does not exist.
+ * @method `walk_sync`: Synchronously and lazily walks the whole subtree of the folder.
+ * @method `walk`: Asynchronously and lazily walks the whole subtree of the folder.
+ * @method `glob_sync`: Synchronously lists all entries matching glob patterns.
+ * @method `glob`: Asynchronously lists all entries matching glob patterns.
+ * @method `digest_sync`: Synchronously computes a digest over names and contents of the subtree.
+ * @method `digest`: Asynchronously computes a digest over names and contents of the subtree.
+ * @method `find_duplicates_sync`: Synchronously groups files with identical content.
+ * @method `find_duplicates`: Asynchronously groups files with identical content.
+ * @method `populate`: Asynchronously creates a declarative layout of files, folders and links.
+ * @method `snapshot`: Asynchronously serializes the subtree into the layout `populate` takes.
+ * @method `hardlinks`: Asynchronously groups the entries of the subtree that are hard links of the same inode.
+ * @method `usage`: Asynchronously measures apparent and allocated space per subtree, like `du`.
+ * @method `size`: Asynchronously sums up the apparent size of the subtree.
+ * @method `pack`: Asynchronously packs the content into a (gzip compressed) tar archive.
+ * @method `chmod_recursive`: Asynchronously changes the permission bits of the whole subtree.
+ * @method `chown_recursive`: Asynchronously changes the ownership of the whole subtree.
+ * @method `sync_to`: Asynchronously mirrors the folder into another folder.
+ * @method `watch`: Asynchronously iterates over coalesced changes below the folder.
+ * @method `list_sync`: Synchronously lists entries in the folder, optionally filtering by type.
+ * @method `list`: Asynchronously lists entries in the folder, optionally filtering by type.
+ * @method `find_sync`: Synchronously finds an entry by name, optionally filtering by type.
+ * @method `find`: Asynchronously finds an entry by name, optionally filtering by type.
+ * @method `delete_sync`: Synchronously deletes the folder and its contents.
+ * @method `delete`: Asynchronously deletes the folder and its contents.
+ * @method `move_sync`: Synchronously moves the folder into another folder.
+ * @method `move`: Asynchronously moves the folder into another folder.
+ * @method `copy_sync`: Synchronously copies the folder into another folder.
+ * @method `copy`: Asynchronously copies the folder into another folder.
+ * @method `rename_sync`: Synchronously renames the folder.
+ * @method `rename`: Asynchronously renames the folder.
+ *
  * @remarks
- * - The file path is managed internally and can be updated by operations such as move or rename.
- * - Mutating operations assert that the file is mutable before proceeding.
- * - File extension and parent folder can be accessed via utility methods.
- * 
- * @example
- * ```typescript
- * // Create a new file (async)
- * const file = await File.create('/path/to/file.txt');
- * await file.write_text('Hello, world!');
- * 
- * // Read file content (sync)
- * const content = file.read_text_sync();
- * 
- * // Move file to another folder (async)
- * await file.move(anotherFolder);
- * ```
+ * This class assumes the existence of the `Road` base class and uses Node.js `fs` and `glob` modules for filesystem operations.
  */
-export class File extends Road {
+export class Folder extends Road {
   /**
-   * Creates a new `File` instance at the specified path.
-   * If the file does not exist, it will be created as an empty file.
+   * Creates a new `Folder` instance at the specified path.
+   * If the folder does not exist, it will be created recursively.
    *
-   * @param _at - The file path where the `File` should be created.
-   * @returns A promise that resolves to the created `File` instance.
+   * @param _at - The file system path where the folder should be created or accessed.
+   * @returns A promise that resolves to a `Folder` instance representing the specified path.
    */
-  static async create(_at: string): Promise<File> {
+  static async create(_at: string): Promise<Folder> {
     try {
-      await fp.access(_at, fs.constants.F_OK)
+      await io().access(_at, fs.constants.F_OK)
     } catch {
-      await fp.writeFile(_at, "")
+      await io().mkdir(_at, { recursive: true })
     }
-    return new File(_at)
+    return new Folder(_at)
   }
   /**
-   * Synchronously creates a file at the specified path if it does not already exist.
-   *
-   * @param _at - The file path where the file should be created.
-   * @returns A new instance of the `File` class representing the file at the specified path.
-   * @throws Will throw an error if the file cannot be created or accessed.
+   * Synchronously creates a folder at the specified path if it does not already exist.
+   *
+   * @param _at - The path where the folder should be created.
+   * @returns A new instance of the `Folder` class representing the created or existing folder.
+   * @throws Will throw an error if the folder cannot be created and does not already exist.
    */
-  static create_sync(_at: string): File {
+  static create_sync(_at: string): Folder {
     try {
-      fs.accessSync(_at, fs.constants.F_OK)
+      io().access_sync(_at, fs.constants.F_OK)
     } catch {
-      fs.writeFileSync(_at, "")
+      io().mkdir_sync(_at, { recursive: true })
     }
-    return new File(_at)
+    return new Folder(_at)
   }
 
-  // Reading
+  // Recursive traversal
   /**
-   * Reads the contents of the file at the path specified by `this.isAt` synchronously and returns it a Buffer.
-   * 
-   * @returns {Buffer} The contents of the file as a Buffer.
-   * @throws {Error} If the file cannot be read, an error is thrown.
-   */
-  read_sync(): Buffer
-  /**
-   * Reads the contents of the file at the path specified by `this.isAt` synchronously and returns it as an encoded string.
+   * Asynchronously walks the subtree of this folder and yields every entry as its typed {@link Road} subclass.
+   * Entries are streamed directory by directory instead of being collected up front, the folder itself is not yielded.
    *
-   * @param _encoding - The character encoding to use.
-   * @param _flag - The file system flag.
-   * @returns {string} The contents of the file as a string.
-   * @throws {Error} If the file cannot be read, an error is thrown.
+   * @param _options - Traversal order, depth limit, pruning predicate and symbolic link policy, see {@link WalkOptions}.
+   * @yields Each entry of the subtree that wasn't pruned.
+   * @throws If a folder can't be read or an entry disappears while walking.
+   *
+   * @example
+   * ```typescript
+   * for await (const entry of folder.walk({ prune: e => e.name() === 'node_modules' }))
+   *   if (entry instanceof File && entry.ext() === '.ts')
+   *     console.log(entry.isAt)
+   * ```
    */
-  read_sync(_encoding: BufferEncoding, _flag?: string): string
-  read_sync(_encoding?: BufferEncoding, _flag?: string): Buffer | string {
-    if (_encoding)
-      return fs.readFileSync(this.isAt, { encoding: _encoding, flag: _flag })
-    else
-      return fs.readFileSync(this.isAt)
+  async *walk(_options: WalkOptions = {}): AsyncGenerator<Road> {
+    const root: WalkFrame = { path: this.isAt, depth: 0, ancestry: _options.symlinks === 'follow' ? [inodeKey(await this.stats())] : [] }
+    if (_options.order === 'breadth-first') {
+      const queue: WalkFrame[] = [root]
+      for (let frame = queue.shift(); frame; frame = queue.shift())
+        for await (const [entry, next] of walkEntries(frame, _options)) {
+          yield entry
+          if (next)
+            queue.push(next)
+        }
+    } else {
+      const descend = async function* (_frame: WalkFrame): AsyncGenerator<Road> {
+        for await (const [entry, next] of walkEntries(_frame, _options)) {
+          yield entry
+          if (next)
+            yield* descend(next)
+        }
+      }
+      yield* descend(root)
+    }
   }
   /**
-   * Asynchronously reads the contents of the file at the path specified by `this.isAt` and returns it as a Buffer.
-   * 
-   * @returns {Promise<Buffer>} A promise that resolves to the contents of the file as a Buffer.
-   * @throws If the file cannot be read, the promise is rejected with an error.
-   */
-  async read(): Promise<Buffer>
-  /**
-   * Asynchronously reads the contents of the file at the path specified by `this.isAt` and returns it as an encoded string.
-   * 
-   * @param _encoding - The character encoding to use.
-   * @param _flag - The file system flag.
-   * @returns A promise that resolves to the contents of the file as a string.
-   * @throws If the file cannot be read, the promise is rejected with an error.
+   * Synchronously walks the subtree of this folder and yields every entry as its typed {@link Road} subclass.
+   * Same semantics as {@link walk}.
+   *
+   * @param _options - Traversal order, depth limit, pruning predicate and symbolic link policy, see {@link WalkOptions}.
+   * @yields Each entry of the subtree that wasn't pruned.
+   * @throws If a folder can't be read or an entry disappears while walking.
    */
-  async read(_encoding: BufferEncoding, _flag?: string): Promise<string>
-  async read(_encoding?: BufferEncoding, _flag?: string): Promise<Buffer | string> {
-    if (_encoding)
-      return fp.readFile(this.isAt, { encoding: _encoding, flag: _flag })
-    else
-      return fp.readFile(this.isAt)
+  *walk_sync(_options: WalkOptions = {}): Generator<Road> {
+    const root: WalkFrame = { path: this.isAt, depth: 0, ancestry: _options.symlinks === 'follow' ? [inodeKey(this.stats_sync())] : [] }
+    if (_options.order === 'breadth-first') {
+      const queue: WalkFrame[] = [root]
+      for (let frame = queue.shift(); frame; frame = queue.shift())
+        for (const [entry, next] of walkEntriesSync(frame, _options)) {
+          yield entry
+          if (next)
+            queue.push(next)
+        }
+    } else {
+      const descend = function* (_frame: WalkFrame): Generator<Road> {
+        for (const [entry, next] of walkEntriesSync(_frame, _options)) {
+          yield entry
+          if (next)
+            yield* descend(next)
+        }
+      }
+      yield* descend(root)
+    }
   }
+
+  // glob async overloads
   /**
-   * Asynchronously iterates over the bytes of a file specified by `this.isAt` and yields each chunk as a Buffer.
-   * 
-   * @param _chunkSize - The size of each chunk to read from the file (default is 64KB).
-   * @param _flags - The file system flags to use when opening the file.
-   * @yields {Promise<Buffer>} A promise that resolves to each chunk of bytes read from the file.
-   * @throws {Error} If the file cannot be read, an error is thrown.
+   * Asynchronously finds all entries below this folder whose relative `/`-separated path matches the given glob(s).
+   *
+   * Patterns follow {@link globRegExp}. Patterns prefixed with `!` exclude matches, and an excluding pattern
+   * that matches a folder prunes its whole subtree (e.g. `['**\/*.ts', '!**\/node_modules']`).
+   * Ignore files named in {@link GlobOptions.ignoreFiles} are honoured like `.gitignore`, scoped to the folder they're found in.
+   *
+   * @param _patterns - One or more glob patterns, relative to this folder.
+   * @param _options - Dot file matching, ignore files and symbolic link policy, see {@link GlobOptions}.
+   * @returns A promise that resolves to all matching entries in walk order.
    */
-  async *it_buff(_chunkSize: number = 64 * 1024, _flags?: string): AsyncIterableIterator<Buffer> {
-    const fd = await fp.open(this.isAt, _flags)
-    try {
-      const buffer = Buffer.alloc(_chunkSize)
-      let bytesRead: number
-      do {
-        const readResult = await fd.read(buffer, 0, _chunkSize, null)
-        bytesRead = readResult.bytesRead
-        if (bytesRead > 0)
-          yield buffer.subarray(0, bytesRead)
-      } while (bytesRead === _chunkSize)
-    } finally {
-      await fd.close()
+  async glob(_patterns: string | string[], _options?: GlobOptions): Promise<Road[]>
+  async glob<T extends Road>(_patterns: string | string[], _options: GlobOptions, _expectedType: new (_: string) => T): Promise<T[]>
+  async glob<T extends Road>(_patterns: string | string[], _options: GlobOptions = {}, _expectedType?: new (_: string) => T): Promise<Road[] | T[]> {
+    const plan = globPlan(this, _patterns, _options)
+    const matches: Road[] = []
+    await plan.load(this.isAt)
+    for await (const entry of this.walk(plan.walk)) {
+      if (entry instanceof Folder || entry instanceof SymbolicLink) // Before the walk lists what's inside
+        await plan.load(entry.isAt)
+      if ((!_expectedType || entry instanceof _expectedType) && plan.accepts(entry))
+        matches.push(entry)
     }
+    return matches
   }
+
+  // glob_sync overloads
   /**
-   * Asynchronously iterates over the lines of a file specified by `this.isAt` and yields each line as an encoded string.
-   * 
-   * @param _encoding - The character encoding to use.
-   * @yields {Promise<string>} A promise that resolves to each line of the file as a string.
-   * @throws {Error} If the file cannot be read, an error is thrown.
+   * Synchronously finds all entries below this folder whose relative path matches the given glob(s).
+   * Same semantics as {@link glob}.
+   *
+   * @param _patterns - One or more glob patterns, relative to this folder.
+   * @param _options - Dot file matching, ignore files and symbolic link policy, see {@link GlobOptions}.
+   * @returns All matching entries in walk order.
    */
-  async *it_lines(_encoding: BufferEncoding = 'utf-8', _flags?: string): AsyncIterableIterator<string> {
-    const readStream = fs.createReadStream(this.isAt, { encoding: _encoding, flags: _flags })
-    const rlInterface = rl.createInterface({ input: readStream, crlfDelay: Infinity })
-    try {
-      for await (const line of rlInterface)
-        yield line
-    } finally {
-      rlInterface.close()
-      readStream.destroy()
+  glob_sync(_patterns: string | string[], _options?: GlobOptions): Road[]
+  glob_sync<T extends Road>(_patterns: string | string[], _options: GlobOptions, _expectedType: new (_: string) => T): T[]
+  glob_sync<T extends Road>(_patterns: string | string[], _options: GlobOptions = {}, _expectedType?: new (_: string) => T): Road[] | T[] {
+    const plan = globPlan(this, _patterns, _options)
+    const matches: Road[] = []
+    plan.load_sync(this.isAt)
+    for (const entry of this.walk_sync(plan.walk)) {
+      if (entry instanceof Folder || entry instanceof SymbolicLink) // Before the walk lists what's inside
+        plan.load_sync(entry.isAt)
+      if ((!_expectedType || entry instanceof _expectedType) && plan.accepts(entry))
+        matches.push(entry)
     }
+    return matches
   }
 
-  // Writing
+  // Content comparison
   /**
-   * Creates or overwrites the file at `this.isAt` with the provided data synchronously.
-   * 
-   * @param _data - The data (Buffer or string) to write to the file.
-   * @param _encoding - The character encoding to use if writing a string.
-   * @param _flag - The file system flag to use when writing the file.
-   * @throws {Error} If the node is not mutable or if the file cannot be written.
+   * Asynchronously computes a deterministic digest over the names, types and contents of the whole subtree.
+   * Files contribute their content hash, symbolic links their target text, so two trees with equal digests
+   * have the same layout and content regardless of listing order, timestamps or permissions.
+   *
+   * @param _algorithm - Any hash algorithm supported by `node:crypto` (default `sha256`).
+   * @param _options - How many files are hashed at once, see {@link ConcurrencyOptions}.
+   * @returns A promise that resolves to the hex encoded digest.
    */
-  write_sync(_data: Buffer | string, _encoding?: BufferEncoding, _flag?: string): void {
-    this.assert_mutable()
-    fs.writeFileSync(this.isAt, _data, { encoding: _encoding, flag: _flag })
+  async digest(_algorithm: string = 'sha256', _options: ConcurrencyOptions = {}): Promise<string> {
+    const entries: Road[] = []
+    for await (const entry of this.walk())
+      entries.push(entry)
+    const records = await limiterOf(_options.concurrency).map(entries, async (entry): Promise<[string, string]> => {
+      let payload = ''
+      if (entry instanceof File)
+        payload = await entry.hash(_algorithm)
+      else if (entry instanceof SymbolicLink)
+        payload = await io().readlink(entry.isAt)
+      return [ph.relative(this.isAt, entry.isAt).split(ph.sep).join('/'), `${entry.constructor.name}\0${payload}`]
+    })
+    return digestRecords(records, _algorithm)
   }
   /**
-   * Asynchronously creates or overwrites the file at `this.isAt` with the provided data.
-   * 
-   * @param _data - The data (Buffer or string) to write to the file.
-   * @param _encoding - The character encoding to use if writing a string.
-   * @param _flag - The file system flag to use when writing the file.
-   * @throws {Error} If the node is not mutable or if the file cannot be written.
+   * Synchronously computes a deterministic digest over the names, types and contents of the whole subtree.
+   * See {@link digest}.
+   *
+   * @param _algorithm - Any hash algorithm supported by `node:crypto` (default `sha256`).
+   * @returns The hex encoded digest.
    */
-  async write(_data: Buffer | string, _encoding?: BufferEncoding, _flag?: string): Promise<void> {
-    this.assert_mutable()
-    return fp.writeFile(this.isAt, _data, { encoding: _encoding, flag: _flag })
+  digest_sync(_algorithm: string = 'sha256'): string {
+    const records: [string, string][] = []
+    for (const entry of this.walk_sync()) {
+      let payload = ''
+      if (entry instanceof File)
+        payload = entry.hash_sync(_algorithm)
+      else if (entry instanceof SymbolicLink)
+        payload = io().readlink_sync(entry.isAt)
+      records.push([ph.relative(this.isAt, entry.isAt).split(ph.sep).join('/'), `${entry.constructor.name}\0${payload}`])
+    }
+    return digestRecords(records, _algorithm)
   }
   /**
-   * Appends the provided data to the file at `this.isAt` synchronously.
-   * 
-   * @param _data - The data (Buffer or string) to append to the file.
-   * @param _encoding - The character encoding to use if appending a string.
-   * @param _flag - The file system flag to use when appending to the file.
-   * @throws {Error} If the node is not mutable or if the file cannot be appended to.
+   * Asynchronously finds groups of files with identical content anywhere in the subtree.
+   *
+   * Candidates are narrowed down cheaply: first by size, then by a hash of their leading bytes
+   * and only the remaining ones are hashed completely.
+   *
+   * @param _algorithm - Any hash algorithm supported by `node:crypto` (default `sha256`).
+   * @param _options - How many files are hashed at once, see {@link ConcurrencyOptions}.
+   * @returns A promise that resolves to all groups of two or more files sharing the same content.
    */
-  append_sync(_data: Buffer | string, _encoding?: BufferEncoding, _flag?: string): void {
-    this.assert_mutable()
-    fs.appendFileSync(this.isAt, _data, { encoding: _encoding, flag: _flag })
+  async find_duplicates(_algorithm: string = 'sha256', _options: ConcurrencyOptions = {}): Promise<File[][]> {
+    const limiter = limiterOf(_options.concurrency)
+    const sizes: Map<File, number> = new Map()
+    for await (const entry of this.walk())
+      if (entry instanceof File)
+        sizes.set(entry, (await entry.stats()).size)
+    let groups = await regroup([[...sizes.keys()]], async file => sizes.get(file)!, limiter)
+    groups = await regroup(groups, async file => file.hash(_algorithm, PARTIAL_HASH_BYTES), limiter)
+    return regroup(groups, async file => sizes.get(file)! <= PARTIAL_HASH_BYTES ? '' : file.hash(_algorithm), limiter)
   }
   /**
-   * Asynchronously appends the provided data to the file at `this.isAt`.
-   * 
-   * @param _data - The data (Buffer or string) to append to the file.
-   * @param _encoding - The character encoding to use if appending a string.
-   * @param _flag - The file system flag to use when appending to the file.
-   * @throws {Error} If the node is not mutable or if the file cannot be appended to.
+   * Synchronously finds groups of files with identical content anywhere in the subtree.
+   * See {@link find_duplicates}.
+   *
+   * @param _algorithm - Any hash algorithm supported by `node:crypto` (default `sha256`).
+   * @returns All groups of two or more files sharing the same content.
    */
-  async append(_data: Buffer | string, _encoding?: BufferEncoding, _flag?: string): Promise<void> {
-    this.assert_mutable()
-    return fp.appendFile(this.isAt, _data, { encoding: _encoding, flag: _flag })
+  find_duplicates_sync(_algorithm: string = 'sha256'): File[][] {
+    const files = [...this.walk_sync()].filter(entry => entry instanceof File)
+    const sizes: Map<File, number> = new Map(files.map(file => [file, file.stats_sync().size]))
+    let groups = regroupSync([files], file => sizes.get(file)!)
+    groups = regroupSync(groups, file => file.hash_sync(_algorithm, PARTIAL_HASH_BYTES))
+    return regroupSync(groups, file => sizes.get(file)! <= PARTIAL_HASH_BYTES ? '' : file.hash_sync(_algorithm))
   }
 
-  // Streaming
+  // Permissions
   /**
-   * Creates and returns a readable file stream for the file located at `this.isAt`.
-   *
-   * @returns {fs.ReadStream} A readable stream for the specified file.
-   *
-   * @remarks
-   * This method utilizes Node.js's `fs.createReadStream` to open a stream for reading the file.
-   * Ensure that `this.isAt` contains a valid file path.
+   * Synchronously changes the permission bits of this folder and everything below it, like `chmod -R`.
+   * Symbolic modes are applied to each entry's own mode, so that e.g. `'a+X'` only makes folders searchable.
+   * Symbolic links are skipped.
    *
-   * @throws {Error} If the file does not exist or cannot be opened, an error will be thrown by the underlying `fs` module.
+   * @param _mode - An octal or symbolic mode, see {@link parseMode}.
+   * @throws {Error} If the node is not mutable, the mode is invalid or the OS refuses a change.
    */
-  create_read_stream(): fs.ReadStream {
-    return fs.createReadStream(this.isAt)
+  chmod_recursive_sync(_mode: number | string): void {
+    this.chmod_sync(_mode)
+    for (const entry of this.walk_sync({ symlinks: 'skip' }))
+      entry.chmod_sync(_mode)
   }
   /**
-   * Creates and returns a writable file stream for the current file path.
+   * Asynchronously changes the permission bits of this folder and everything below it, see {@link chmod_recursive_sync}.
    *
-   * @returns {fs.WriteStream} A writable stream for the file at `this.isAt`.
-   * @throws {Error} If the node is not mutable.
+   * @param _mode - An octal or symbolic mode, see {@link parseMode}.
+   * @throws {Error} If the node is not mutable, the mode is invalid or the OS refuses a change.
    */
-  create_write_stream(): fs.WriteStream {
-    this.assert_mutable()
-    return fs.createWriteStream(this.isAt)
+  async chmod_recursive(_mode: number | string): Promise<void> {
+    await this.chmod(_mode)
+    for await (const entry of this.walk({ symlinks: 'skip' }))
+      await entry.chmod(_mode)
   }
   /**
-   * Compares the content and position of this file with another file to determine if they are identical.
+   * Synchronously changes the owner and group of this folder and everything below it, like `chown -R`.
+   * Symbolic links are changed themselves and not followed.
    *
-   * @param _other - The other `File` instance to compare against.
-   * @returns {Promise<boolean>} A promise that resolves to `true` if the contents are identical, or `false` otherwise.
-   * @throws {Error} If either file cannot be read.
+   * @param _uid - The new owning user.
+   * @param _gid - The new owning group (default unchanged per entry).
+   * @throws {Error} If the node is not mutable or the OS refuses a change.
    */
-  async same_as(_other: File): Promise<boolean> {
-    if (this.isAt !== _other.isAt)
-      return false
-    const thisBuffer = await fp.readFile(this.isAt)
-    const otherBuffer = await fp.readFile(_other.isAt)
-    return thisBuffer.equals(otherBuffer)
+  chown_recursive_sync(_uid: number, _gid?: number): void {
+    this.chown_sync(_uid, _gid)
+    for (const entry of this.walk_sync({ symlinks: 'yield' }))
+      entry.chown_sync(_uid, _gid)
   }
   /**
-   * Synchronously compares the content and position of this file with another file to determine if they are identical.
+   * Asynchronously changes the owner and group of this folder and everything below it, see {@link chown_recursive_sync}.
    *
-   * @param _other - The other `File` instance to compare against.
-   * @returns {boolean} `true` if the contents are identical, `false` otherwise.
-   * @throws {Error} If either file cannot be read.
+   * @param _uid - The new owning user.
+   * @param _gid - The new owning group (default unchanged per entry).
+   * @throws {Error} If the node is not mutable or the OS refuses a change.
    */
-  same_as_sync(_other: File): boolean {
-    if (this.isAt !== _other.isAt)
-      return false
-    const thisBuffer = fs.readFileSync(this.isAt)
-    const otherBuffer = fs.readFileSync(_other.isAt)
-    return thisBuffer.equals(otherBuffer)
+  async chown_recursive(_uid: number, _gid?: number): Promise<void> {
+    await this.chown(_uid, _gid)
+    for await (const entry of this.walk({ symlinks: 'yield' }))
+      await entry.chown(_uid, _gid)
   }
 
-  // Properties
+  // Fixtures
   /**
-   * Returns the file extension of the current path stored in `this.isAt`.
+   * Synchronously creates a declarative layout of files, folders and links in this folder, see {@link FixtureTree}.
+   * Existing files are overwritten and existing folders merged. Created entries get the mode `0o644` (files)
+   * or `0o755` (folders) regardless of the umask, unless given with {@link withMode}.
    *
-   * @returns The file extension as a string, including the leading dot (e.g., ".txt").
+   * @param _tree - The layout to create.
+   * @throws {Error} If the node is not mutable, a name leaves this folder or an entry can't be created.
+   *
+   * @example
+   * ```typescript
+   * folder.populate_sync({ 'a/b.txt': 'text', c: { 'd.json': { debug: true } }, link: symlinkTo('a'), 'run.sh': withMode('#!/bin/sh\n', 0o755) })
+   * ```
    */
-  ext(): string {
-    return ph.extname(this.isAt)
+  populate_sync(_tree: FixtureTree): void {
+    this.assert_mutable()
+    for (const [at, entry] of flattenFixture(this.isAt, _tree))
+      createFixtureSync(at, entry)
   }
-
-  // Implement abstract methods
   /**
-   * Synchronously deletes the file at the path specified by `this.isAt`.
-   * 
-   * @throws {Error} If the node is not mutable or if the file cannot be deleted.
-   * @remarks
-   * This method first checks if the node is mutable by calling `assert_mutable()`.
-   * If the check passes, it deletes the file using `fs.unlinkSync`.
+   * Asynchronously creates a declarative layout of files, folders and links in this folder, see {@link populate_sync}.
+   *
+   * @param _tree - The layout to create.
+   * @throws {Error} If the node is not mutable, a name leaves this folder or an entry can't be created.
    */
-  delete_sync(): void {
+  async populate(_tree: FixtureTree): Promise<void> {
     this.assert_mutable()
-    fs.unlinkSync(this.isAt)
+    for (const [at, entry] of flattenFixture(this.isAt, _tree))
+      await createFixture(at, entry)
   }
   /**
-   * Asynchronously deletes the file at the path specified by `this.isAt`.
-   * 
-   * @returns A promise that resolves when the file has been deleted.
-   * @throws {Error} If the node is not mutable or if the file cannot be deleted.
-   * @remarks
-   * This method first checks if the node is mutable by calling `assert_mutable()`.
-   * If the check passes, it deletes the file using `fp.unlink`.
+   * Synchronously serializes the subtree of this folder into the shape {@link populate_sync} takes,
+   * so a whole tree can be compared at once. Modes other than `0o644` for files and `0o755` for folders come as {@link withMode},
+   * symbolic links as {@link symlinkTo} with their stored target.
+   *
+   * @returns The content of this folder.
+   * @throws {Error} If the subtree contains entries other than files, folders and symbolic links.
    */
-  async delete(): Promise<void> {
-    this.assert_mutable()
-    return fp.unlink(this.isAt)
+  snapshot_sync(): FixtureTree {
+    const tree: FixtureTree = {}
+    for (const name of io().readdir_sync(this.isAt).sort())
+      tree[name] = fixtureOfSync(this.join(name), io().lstat_sync(this.join(name)))
+    return tree
   }
   /**
-   * Synchronously moves the file to the specified folder.
+   * Asynchronously serializes the subtree of this folder into the shape {@link populate} takes, see {@link snapshot_sync}.
    *
-   * @param _into - The target folder where the file should be moved.
-   * @throws {Error} If the node is not mutable.
+   * @returns A promise that resolves to the content of this folder.
+   * @throws {Error} If the subtree contains entries other than files, folders and symbolic links.
    */
-  move_sync(_into: Folder): void {
-    this.assert_mutable()
-    const newPath = _into.join(this.name())
-    fs.renameSync(this.isAt, newPath)
-    this.pointsTo = newPath
+  async snapshot(): Promise<FixtureTree> {
+    const tree: FixtureTree = {}
+    for (const name of (await io().readdir(this.isAt)).sort())
+      tree[name] = await fixtureOf(this.join(name), await io().lstat(this.join(name)))
+    return tree
   }
+
+  // Hard links
   /**
-   * Asynchronously moves the file to the specified folder.
+   * Synchronously walks the subtree of this folder and groups its entries by shared inodes, see {@link HardLinkGroup}.
    *
-   * @param _into - The target folder where the file should be moved.
-   * @throws {Error} If the node is not mutable.
+   * @param _options - Traversal options, symbolic links are never followed since they are entries of their own.
+   * @returns The hard links found below this folder.
    */
-  async move(_into: Folder): Promise<void> {
-    this.assert_mutable()
-    const newPath = _into.join(this.name())
-    await fp.rename(this.isAt, newPath)
-    this.pointsTo = newPath
+  hardlinks_sync(_options: Omit<WalkOptions, 'symlinks'> = {}): HardLinkGroup {
+    const links = new HardLinkGroup()
+    for (const entry of this.walk_sync(_options))
+      if (!(entry instanceof Folder))
+        links.add(entry.isAt, entry.stats_sync())
+    return links
   }
   /**
-   * Copies the current file synchronously into the specified folder.
+   * Asynchronously walks the subtree of this folder and groups its entries by shared inodes, see {@link hardlinks_sync}.
    *
-   * @param _into - The destination folder where the file will be copied.
-   * @returns A new instance of the file at the destination path, typed as `this`.
+   * @param _options - Traversal options, symbolic links are never followed since they are entries of their own.
+   * @returns A promise that resolves to the hard links found below this folder.
    */
-  copy_sync(_into: Folder): this {
-    const newPath = _into.join(this.name())
-    fs.copyFileSync(this.isAt, newPath)
-    return new File(newPath) as this
+  async hardlinks(_options: Omit<WalkOptions, 'symlinks'> = {}): Promise<HardLinkGroup> {
+    const links = new HardLinkGroup()
+    for await (const entry of this.walk(_options))
+      if (!(entry instanceof Folder))
+        links.add(entry.isAt, await entry.stats())
+    return links
   }
+
+  // Disk usage
   /**
-   * Asynchronously copies the current file to the specified folder.
+   * Synchronously measures the space taken by this folder and everything below it, like `du`.
    *
-   * @param _into - The destination folder where the file should be copied.
-   * @returns A promise that resolves to a new instance of this file at the new location.
+   * @param _options - Depth of the reported subfolders and number of largest entries, see {@link UsageOptions}.
+   * @returns The {@link FolderUsage} of this folder.
+   * @throws {Error} If an entry can't be listed or inspected.
    */
-  async copy(_into: Folder): Promise<this> {
-    const newPath = _into.join(this.name())
-    await fp.copyFile(this.isAt, newPath)
-    return new File(newPath) as this
+  usage_sync(_options: UsageOptions = {}): FolderUsage {
+    const scan = new UsageScan(_options)
+    const usage = measureUsageSync(this.isAt, this.stats_sync(), 0, scan)
+    usage.largest = scan.largest
+    return usage
   }
   /**
-   * Renames the current node synchronously to the specified path.
+   * Asynchronously measures the space taken by this folder and everything below it, like `du`.
+   * Folders are scanned concurrently, but never with more than `concurrency` operations (and file descriptors) at once.
    *
-   * This method asserts that the node is mutable, constructs the new path
-   * by joining the parent directory with the provided `_to` string, and
-   * then renames the file or directory on the filesystem. After renaming,
-   * it updates the internal reference to the new path.
+   * @param _options - Depth of the reported subfolders, number of largest entries and concurrency, see {@link UsageOptions}.
+   * @returns A promise that resolves to the {@link FolderUsage} of this folder.
+   * @throws {Error} If an entry can't be listed or inspected.
    *
-   * @param _to - The new name or relative path for the node.
-   * @throws {Error} If the node is not mutable or if the rename operation fails.
+   * @example
+   * ```typescript
+   * const { allocated, children, largest } = await cache.usage({ depth: 1, top: 10 })
+   * ```
    */
-  rename_sync(_to: string): void {
-    this.assert_mutable()
-    const newPath = this.parent().join(_to)
-    fs.renameSync(this.isAt, newPath)
-    this.pointsTo = newPath
+  async usage(_options: UsageOptions = {}): Promise<FolderUsage> {
+    const scan = new UsageScan(_options)
+    const usage = await measureUsage(this.isAt, await this.stats(), 0, scan, limiterOf(_options.concurrency))
+    usage.largest = scan.largest
+    return usage
   }
   /**
-   * Renames the current node to the specified new name.
+   * Synchronously sums up the apparent size in bytes of this folder and everything below it, see {@link usage_sync}.
    *
-   * @param _to - The new name for the node.
-   * @returns A promise that resolves when the rename operation is complete.
-   * @throws If the node is not mutable.
+   * @returns The apparent size in bytes, hard linked files counted once.
+   * @throws {Error} If an entry can't be listed or inspected.
    */
-  async rename(_to: string): Promise<void> {
-    this.assert_mutable()
-    const newPath = this.parent().join(_to)
-    await fp.rename(this.isAt, newPath)
-    this.pointsTo = newPath
+  size_sync(): number {
+    return this.usage_sync().apparent
+  }
+  /**
+   * Asynchronously sums up the apparent size in bytes of this folder and everything below it, see {@link usage}.
+   *
+   * @returns A promise that resolves to the apparent size in bytes, hard linked files counted once.
+   * @throws {Error} If an entry can't be listed or inspected.
+   */
+  async size(): Promise<number> {
+    return (await this.usage()).apparent
   }
-}
-
-
 
-/**
- * Represents a folder in the filesystem, extending the `Road` class.
- * Provides synchronous and asynchronous methods for folder creation, traversal, listing, searching, and manipulation.
- *
- * @function `create`: Asynchronously creates a folder at the specified path if it does not exist.
- * @function `create_sync`: Synchronously creates a folder at the specified path if it does not exist.
- * @function `walk_list_sync`: Synchronously lists all entries matching a glob pattern.
- * @function `walk_list`: Asynchronously lists all entries matching a glob pattern.
- * @method `list_sync`: Synchronously lists entries in the folder, optionally filtering by type.
- * @method `list`: Asynchronously lists entries in the folder, optionally filtering by type.
- * @method `find_sync`: Synchronously finds an entry by name, optionally filtering by type.
- * @method `find`: Asynchronously finds an entry by name, optionally filtering by type.
- * @method `delete_sync`: Synchronously deletes the folder and its contents.
- * @method `delete`: Asynchronously deletes the folder and its contents.
- * @method `move_sync`: Synchronously moves the folder into another folder.
- * @method `move`: Asynchronously moves the folder into another folder.
- * @method `copy_sync`: Synchronously copies the folder into another folder.
- * @method `copy`: Asynchronously copies the folder into another folder.
- * @method `rename_sync`: Synchronously renames the folder.
- * @method `rename`: Asynchronously renames the folder.
- *
- * @remarks
- * This class assumes the existence of the `Road` base class and uses Node.js `fs` and `glob` modules for filesystem operations.
- */
-export class Folder extends Road {
+  // Archives
   /**
-   * Creates a new `Folder` instance at the specified path.
-   * If the folder does not exist, it will be created recursively.
+   * Asynchronously packs the content of this folder into a tar archive (POSIX ustar with pax extensions).
    *
-   * @param _at - The file system path where the folder should be created or accessed.
-   * @returns A promise that resolves to a `Folder` instance representing the specified path.
+   * Entries are named relative to this folder and streamed one after another, so that memory use doesn't grow
+   * with the tree. Modes, modification times and symbolic links are kept, symbolic links aren't followed.
+   * The archive may lie inside this folder, it's left out of itself. On failure it's removed again.
+   *
+   * @param _file - Where to write the archive, an existing file is overwritten.
+   * @param _options - Compression, abort signal and progress callback, see {@link ArchiveOptions}.
+   * @returns A promise that resolves to the written archive.
+   * @throws {Error} If an entry can't be read, isn't a file, folder or symbolic link, or the archive can't be written.
+   *
+   * @example
+   * ```typescript
+   * const archive = await build.pack('dist.tar.gz', { gzip: true })
+   * ```
    */
-  static async create(_at: string): Promise<Folder> {
+  async pack(_file: string, _options: ArchiveOptions = {}): Promise<File> {
+    const archive = ph.resolve(_file)
+    const progress: TransferProgress = { bytesDone: 0, bytesTotal: 0, entriesDone: 0, entriesTotal: 0 }
+    if (_options.onProgress)
+      for await (const entry of this.walk({ symlinks: 'yield', prune: entry => entry.isAt === archive })) {
+        progress.entriesTotal++
+        progress.bytesTotal += entry instanceof File ? (await entry.stats()).size : 0
+      }
+    const blocks = Readable.from(tarBlocks(this, archive, _options, progress))
+    const output = io().create_write_stream(archive)
     try {
-      await fp.access(_at, fs.constants.F_OK)
-    } catch {
-      await fp.mkdir(_at, { recursive: true })
+      if (_options.gzip)
+        await pipeline(blocks, zl.createGzip(), output)
+      else
+        await pipeline(blocks, output)
+    } catch (e) {
+      await io().rm(archive, { force: true })
+      throw e
     }
-    return new Folder(_at)
+    return new File(archive)
   }
+
+  // Watching
   /**
-   * Synchronously creates a folder at the specified path if it does not already exist.
+   * Watches this folder (recursively by default) and yields typed, coalesced change events.
    *
-   * @param _at - The path where the folder should be created.
-   * @returns A new instance of the `Folder` class representing the created or existing folder.
-   * @throws Will throw an error if the folder cannot be created and does not already exist.
+   * Raw filesystem notifications are collected until none arrived for the debounce window, then compared with
+   * a snapshot of the tree: an editor saving a file several times yields a single `modified`, an entry that
+   * disappears and reappears with the same inode yields a single `renamed`. Subfolders that are replaced or
+   * added later are watched as well. Iteration ends when the signal aborts or the consumer stops.
+   *
+   * @param _options - Abort signal, debounce window and recursion, see {@link WatchOptions}.
+   * @yields A {@link WatchEvent} for every changed entry below this folder.
+   * @throws If the folder can't be watched or scanned.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of folder.watch({ signal }))
+   *   console.log(event.kind, event.path)
+   * ```
    */
-  static create_sync(_at: string): Folder {
+  async *watch(_options: WatchOptions = {}): AsyncGenerator<WatchEvent> {
+    const watcher = new FolderWatcher(this, _options)
     try {
-      fs.accessSync(_at, fs.constants.F_OK)
-    } catch {
-      fs.mkdirSync(_at, { recursive: true })
+      yield* watcher.events()
+    } finally {
+      watcher.close()
     }
-    return new Folder(_at)
+  }
+
+  // Synchronisation
+  /**
+   * Asynchronously mirrors this folder into another folder, rsync-style.
+   *
+   * Computes a {@link SyncPlan} of entries to create, update and (optionally) delete in the target,
+   * comparing files by modification time and size or by checksum, and applies it unless it's a dry run.
+   * Only entries that differ are touched, copies and deletions go through the regular {@link Road} methods.
+   *
+   * @param _target - The folder to mirror into.
+   * @param _options - Comparison mode, deletion, include/exclude filters and dry run, see {@link SyncOptions}.
+   * @returns A promise that resolves to the plan, whose {@link SyncPlan.applied} lists what was changed.
+   * @throws {Error} If the target lies inside this folder (or the other way around), isn't mutable or a step fails.
+   *
+   * @example
+   * ```typescript
+   * const plan = await build.sync_to(deploy, { delete: true, dryRun: true })
+   * console.table(plan.actions.map(a => [a.kind, a.path]))
+   * await plan.apply()
+   * ```
+   */
+  async sync_to(_target: Folder, _options: SyncOptions = {}): Promise<SyncPlan> {
+    if (_target.isAt === this.isAt || _target.isAt.startsWith(this.isAt + ph.sep) || this.isAt.startsWith(_target.isAt + ph.sep))
+      throw new Error(`Cannot synchronise '${this.isAt}' with overlapping folder '${_target.isAt}'`)
+    const accepts = syncFilter(_options)
+    const relative = (_from: Folder, _entry: Road) => ph.relative(_from.isAt, _entry.isAt).split(ph.sep).join('/')
+    // Entries are looked up without following links, a dangling link is still there to be replaced
+    const lookup = async (_in: Folder, _path: string) => {
+      const at = _in.join(..._path.split('/'))
+      return await lstatOrNull(at) ? Road.factory(at) : null
+    }
+    const actions: SyncAction[] = []
+    const recreated: string[] = [] // Folders whose target is created anew, so their content can't exist yet
+
+    for await (const source of this.walk({ prune: entry => !accepts(relative(this, entry), entry instanceof Folder) })) {
+      const path = relative(this, source)
+      const target = recreated.some(r => path.startsWith(r)) ? null : await lookup(_target, path)
+      if (source instanceof Folder && !(target instanceof Folder))
+        recreated.push(path + '/')
+      if (!target)
+        actions.push({ kind: 'create', path, source, target })
+      else if (target.constructor !== source.constructor)
+        actions.push({ kind: 'update', path, source, target })
+      else if (source instanceof File && await syncDiffers(source, target as File, _options.compare))
+        actions.push({ kind: 'update', path, source, target })
+      else if (source instanceof SymbolicLink && await io().readlink(source.isAt) !== await io().readlink(target.isAt))
+        actions.push({ kind: 'update', path, source, target })
+    }
+    if (_options.delete) {
+      const replaced = new Set(actions.filter(a => a.kind === 'update').map(a => a.path))
+      for await (const target of _target.walk({ prune: entry => !accepts(relative(_target, entry), entry instanceof Folder) || replaced.has(relative(_target, entry)) }))
+        if (!await lookup(this, relative(_target, target)))
+          actions.push({ kind: 'delete', path: relative(_target, target), source: null, target })
+    }
+    // Deleting a folder takes its content along
+    const deleted = actions.filter(a => a.kind === 'delete' && a.target instanceof Folder).map(a => a.path + '/')
+    const plan = new SyncPlan(this, _target, actions.filter(a => !deleted.some(d => a.path.startsWith(d))))
+    if (!_options.dryRun)
+      await plan.apply()
+    return plan
   }
 
   // list_sync overloads
@@ -834,7 +6693,7 @@ export class Folder extends Road {
   list_sync(): Road[]
   list_sync<T extends Road>(expectedType: new (_: string) => T): T[]
   list_sync<T extends Road>(expectedType?: new (_: string) => T): Road[] | T[] {
-    const entries = fs.readdirSync(this.isAt).map(entry => Road.factory_sync(this.join(entry)))
+    const entries = io().readdir_sync(this.isAt).map(entry => Road.factory_sync(this.join(entry)))
     if (!expectedType)
       return entries
     return entries.filter(entry => entry instanceof expectedType) as T[]
@@ -843,14 +6702,17 @@ export class Folder extends Road {
   // list async overloads
   /**
    * Asynchronously lists all entries in the current folder.
+   * Entries are inspected concurrently, but never more than the limiter allows, see {@link ConcurrencyOptions}.
    *
    * @returns A promise that resolves to an array of `Road` instances representing all entries in the folder.
    */
   async list(): Promise<Road[]>
-  async list<T extends Road>(_expectedType: new (_: string) => T): Promise<T[]>
-  async list<T extends Road>(_expectedType?: new (_: string) => T): Promise<Road[] | T[]> {
-    const entries = (await fp.readdir(this.isAt)).map(async entry => Road.factory(this.join(entry)))
-    const resolvedEntries = await Promise.all(entries)
+  async list<T extends Road>(_expectedType: new (_: string) => T, _options?: ConcurrencyOptions): Promise<T[]>
+  async list(_expectedType: null, _options: ConcurrencyOptions): Promise<Road[]>
+  async list<T extends Road>(_expectedType: (new (_: string) => T) | null = null, _options: ConcurrencyOptions = {}): Promise<Road[] | T[]> {
+    const limiter = limiterOf(_options.concurrency)
+    const names = await limiter.run(() => io().readdir(this.isAt))
+    const resolvedEntries = await limiter.map(names, async entry => Road.factory(this.join(entry)))
     if (!_expectedType)
       return resolvedEntries
     return resolvedEntries.filter(entry => entry instanceof _expectedType) as T[]
@@ -867,7 +6729,7 @@ export class Folder extends Road {
   find_sync<T extends Road>(name: string, _expectedType: new (_: string) => T): T | null
   find_sync<T extends Road>(name: string, _expectedType?: new (_: string) => T): Road | T | null {
     try {
-      fs.accessSync(this.join(name), fs.constants.F_OK)
+      io().access_sync(this.join(name), fs.constants.F_OK)
       const found = Road.factory_sync(this.join(name))
       if (!_expectedType)
         return found
@@ -890,7 +6752,7 @@ export class Folder extends Road {
   async find<T extends Road>(name: string, _expectedType: new (_: string) => T): Promise<T | null>
   async find<T extends Road>(name: string, _expectedType?: new (_: string) => T): Promise<Road | T | null> {
     try {
-      await fp.access(this.join(name), fs.constants.F_OK)
+      await io().access(this.join(name), fs.constants.F_OK)
       const found = await Road.factory(this.join(name))
       if (!_expectedType)
         return found
@@ -908,85 +6770,99 @@ export class Folder extends Road {
    * 
    * @remarks
    * This method asserts that the node is mutable before performing the deletion.
-   * It uses `fs.rmdirSync` with the `recursive` option set to `true`, which removes the directory and all its descendants.
+   * It uses {@link RoadBackend.rm_sync} with the `recursive` option set to `true`, which removes the directory and all its descendants.
    * 
    * @throws {Error} If the node is not mutable or if the deletion fails.
    */
   delete_sync(): void {
     this.assert_mutable()
-    fs.rmdirSync(this.isAt, { recursive: true })
+    io().rm_sync(this.isAt, { recursive: true })
   }
   /**
    * Deletes the directory at the current path.
    * 
    * This method asserts that the node is mutable before attempting deletion.
-   * It recursively removes the directory and all of its contents.
+   * It recursively removes the directory and all of its contents, removing the entries of each folder concurrently.
    * 
+   * @param _options - How many entries are removed at once, see {@link ConcurrencyOptions}.
    * @returns A promise that resolves when the directory has been deleted.
    * @throws If the node is not mutable or if the deletion fails.
    */
-  async delete(): Promise<void> {
+  async delete(_options: ConcurrencyOptions = {}): Promise<void> {
     this.assert_mutable()
-    return fp.rmdir(this.isAt, { recursive: true })
+    return removeTree(this.isAt, limiterOf(_options.concurrency))
   }
   /**
-   * Moves the current node synchronously into the specified folder.
+   * Synchronously moves the folder into the specified folder.
+   * Falls back to copying and deleting when the folder is on another device.
    *
-   * This method asserts that the node is mutable, computes the new path by joining
-   * the target folder with the current node's name, and then renames (moves) the node
-   * to the new location using a synchronous file system operation. Updates the internal
-   * reference to the new path.
-   *
-   * @param _into - The target `Folder` instance where this node should be moved.
-   * @throws {Error} If the node is not mutable or if the file system operation fails.
+   * @param _into - The target folder where the folder should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
    */
-  move_sync(_into: Folder): void {
+  move_sync(_into: Folder, _options: TransferOptions = {}): void {
     this.assert_mutable()
-    const newPath = _into.join(this.name())
-    fs.renameSync(this.isAt, newPath)
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return
+    transfer.move_sync(this.isAt, newPath)
     this.pointsTo = newPath
   }
   /**
-   * Moves the current node to a new folder.
-   *
-   * This method asserts that the node is mutable, constructs the new path by joining
-   * the target folder with the current node's name, renames (moves) the node to the new path,
-   * and updates the internal reference to the new location.
+   * Asynchronously moves the folder into the specified folder.
+   * Falls back to copying and deleting when the folder is on another device.
    *
-   * @param _into - The target `Folder` to move this node into.
+   * @param _into - The target folder where the folder should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
    * @returns A promise that resolves when the move operation is complete.
-   * @throws If the node is not mutable or if the rename operation fails.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
    */
-  async move(_into: Folder): Promise<void> {
+  async move(_into: Folder, _options: TransferOptions = {}): Promise<void> {
     this.assert_mutable()
-    const newPath = _into.join(this.name())
-    await fp.rename(this.isAt, newPath)
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return
+    await transfer.move(this.isAt, newPath)
     this.pointsTo = newPath
   }
   /**
-   * Copies the current folder synchronously into the specified target folder.
+   * Copies the current folder synchronously into the specified folder.
    *
-   * @param _into - The target `Folder` instance where the current folder will be copied.
-   * @returns A new instance of the folder at the destination path, typed as `this`.
-   *
-   * @remarks
-   * This method uses `fs.cpSync` to perform a recursive copy of the folder's contents.
-   * The new folder will have the same name as the original and will be located inside the target folder.
+   * @param _into - The destination folder where the folder will be copied.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A new instance of the folder at the destination path, typed as `this`, or the existing entry as its typed {@link Road} subclass if skipped.
+   * @throws {Error} If the copy is aborted or the destination conflicts under the `fail` policy.
    */
-  copy_sync(_into: Folder): this {
-    const newPath = _into.join(this.name())
-    fs.cpSync(this.isAt, newPath, { recursive: true })
+  copy_sync(_into: Folder, _options?: UnskippedTransferOptions): this
+  copy_sync(_into: Folder, _options?: TransferOptions): this | Road
+  copy_sync(_into: Folder, _options: TransferOptions = {}): this | Road {
+    const transfer = new Transfer(_options)
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory_sync(_into.join(this.name()))
+    transfer.measure_sync(this.isAt)
+    transfer.copy_sync(this.isAt, newPath)
     return new Folder(newPath) as this
   }
   /**
-   * Copies the current folder to the specified destination folder.
+   * Asynchronously copies the current folder into the specified folder.
    *
-   * @param _into - The destination `Folder` where the current folder will be copied.
-   * @returns A promise that resolves to the new `Folder` instance at the destination path.
+   * @param _into - The destination folder where the folder will be copied.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A promise that resolves to a new instance of the folder at the destination path, or the existing entry if skipped.
+   * @throws {Error} If the copy is aborted or the destination conflicts under the `fail` policy.
    */
-  async copy(_into: Folder): Promise<this> {
-    const newPath = _into.join(this.name())
-    await fp.cp(this.isAt, newPath, { recursive: true })
+  async copy(_into: Folder, _options?: UnskippedTransferOptions): Promise<this>
+  async copy(_into: Folder, _options?: TransferOptions): Promise<this | Road>
+  async copy(_into: Folder, _options: TransferOptions = {}): Promise<this | Road> {
+    const transfer = new Transfer(_options)
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory(_into.join(this.name()))
+    await transfer.measure(this.isAt)
+    await transfer.copy(this.isAt, newPath)
     return new Folder(newPath) as this
   }
   /**
@@ -994,7 +6870,7 @@ export class Folder extends Road {
    *
    * This method asserts that the node is mutable before proceeding. It constructs
    * the new path by joining the parent directory with the provided `_to` string,
-   * then renames the file or directory on the filesystem using `fs.renameSync`.
+   * then renames the file or directory on the filesystem using {@link RoadBackend.rename_sync}.
    * After renaming, it updates the internal `pointsTo` property to reflect the new path.
    *
    * @param _to - The new name or path for the node relative to its parent.
@@ -1003,7 +6879,7 @@ export class Folder extends Road {
   rename_sync(_to: string): void {
     this.assert_mutable()
     const newPath = this.parent().join(_to)
-    fs.renameSync(this.isAt, newPath)
+    io().rename_sync(this.isAt, newPath)
     this.pointsTo = newPath
   }
   /**
@@ -1016,13 +6892,19 @@ export class Folder extends Road {
   async rename(_to: string): Promise<void> {
     this.assert_mutable()
     const newPath = this.parent().join(_to)
-    await fp.rename(this.isAt, newPath)
+    await io().rename(this.isAt, newPath)
     this.pointsTo = newPath
   }
 }
 
 
 
+/**
+ * What a {@link SymbolicLink} stores for a target: the path of a {@link Road}, a path string as is, or nothing.
+ */
+function linkTarget(_target?: Road | string): string {
+  return typeof _target === 'string' ? _target : _target?.isAt ?? ""
+}
 /**
  * Represents a symbolic link (symlink) in the filesystem, extending the `Road` class.
  * Provides both asynchronous and synchronous methods for creating, deleting, moving, copying,
@@ -1038,6 +6920,10 @@ export class Folder extends Road {
  * // Asynchronously create a symbolic link
  * const symlink = await SymbolicLink.create('/path/to/link', targetRoad);
  *
+ * // Create a link that keeps working when its folder is relocated
+ * const latest = SymbolicLink.create_sync('/releases/latest', 'v2.1.0');
+ * latest.resolve_chain_sync(); // ['/releases/latest', '/releases/v2.1.0']
+ *
  * // Synchronously move a symbolic link
  * symlink.move_sync(newFolder);
  * ```
@@ -1048,15 +6934,13 @@ export class SymbolicLink extends Road {
    * Creates a symbolic link at the specified path if it does not already exist.
    *
    * @param _at - The file system path where the symbolic link should be created.
-   * @param _target - (Optional) The target `Road` object to which the symbolic link should point.
+   * @param _target - (Optional) The target `Road` object to which the symbolic link should point, or a path stored as is.
+   *                  A relative path is resolved against the folder of the link, so it survives relocating the tree.
    * @returns A promise that resolves to a new `SymbolicLink` instance representing the created or existing link.
    */
-  static async create(_at: string, _target?: Road): Promise<SymbolicLink> {
-    try {
-      await fp.access(_at, fs.constants.F_OK)
-    } catch {
-      await fp.symlink(_target?.isAt ?? "", _at)
-    }
+  static async create(_at: string, _target?: Road | string): Promise<SymbolicLink> {
+    if (!await lstatOrNull(_at))
+      await io().symlink(linkTarget(_target), _at)
     return new SymbolicLink(_at)
   }
   /**
@@ -1066,15 +6950,13 @@ export class SymbolicLink extends Road {
    * a new symbolic link is created pointing to the target's path.
    * 
    * @param _at - The file system path where the symbolic link should be created.
-   * @param _target - (Optional) The `Road` instance representing the target of the symbolic link.
+   * @param _target - (Optional) The `Road` instance representing the target of the symbolic link, or a path stored as is.
+   *                  A relative path is resolved against the folder of the link, so it survives relocating the tree.
    * @returns A new `SymbolicLink` instance representing the created or existing link.
    */
-  static create_sync(_at: string, _target?: Road): SymbolicLink {
-    try {
-      fs.accessSync(_at, fs.constants.F_OK)
-    } catch {
-      fs.symlinkSync(_target?.isAt ?? "", _at)
-    }
+  static create_sync(_at: string, _target?: Road | string): SymbolicLink {
+    if (!lstatOrNullSync(_at))
+      io().symlink_sync(linkTarget(_target), _at)
     return new SymbolicLink(_at)
   }
 
@@ -1086,20 +6968,89 @@ export class SymbolicLink extends Road {
    * and uses these values to construct a new `Road` object via `Road.factory_sync`.
    *
    * @returns {Road} The constructed `Road` instance representing the resolved symbolic link.
+   * @throws {Error} If the link is dangling, see {@link is_dangling_sync}.
    */
   target_sync(): Road {
-    return Road.factory_sync(ph.resolve(ph.dirname(this.isAt), fs.readlinkSync(this.isAt)))
+    const target = this.target_path_sync()
+    if (!lstatOrNullSync(target.value))
+      throw new Error(`Symbolic link '${this.isAt}' is dangling, '${target.value}' doesn't exist`)
+    return Road.factory_sync(target.value)
   }
   /**
    * Asynchronously resolves the target of a symbolic link represented by `this.isAt`.
    * Reads the link at the current path, resolves its absolute path, and returns a `Road` instance for the target.
    *
    * @returns {Promise<Road>} A promise that resolves to a `Road` instance representing the target of the symbolic link.
-   * @throws Will throw if reading the symbolic link or resolving the path fails.
+   * @throws {Error} If the link is dangling, see {@link is_dangling}.
    */
   async target(): Promise<Road> {
-    const linkPath = await fp.readlink(this.isAt)
-    return Road.factory(ph.resolve(ph.dirname(this.isAt), linkPath))
+    const target = await this.target_path()
+    if (!await lstatOrNull(target.value))
+      throw new Error(`Symbolic link '${this.isAt}' is dangling, '${target.value}' doesn't exist`)
+    return Road.factory(target.value)
+  }
+  /**
+   * Synchronously reads where the link points to, without requiring the target to exist.
+   * Relative targets are resolved against the folder of the link, use {@link RoadBackend.readlink_sync} for the stored text.
+   *
+   * @returns The absolute path of the target, which may be another symbolic link.
+   */
+  target_path_sync(): PurePath {
+    return new PurePath(ph.resolve(ph.dirname(this.isAt), io().readlink_sync(this.isAt)))
+  }
+  /**
+   * Asynchronously reads where the link points to, without requiring the target to exist, see {@link target_path_sync}.
+   *
+   * @returns A promise that resolves to the absolute path of the target.
+   */
+  async target_path(): Promise<PurePath> {
+    return new PurePath(ph.resolve(ph.dirname(this.isAt), await io().readlink(this.isAt)))
+  }
+  /**
+   * Synchronously follows the link hop by hop through every symbolic link it leads to.
+   * Only the links themselves are followed, links among the parent folders of a hop are left to the OS.
+   *
+   * @returns The absolute paths of the hops, starting with this link and ending with the first path that isn't a link (it may not exist).
+   * @throws {Error} If the chain loops back to one of its hops.
+   */
+  resolve_chain_sync(): string[] {
+    const chain = [ph.resolve(this.isAt)]
+    for (let hop = chain[0]!; lstatOrNullSync(hop)?.isSymbolicLink();) {
+      hop = ph.resolve(ph.dirname(hop), io().readlink_sync(hop))
+      if (chain.includes(hop))
+        throw new Error(`Symbolic link loop at '${this.isAt}': ${[...chain, hop].join(' -> ')}`)
+      chain.push(hop)
+    }
+    return chain
+  }
+  /**
+   * Asynchronously follows the link hop by hop through every symbolic link it leads to, see {@link resolve_chain_sync}.
+   *
+   * @returns A promise that resolves to the absolute paths of the hops, starting with this link.
+   * @throws {Error} If the chain loops back to one of its hops.
+   */
+  async resolve_chain(): Promise<string[]> {
+    const chain = [ph.resolve(this.isAt)]
+    for (let hop = chain[0]!; (await lstatOrNull(hop))?.isSymbolicLink();) {
+      hop = ph.resolve(ph.dirname(hop), await io().readlink(hop))
+      if (chain.includes(hop))
+        throw new Error(`Symbolic link loop at '${this.isAt}': ${[...chain, hop].join(' -> ')}`)
+      chain.push(hop)
+    }
+    return chain
+  }
+  /**
+   * Synchronously checks whether following the link fails to reach an existing entry,
+   * because its target (or that of a later hop) is missing or the chain loops.
+   */
+  is_dangling_sync(): boolean {
+    return !statOrNullSync(this.isAt)
+  }
+  /**
+   * Asynchronously checks whether following the link fails to reach an existing entry, see {@link is_dangling_sync}.
+   */
+  async is_dangling(): Promise<boolean> {
+    return !await statOrNull(this.isAt)
   }
   /**
    * Retargets the current node to a new target synchronously by updating its symbolic link.
@@ -1107,247 +7058,1017 @@ export class SymbolicLink extends Road {
    * This method first asserts that the node is mutable, then deletes the existing symbolic link,
    * and finally creates a new symbolic link pointing to the specified `_newTarget`.
    *
-   * @param _newTarget - The `Road` instance representing the new target location for the symbolic link.
-   * @throws Will throw an error if the node is not mutable or if file system operations fail.
+   * @param _newTarget - The `Road` instance representing the new target location for the symbolic link, or a path stored as is.
+   * @throws Will throw an error if the node is not mutable or if file system operations fail.
+   */
+  retarget_sync(_newTarget: Road | string): void {
+    this.assert_mutable()
+    this.delete_sync()
+    io().symlink_sync(linkTarget(_newTarget), this.isAt)
+  }
+  /**
+   * Retargets the current node to a new target by first ensuring the node is mutable,
+   * deleting the existing target, and then creating a symbolic link to the new target.
+   *
+   * @param _newTarget - The new `Road` instance to which the node should be retargeted, or a path stored as is.
+   * @returns A promise that resolves when the retargeting operation is complete.
+   * @throws If the node is not mutable or if the delete or symlink operations fail.
+   */
+  async retarget(_newTarget: Road | string): Promise<void> {
+    this.assert_mutable()
+    await this.delete()
+    return io().symlink(linkTarget(_newTarget), this.isAt)
+  }
+
+  // Implement abstract methods
+  /**
+   * Synchronously deletes the symbolic link at the current path.
+   *
+   * @throws {Error} If the node is not mutable or if the deletion fails.
+   * @remarks
+   * This method first checks if the node is mutable by calling `assert_mutable()`.
+   * If the check passes, it deletes the symbolic link using {@link RoadBackend.unlink_sync}.
+   */
+  delete_sync(): void {
+    this.assert_mutable()
+    io().unlink_sync(this.isAt)
+  }
+  /**
+   * Asynchronously deletes the symbolic link at the current path.
+   *
+   * @returns A promise that resolves when the symbolic link has been deleted.
+   * @throws {Error} If the node is not mutable or if the deletion fails.
+   * @remarks
+   * This method first checks if the node is mutable by calling `assert_mutable()`.
+   * If the check passes, it deletes the symbolic link using {@link RoadBackend.unlink}.
+   */
+  async delete(): Promise<void> {
+    this.assert_mutable()
+    return io().unlink(this.isAt)
+  }
+  /**
+   * Synchronously moves the symbolic link into the specified folder.
+   * Falls back to copying and deleting when the folder is on another device.
+   *
+   * @param _into - The target folder where the symbolic link should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
+   */
+  move_sync(_into: Folder, _options: TransferOptions = {}): void {
+    this.assert_mutable()
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return
+    transfer.move_sync(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Asynchronously moves the symbolic link into the specified folder.
+   * Falls back to copying and deleting when the folder is on another device.
+   *
+   * @param _into - The target folder where the symbolic link should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
+   * @returns A promise that resolves when the move operation is complete.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
+   */
+  async move(_into: Folder, _options: TransferOptions = {}): Promise<void> {
+    this.assert_mutable()
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return
+    await transfer.move(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Copies the current symbolic link synchronously into the specified folder.
+   *
+   * @param _into - The destination folder where the symbolic link will be copied.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A new instance of the symbolic link at the destination path, typed as `this`, or the existing entry as its typed {@link Road} subclass if skipped.
+   * @throws {Error} If the copy is aborted or the destination conflicts under the `fail` policy.
+   */
+  copy_sync(_into: Folder, _options?: UnskippedTransferOptions): this
+  copy_sync(_into: Folder, _options?: TransferOptions): this | Road
+  copy_sync(_into: Folder, _options: TransferOptions = {}): this | Road {
+    const transfer = new Transfer({ ..._options, preserve: { ..._options.preserve, symlinks: true } })
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory_sync(_into.join(this.name()))
+    transfer.measure_sync(this.isAt)
+    transfer.copy_sync(this.isAt, newPath)
+    return new SymbolicLink(newPath) as this
+  }
+  /**
+   * Asynchronously copies the current symbolic link into the specified folder.
+   *
+   * @param _into - The destination folder where the symbolic link will be copied.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A promise that resolves to a new instance of the symbolic link at the destination path, or the existing entry if skipped.
+   * @throws {Error} If the copy is aborted or the destination conflicts under the `fail` policy.
+   */
+  async copy(_into: Folder, _options?: UnskippedTransferOptions): Promise<this>
+  async copy(_into: Folder, _options?: TransferOptions): Promise<this | Road>
+  async copy(_into: Folder, _options: TransferOptions = {}): Promise<this | Road> {
+    const transfer = new Transfer({ ..._options, preserve: { ..._options.preserve, symlinks: true } })
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory(_into.join(this.name()))
+    await transfer.measure(this.isAt)
+    await transfer.copy(this.isAt, newPath)
+    return new SymbolicLink(newPath) as this
+  }
+  /**
+   * Renames the current node synchronously to the specified new path.
+   *
+   * This method asserts that the node is mutable before proceeding. It constructs
+   * the new path by joining the parent directory with the provided `_to` string,
+   * then renames the file or directory on the filesystem using {@link RoadBackend.rename_sync}.
+   * After renaming, it updates the internal `pointsTo` property to reflect the new path.
+   * @param _to - The new name or path for the node relative to its parent.
+   * @throws {Error} If the node is not mutable or if the rename operation fails.
+   */
+  rename_sync(_to: string): void {
+    this.assert_mutable()
+    const newPath = this.parent().join(_to)
+    io().rename_sync(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Renames the current node to the specified new name.
+   *
+   * @param _to - The new name for the node.
+   * @returns A promise that resolves when the rename operation is complete.
+   * @throws If the node is not mutable.
+   */
+  async rename(_to: string): Promise<void> {
+    this.assert_mutable()
+    const newPath = this.parent().join(_to)
+    await io().rename(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+}
+
+
+
+/**
+ * Abstract base class representing unusable filesystem entries.
+ * 
+ * `UnusuableRoad` is intended for special files or filesystem entries that can't,
+ * or shouldn't, be manipulated (e.g., device files, system-reserved entries).
+ * 
+ * All mutating operations such as delete, move, copy, and rename are overridden
+ * to throw errors, preventing accidental modification that could cause system issues.
+ * 
+ * @remarks
+ * - The `mutable` property is always `false`.
+ * - All mutating methods throw an error when called.
+ * 
+ * @extends Road
+ * 
+ * @abstract
+ */
+export abstract class UnusuableRoad extends Road {
+  override readonly mutable: boolean = false // Modification is most likely to cause system issues (e.g. deleting a device file)
+  constructor(_at: string) {
+    super(_at)
+    Object.freeze(this) // Prevent any modifications to the instance
+  }
+  delete_sync(): never { throw new Error(`Cannot delete type ${this.constructor.name} at '${this.isAt}'`) }
+  async delete(): Promise<never> { throw new Error(`Cannot delete type ${this.constructor.name} at '${this.isAt}'`) }
+  move_sync(): never { throw new Error(`Cannot move type ${this.constructor.name} at '${this.isAt}'`) }
+  async move(): Promise<never> { throw new Error(`Cannot move type ${this.constructor.name} at '${this.isAt}'`) }
+  copy_sync(): never { throw new Error(`Cannot copy type ${this.constructor.name} at '${this.isAt}'`) }
+  async copy(): Promise<never> { throw new Error(`Cannot copy type ${this.constructor.name} at '${this.isAt}'`) }
+  rename_sync(): never { throw new Error(`Cannot rename type ${this.constructor.name} at '${this.isAt}'`) }
+  async rename(): Promise<never> { throw new Error(`Cannot rename type ${this.constructor.name} at '${this.isAt}'`) }
+}
+/**
+ * Represents a block device in the system.
+ * @remarks This class extends {@link UnusuableRoad} and inherits its properties and methods.
+ */
+export class BlockDevice extends UnusuableRoad { }
+/**
+ * Represents a character device in the system.
+ * @remarks This class extends {@link UnusuableRoad} and inherits its properties and methods.
+ */
+export class CharacterDevice extends UnusuableRoad { }
+
+
+
+// Local IPC
+/**
+ * Abstract base class of entries that are endpoints for communication between local processes instead of holding content.
+ * They can be deleted, moved and renamed like any entry, copying recreates what can be recreated (FIFOs, but not sockets).
+ *
+ * @extends Road
+ *
+ * @abstract
+ */
+export abstract class IpcRoad extends Road {
+  /**
+   * An instance of the same class at another path.
+   */
+  protected at(_path: string): this {
+    return new (this.constructor as new (_at: string) => this)(_path)
+  }
+
+  // Implement abstract methods
+  /**
+   * Synchronously removes the entry, open streams stay usable until they are closed.
+   *
+   * @throws {Error} If the node is not mutable or if the deletion fails.
+   */
+  delete_sync(): void {
+    this.assert_mutable()
+    io().unlink_sync(this.isAt)
+  }
+  /**
+   * Asynchronously removes the entry, open streams stay usable until they are closed.
+   *
+   * @returns A promise that resolves when the entry has been deleted.
+   * @throws {Error} If the node is not mutable or if the deletion fails.
+   */
+  async delete(): Promise<void> {
+    this.assert_mutable()
+    return io().unlink(this.isAt)
+  }
+  /**
+   * Synchronously moves the entry into the specified folder.
+   * Falls back to recreating and deleting when the folder is on another device, which fails for sockets.
+   *
+   * @param _into - The target folder where the entry should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
+   */
+  move_sync(_into: Folder, _options: TransferOptions = {}): void {
+    this.assert_mutable()
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return
+    transfer.move_sync(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Asynchronously moves the entry into the specified folder, see {@link move_sync}.
+   *
+   * @param _into - The target folder where the entry should be moved.
+   * @param _options - Abort signal, progress callback and conflict policy, see {@link TransferOptions}.
+   * @returns A promise that resolves when the move operation is complete.
+   * @throws {Error} If the node is not mutable, the move is aborted or the destination conflicts under the `fail` policy.
+   */
+  async move(_into: Folder, _options: TransferOptions = {}): Promise<void> {
+    this.assert_mutable()
+    const transfer = new Transfer(_options, MOVE_PRESERVE)
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return
+    await transfer.move(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Synchronously recreates the entry in the specified folder, nothing that passes through it is copied.
+   *
+   * @param _into - The destination folder.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A new instance at the destination path, or the existing entry as its typed {@link Road} subclass if skipped.
+   * @throws {Error} If the entry can't be recreated (sockets), the copy is aborted or the destination conflicts under the `fail` policy.
+   */
+  copy_sync(_into: Folder, _options?: UnskippedTransferOptions): this
+  copy_sync(_into: Folder, _options?: TransferOptions): this | Road
+  copy_sync(_into: Folder, _options: TransferOptions = {}): this | Road {
+    const transfer = new Transfer(_options)
+    const newPath = transfer.destination_sync(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory_sync(_into.join(this.name()))
+    transfer.measure_sync(this.isAt)
+    transfer.copy_sync(this.isAt, newPath)
+    return this.at(newPath)
+  }
+  /**
+   * Asynchronously recreates the entry in the specified folder, see {@link copy_sync}.
+   *
+   * @param _into - The destination folder.
+   * @param _options - Abort signal, progress callback, conflict policy and what to preserve, see {@link TransferOptions}.
+   * @returns A promise that resolves to a new instance at the destination path, or the existing entry if skipped.
+   * @throws {Error} If the entry can't be recreated (sockets), the copy is aborted or the destination conflicts under the `fail` policy.
+   */
+  async copy(_into: Folder, _options?: UnskippedTransferOptions): Promise<this>
+  async copy(_into: Folder, _options?: TransferOptions): Promise<this | Road>
+  async copy(_into: Folder, _options: TransferOptions = {}): Promise<this | Road> {
+    const transfer = new Transfer(_options)
+    const newPath = await transfer.destination(this.isAt, _into)
+    if (newPath === null)
+      return Road.factory(_into.join(this.name()))
+    await transfer.measure(this.isAt)
+    await transfer.copy(this.isAt, newPath)
+    return this.at(newPath)
+  }
+  /**
+   * Synchronously renames the entry within its folder.
+   *
+   * @param _to - The new name for the node relative to its parent.
+   * @throws {Error} If the node is not mutable or if the rename operation fails.
+   */
+  rename_sync(_to: string): void {
+    this.assert_mutable()
+    const newPath = this.parent().join(_to)
+    io().rename_sync(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+  /**
+   * Asynchronously renames the entry within its folder.
+   *
+   * @param _to - The new name for the node.
+   * @returns A promise that resolves when the rename operation is complete.
+   * @throws {Error} If the node is not mutable or if the rename operation fails.
+   */
+  async rename(_to: string): Promise<void> {
+    this.assert_mutable()
+    const newPath = this.parent().join(_to)
+    await io().rename(this.isAt, newPath)
+    this.pointsTo = newPath
+  }
+}
+/**
+ * Options for opening the streams of a {@link Fifo}.
+ *
+ * @property signal - Aborts waiting for a reader and destroys the opened stream.
+ * @property interval - Milliseconds between attempts of a writer to find a reader (default 100).
+ */
+export interface FifoOptions {
+  signal?: AbortSignal
+  interval?: number
+}
+/**
+ * Represents a FIFO (named pipe) in the system, a one-way channel between local processes.
+ *
+ * Opening never blocks the event loop or the thread pool: a reader opens right away and waits for data,
+ * a writer waits until there is a reader, since writing into a FIFO nobody reads from would fail.
+ * The reading side ends once every writer has closed its stream.
+ *
+ * FIFOs are created with the POSIX `mkfifo` command, so it must be on the `PATH` (it ships with coreutils),
+ * and creating them on the real file system isn't supported on Windows.
+ *
+ * @method {@link create} - Asynchronously creates a FIFO, like `mkfifo`.
+ * @method {@link readable} - Asynchronously opens the FIFO for reading.
+ * @method {@link writable} - Asynchronously opens the FIFO for writing once there is a reader.
+ * @method {@link it_lines} - Asynchronously iterates over the lines written into the FIFO.
+ * @method {@link it_jsonl} - Asynchronously iterates over JSON messages written into the FIFO, one per line.
+ *
+ * @example
+ * ```typescript
+ * const fifo = await Fifo.create('/run/app/commands')
+ * for await (const command of fifo.it_jsonl<Command>({ signal }))
+ *   await execute(command)
+ *
+ * // In another process
+ * const writer = await new Fifo('/run/app/commands').writable()
+ * writer.end(JSON.stringify({ action: 'reload' }) + '\n')
+ * ```
+ *
+ * @extends IpcRoad
+ */
+export class Fifo extends IpcRoad {
+  /**
+   * Asynchronously creates a FIFO at the specified path unless something exists there.
+   *
+   * @param _at - Where to create the FIFO.
+   * @param _mode - The permission bits, restricted by the umask (default `0o666`).
+   * @returns A promise that resolves to the created or existing FIFO.
+   * @throws {Error} If the parent folder doesn't exist, something other than a FIFO exists at the path or the `mkfifo` command is missing.
    */
-  retarget_sync(_newTarget: Road): void {
-    this.assert_mutable()
-    this.delete_sync()
-    fs.symlinkSync(_newTarget.isAt, this.isAt)
+  static async create(_at: string, _mode?: number): Promise<Fifo> {
+    if (!await lstatOrNull(_at))
+      await io().mkfifo(_at, _mode)
+    return new Fifo(_at)
   }
   /**
-   * Retargets the current node to a new target by first ensuring the node is mutable,
-   * deleting the existing target, and then creating a symbolic link to the new target.
+   * Synchronously creates a FIFO at the specified path unless something exists there, see {@link create}.
    *
-   * @param _newTarget - The new `Road` instance to which the node should be retargeted.
-   * @returns A promise that resolves when the retargeting operation is complete.
-   * @throws If the node is not mutable or if the delete or symlink operations fail.
+   * @param _at - Where to create the FIFO.
+   * @param _mode - The permission bits, restricted by the umask (default `0o666`).
+   * @returns The created or existing FIFO.
+   * @throws {Error} If the parent folder doesn't exist, something other than a FIFO exists at the path or the `mkfifo` command is missing.
    */
-  async retarget(_newTarget: Road): Promise<void> {
-    this.assert_mutable()
-    await this.delete()
-    return fp.symlink(_newTarget.isAt, this.isAt)
+  static create_sync(_at: string, _mode?: number): Fifo {
+    if (!lstatOrNullSync(_at))
+      io().mkfifo_sync(_at, _mode)
+    return new Fifo(_at)
   }
 
-  // Implement abstract methods
+  // Streams
   /**
-   * Synchronously deletes the symbolic link at the current path.
+   * Asynchronously opens the FIFO for reading without waiting for a writer.
    *
-   * @throws {Error} If the node is not mutable or if the deletion fails.
-   * @remarks
-   * This method first checks if the node is mutable by calling `assert_mutable()`.
-   * If the check passes, it deletes the symbolic link using `fs.unlinkSync`.
+   * @param _options - An abort signal that destroys the stream, see {@link FifoOptions}.
+   * @returns A promise that resolves to a stream of what writers send, ending once the last of them is done.
+   * @throws {Error} If the FIFO can't be opened, e.g. for missing permissions.
    */
-  delete_sync(): void {
-    this.assert_mutable()
-    fs.unlinkSync(this.isAt)
+  async readable(_options: FifoOptions = {}): Promise<Readable> {
+    _options.signal?.throwIfAborted()
+    const stream = await io().create_fifo_reader(this.isAt)
+    return _options.signal ? addAbortSignal(_options.signal, stream) : stream
   }
   /**
-   * Asynchronously deletes the symbolic link at the current path.
+   * Asynchronously opens the FIFO for writing, polling until a reader has opened it.
    *
-   * @returns A promise that resolves when the symbolic link has been deleted.
-   * @throws {Error} If the node is not mutable or if the deletion fails.
-   * @remarks
-   * This method first checks if the node is mutable by calling `assert_mutable()`.
-   * If the check passes, it deletes the symbolic link using `fp.unlink`.
+   * @param _options - An abort signal to stop waiting and the polling interval, see {@link FifoOptions}.
+   * @returns A promise that resolves to a stream into the FIFO, end it to let the reader finish.
+   * @throws {Error} If the wait is aborted or the FIFO can't be opened.
    */
-  async delete(): Promise<void> {
-    this.assert_mutable()
-    return fp.unlink(this.isAt)
+  async writable(_options: FifoOptions = {}): Promise<Writable> {
+    for (;;) {
+      _options.signal?.throwIfAborted()
+      try {
+        const stream = await io().create_fifo_writer(this.isAt)
+        return _options.signal ? addAbortSignal(_options.signal, stream) : stream
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENXIO')
+          throw e
+      }
+      await inb.sleep(_options.interval ?? 100, _options.signal)
+    }
   }
+
+  // Messages
   /**
-   * Synchronously moves the symbolic link to the specified folder.
+   * Asynchronously iterates over the lines written into the FIFO until the last writer is done.
    *
-   * @param _into - The target folder where the symbolic link should be moved.
-   * @throws {Error} If the node is not mutable.
+   * @param _encoding - The character encoding of the lines.
+   * @param _options - An abort signal that ends the iteration with an error, see {@link FifoOptions}.
+   * @yields Each line without its line break.
    */
-  move_sync(_into: Folder): void {
-    this.assert_mutable()
-    const newPath = _into.join(this.name())
-    fs.renameSync(this.isAt, newPath)
-    this.pointsTo = newPath
+  async *it_lines(_encoding: BufferEncoding = 'utf-8', _options: FifoOptions = {}): AsyncIterableIterator<string> {
+    const stream = await this.readable(_options)
+    const rlInterface = rl.createInterface({ input: stream.setEncoding(_encoding), crlfDelay: Infinity })
+    try {
+      for await (const line of rlInterface)
+        yield line
+    } finally {
+      rlInterface.close()
+      stream.destroy()
+    }
   }
   /**
-   * Moves the current node into the specified folder.
+   * Asynchronously iterates over JSON messages written into the FIFO, one per line, skipping blank lines.
    *
-   * This method asserts that the node is mutable, constructs the new path by joining
-   * the target folder with the current node's name, and then renames (moves) the node
-   * to the new location. After the move, it updates the internal reference to the new path.
-   *
-   * @param _into - The target `Folder` instance where the node should be moved.
-   * @returns A promise that resolves when the move operation is complete.
-   * @throws If the node is not mutable or if the file system operation fails.
+   * @param _options - Reviver and validation hook applied to every message and an abort signal, see {@link JsonReadOptions} and {@link FifoOptions}.
+   * @yields Each parsed (and validated) message.
+   * @throws {ParseError} If a line isn't valid JSON.
+   * @throws {Error} If the validation hook rejects a message.
    */
-  async move(_into: Folder): Promise<void> {
-    this.assert_mutable()
-    const newPath = _into.join(this.name())
-    await fp.rename(this.isAt, newPath)
-    this.pointsTo = newPath
+  async *it_jsonl<T = unknown>(_options: JsonReadOptions<T> & FifoOptions = {}): AsyncIterableIterator<T> {
+    let line = 0
+    for await (const text of this.it_lines('utf-8', _options)) {
+      line++
+      if (text.trim() !== '')
+        yield validateJson(parseJson(text, this.isAt, line, _options.reviver), _options, `${this.isAt}:${line}`)
+    }
+  }
+}
+/**
+ * Called by a {@link SocketServer} for every accepted connection, which it may read from and write to.
+ */
+export type socketHandler_t = (_connection: net.Socket) => unknown
+/**
+ * Options for {@link Socket.listen}.
+ *
+ * @property signal - Closes the server when aborted.
+ * @property onError - Called with errors of connections and of the handler, which then destroys the connection.
+ */
+export interface SocketListenOptions {
+  signal?: AbortSignal
+  onError?: (_error: unknown) => unknown
+}
+/**
+ * A server listening on a unix domain socket, as returned by {@link Socket.listen}.
+ * Closing (or disposing) it ends all connections and removes the socket file, so no stale socket is left behind.
+ */
+export class SocketServer implements AsyncDisposable, Disposable {
+  readonly server: net.Server
+  protected readonly connections: Set<net.Socket> = new Set()
+  protected identity: string | null = null // Of the socket file this server created, see {@link socketIdentity}
+
+  constructor(readonly isAt: string, _handler: socketHandler_t, readonly options: SocketListenOptions = {}) {
+    this.server = net.createServer(_connection => {
+      this.connections.add(_connection)
+      _connection.on('close', () => this.connections.delete(_connection))
+      _connection.on('error', e => this.options.onError?.(e))
+      Promise.resolve().then(() => _handler(_connection)).catch((e: unknown) => {
+        this.options.onError?.(e)
+        _connection.destroy()
+      })
+    })
+    this.server.on('error', e => this.options.onError?.(e))
+    this.server.once('listening', () => { this.identity = socketIdentitySync(this.isAt) })
+    this.options.signal?.addEventListener('abort', () => this.close_sync(), { once: true })
   }
   /**
-   * Creates a symbolic link to the current node within the specified target folder.
-   *
-   * @param _into - The destination folder where the symbolic link will be created.
-   * @returns A new instance of the symbolic link at the new location.
-   *
-   * @remarks
-   * This method synchronously creates a symbolic link using the file system's `symlinkSync` method.
-   * The link will have the same name as the original node and will point to the original target.
+   * Synchronously stops listening, destroys open connections and removes the socket file.
+   * Only the socket file this server created is removed, nothing if it never listened or the file was replaced since.
    */
-  copy_sync(_into: Folder): this {
-    const newPath = _into.join(this.name())
-    const target = this.target_sync()
-    fs.symlinkSync(target.isAt, newPath)
-    return new SymbolicLink(newPath) as this
+  close_sync(): void {
+    this.server.close()
+    for (const connection of this.connections)
+      connection.destroy()
+    unlinkSocketSync(this.isAt, this.identity)
   }
   /**
-   * Asynchronously creates a symbolic link to the current node within the specified target folder.
-   *
-   * @param _into - The destination folder where the symbolic link will be created.
-   * @returns A promise that resolves to a new instance of the symbolic link at the new location.
-   * @remarks
-   * This method uses the asynchronous `symlink` function to create the symbolic link.
-   * The new link will have the same name as the original node and will point to the original target.
+   * Asynchronously stops listening, destroys open connections and removes the socket file, see {@link close_sync}.
    */
-  async copy(_into: Folder): Promise<this> {
-    const newPath = _into.join(this.name())
-    const target = await this.target()
-    await fp.symlink(target.isAt, newPath)
-    return new SymbolicLink(newPath) as this
+  async close(): Promise<void> {
+    const closed = new Promise<void>(resolve => this.server.close(() => resolve()))
+    for (const connection of this.connections)
+      connection.destroy()
+    await closed
+    await unlinkSocket(this.isAt, this.identity)
+  }
+  [Symbol.dispose](): void {
+    this.close_sync()
+  }
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close()
   }
+}
+/**
+ * Represents a unix domain socket in the system, a two-way channel between local processes.
+ *
+ * Sockets only exist on the real file system, so connecting and listening bypass the active {@link RoadBackend}.
+ *
+ * @method {@link connect} - Asynchronously opens a connection to the process listening on the socket.
+ * @method {@link listen} - Asynchronously creates a socket and accepts connections on it.
+ *
+ * @example
+ * ```typescript
+ * await using server = await Socket.listen('/run/app.sock', connection => connection.pipe(connection))
+ * const connection = await new Socket('/run/app.sock').connect()
+ * connection.end('ping')
+ * ```
+ *
+ * @extends IpcRoad
+ */
+export class Socket extends IpcRoad {
   /**
-   * Renames the current node synchronously to the specified new path.
+   * Asynchronously creates a socket at the specified path and accepts connections on it.
+   * A stale socket file left behind by a crashed server is replaced, one that is still listened on is not.
    *
-   * This method asserts that the node is mutable before proceeding. It constructs
-   * the new path by joining the parent directory with the provided `_to` string,
-   * then renames the file or directory on the filesystem using `fs.renameSync`.
-   * After renaming, it updates the internal `pointsTo` property to reflect the new path.
-   * @param _to - The new name or path for the node relative to its parent.
-   * @throws {Error} If the node is not mutable or if the rename operation fails.
+   * @param _at - Where to create the socket.
+   * @param _handler - Called for every accepted connection.
+   * @param _options - Abort signal and error callback, see {@link SocketListenOptions}.
+   * @returns A promise that resolves to the listening server, close or dispose it to remove the socket file.
+   * @throws {Error} If another process listens on the socket or something other than a socket exists at the path.
    */
-  rename_sync(_to: string): void {
-    this.assert_mutable()
-    const newPath = this.parent().join(_to)
-    fs.renameSync(this.isAt, newPath)
-    this.pointsTo = newPath
+  static async listen(_at: string, _handler: socketHandler_t, _options: SocketListenOptions = {}): Promise<SocketServer> {
+    const at = ph.resolve(_at)
+    const stale = await socketIdentity(at)
+    if (stale !== null) {
+      const connection = await connectTo(at).catch(() => null)
+      if (connection) {
+        connection.destroy()
+        throw new Error(`Socket '${at}' is already listened on`)
+      }
+      await unlinkSocket(at, stale)
+    }
+    const server = new SocketServer(at, _handler, _options)
+    await new Promise<void>((resolve, reject) => {
+      server.server.once('error', reject)
+      server.server.listen(at, () => {
+        server.server.off('error', reject)
+        resolve()
+      })
+    })
+    return server
   }
+
+  // Connections
   /**
-   * Renames the current node to the specified new name.
+   * Asynchronously connects to the process listening on the socket.
    *
-   * @param _to - The new name for the node.
-   * @returns A promise that resolves when the rename operation is complete.
-   * @throws If the node is not mutable.
+   * @param _signal - Aborts connecting and destroys the connection later on.
+   * @returns A promise that resolves to the connection, a duplex stream.
+   * @throws {Error} If nobody listens on the socket (`ECONNREFUSED`) or connecting is aborted.
    */
-  async rename(_to: string): Promise<void> {
-    this.assert_mutable()
-    const newPath = this.parent().join(_to)
-    await fp.rename(this.isAt, newPath)
-    this.pointsTo = newPath
+  async connect(_signal?: AbortSignal): Promise<net.Socket> {
+    return connectTo(this.isAt, _signal)
   }
 }
-
-
-
 /**
- * Abstract base class representing unusable filesystem entries.
- * 
- * `UnusuableRoad` is intended for special files or filesystem entries that can't,
- * or shouldn't, be manipulated (e.g., device files, system-reserved entries).
- * 
- * All mutating operations such as delete, move, copy, and rename are overridden
- * to throw errors, preventing accidental modification that could cause system issues.
- * 
- * @remarks
- * - The `mutable` property is always `false`.
- * - All mutating methods throw an error when called.
- * 
- * @extends Road
- * 
- * @abstract
+ * Connects to a unix domain socket, resolving once the connection is established.
  */
-export abstract class UnusuableRoad extends Road {
-  override readonly mutable: boolean = false // Modification is most likely to cause system issues (e.g. deleting a device file)
-  constructor(_at: string) {
-    super(_at)
-    Object.freeze(this) // Prevent any modifications to the instance
-  }
-  delete_sync(): never { throw new Error(`Cannot delete type ${this.constructor.name} at '${this.isAt}'`) }
-  async delete(): Promise<never> { throw new Error(`Cannot delete type ${this.constructor.name} at '${this.isAt}'`) }
-  move_sync(): never { throw new Error(`Cannot move type ${this.constructor.name} at '${this.isAt}'`) }
-  async move(): Promise<never> { throw new Error(`Cannot move type ${this.constructor.name} at '${this.isAt}'`) }
-  copy_sync(): never { throw new Error(`Cannot copy type ${this.constructor.name} at '${this.isAt}'`) }
-  async copy(): Promise<never> { throw new Error(`Cannot copy type ${this.constructor.name} at '${this.isAt}'`) }
-  rename_sync(): never { throw new Error(`Cannot rename type ${this.constructor.name} at '${this.isAt}'`) }
-  async rename(): Promise<never> { throw new Error(`Cannot rename type ${this.constructor.name} at '${this.isAt}'`) }
+async function connectTo(_path: string, _signal?: AbortSignal): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const connection = net.createConnection({ path: _path, ...(_signal ? { signal: _signal } : {}) })
+    connection.once('error', reject)
+    connection.once('connect', () => {
+      connection.off('error', reject)
+      resolve(connection)
+    })
+  })
 }
 /**
- * Represents a block device in the system.
- * @remarks This class extends {@link UnusuableRoad} and inherits its properties and methods.
+ * Identifies the socket file at `_path` by its device and inode, `null` if there is none.
+ *
+ * This and the unlink functions below are the only places that touch socket files, with `fs` directly,
+ * since sockets only exist on the real file system. Removing a socket file only when it's still the one
+ * identified before keeps a server from removing what another process created at the same path since.
  */
-export class BlockDevice extends UnusuableRoad { }
+async function socketIdentity(_path: string): Promise<string | null> {
+  const stats = await fp.lstat(_path).catch(() => null)
+  return stats?.isSocket() ? inodeKey(stats) : null
+}
 /**
- * Represents a character device in the system.
- * @remarks This class extends {@link UnusuableRoad} and inherits its properties and methods.
+ * Synchronous twin of {@link socketIdentity}.
  */
-export class CharacterDevice extends UnusuableRoad { }
+function socketIdentitySync(_path: string): string | null {
+  const stats = fs.lstatSync(_path, { throwIfNoEntry: false })
+  return stats?.isSocket() ? inodeKey(stats) : null
+}
 /**
- * Represents a FIFO (named pipe) in the system.
- * @remarks This class extends {@link UnusuableRoad} and inherits its properties and methods.
+ * Removes the socket file at `_path` if it's still the one with the given identity, see {@link socketIdentity}.
  */
-export class Fifo extends UnusuableRoad { }
+async function unlinkSocket(_path: string, _identity: string | null): Promise<void> {
+  if (_identity !== null && await socketIdentity(_path) === _identity)
+    await fp.rm(_path, { force: true })
+}
 /**
- * Represents a socket in the system.
- * @remarks This class extends {@link UnusuableRoad} and inherits its properties and methods.
+ * Synchronous twin of {@link unlinkSocket}.
  */
-export class Socket extends UnusuableRoad { }
+function unlinkSocketSync(_path: string, _identity: string | null): void {
+  if (_identity !== null && socketIdentitySync(_path) === _identity)
+    fs.rmSync(_path, { force: true })
+}
 
 
 
 /**
- * Represents a file that automatically reloads its content from disk when changed.
+ * Options for {@link LiveFile}.
+ *
+ * @property parse - How the content becomes the value: `'text'` (UTF-8), `'json'` or a custom function (default the raw `Buffer`).
+ * @property debounce - Milliseconds without changes before the file is read again (default 50).
+ * @property keepLastGood - Whether {@link LiveFile.current} keeps the last good value while the file can't be read or parsed
+ *                          (default `true`), otherwise it throws that error until the file is good again.
+ * @property onError - Called with the errors of reloads in the background, of the watcher and of subscribers, which are never thrown.
+ *                    They are emitted as `error` events of {@link LiveFile.events} as well, and become process warnings
+ *                    if neither takes them, so that they never disappear silently.
+ */
+export interface LiveFileOptions<T> {
+  parse?: 'text' | 'json' | ((_content: Buffer) => T)
+  debounce?: number
+  keepLastGood?: boolean
+  onError?: (_error: unknown) => unknown
+}
+/**
+ * Called by a {@link LiveFile} with its new and its previous value after its content changed.
+ */
+export type liveFileListener_t<T> = (_current: T, _previous: T) => unknown
+/**
+ * Represents a file that automatically reloads and parses its content when it changes on disk.
  *
- * This class extends the `File` class and maintains the latest content of the file in memory.
- * It continuously monitors the file for changes and updates its content accordingly.
+ * This class extends the `File` class and keeps the latest parsed value of the file in memory.
+ * Changes are picked up through a watcher on the parent folder, so the file may be deleted and recreated or
+ * replaced by a rename, which is how editors and config management write files.
+ * 
+ * @method `current`: The latest good value of the file.
+ * @method `subscribe`: Registers a listener for changed values.
+ * @method `update_sync`: Synchronously reloads the file.
+ * @method `update`: Asynchronously reloads the file.
  * 
- * @method `update_sync`: Synchronously updates the in-memory content of the file.
- * @method `update`: Asynchronously updates the in-memory content of the file.
+ * @property `events`: Emits `error` with whatever goes wrong in the background, see {@link LiveFileOptions.onError}.
  * 
  * @remarks
+ * - The file is read and parsed once on construction, which throws if that fails.
  * - May be resource intensive for large files or when the file changes rapidly.
- * - Uses an `AbortController` to allow for graceful disposal and stopping of the monitoring loop.
+ * - Uses an `AbortController` to allow for graceful disposal and stopping of the watcher.
  *
  * @example
  * ```typescript
- * const liveFile = new LiveFile('/path/to/file.txt');
- * // Use liveFile as needed...
+ * using config = new LiveFile<Config>('/etc/app.json', { parse: 'json', onError: console.error })
+ * config.subscribe((_now, _before) => reconfigure(_now))
  * ```
  *
  * @extends File
  */
-export class LiveFile extends File implements AsyncDisposable, Disposable {
-  lastReadContent: Buffer = Buffer.alloc(0)
+export class LiveFile<T = Buffer> extends File implements AsyncDisposable, Disposable {
+  lastReadContent: Buffer
   abortController: AbortController = new AbortController()
-  constructor(_at: string) {
+  /**
+   * Why the last reload failed, `null` while the file is good.
+   */
+  error: unknown = null
+  readonly events: EventEmitter = new EventEmitter()
+  protected value: T
+  protected readonly parse: (_content: Buffer) => T
+  protected readonly listeners: Set<liveFileListener_t<T>> = new Set()
+  protected readonly watcher: RoadWatcher
+  protected timer: NodeJS.Timeout | null = null
+  protected reloading: Promise<void> = Promise.resolve()
+
+  constructor(_at: string, readonly options: LiveFileOptions<T> = {}) {
     super(_at)
-    ;(async () => {
-      while (!this.abortController.signal.aborted) {
-        await this.update()
-        await this.on_change(this.abortController.signal)
+    const parse = options.parse
+    this.parse = parse === 'text' ? (_content => _content.toString('utf-8') as T)
+      : parse === 'json' ? (_content => parseJson(_content.toString('utf-8'), this.isAt, 1) as T)
+        : parse ?? (_content => _content as unknown as T)
+    this.lastReadContent = this.read_sync()
+    this.value = this.parse(this.lastReadContent)
+    this.watcher = io().watch(this.parent().isAt)
+    this.watcher.on('change', (_event: string, _name: string | null) => {
+      if (_name === null || _name === this.name())
+        this.schedule()
+    })
+    this.watcher.on('error', (_error: unknown) => this.report(_error))
+    this.abortController.signal.addEventListener('abort', () => {
+      if (this.timer)
+        clearTimeout(this.timer)
+      this.watcher.close()
+      this.listeners.clear()
+      this.events.removeAllListeners()
+    }, { once: true })
+  }
+
+  /**
+   * The latest good value of the file.
+   *
+   * @throws The error of the last reload if it failed and {@link LiveFileOptions.keepLastGood} is off.
+   */
+  get current(): T {
+    if (this.error !== null && !(this.options.keepLastGood ?? true))
+      throw this.error
+    return this.value
+  }
+  /**
+   * Registers a listener that is called whenever a reload yields different content.
+   *
+   * @param _listener - Called with the new and the previous value.
+   * @returns A function that unregisters the listener again.
+   */
+  subscribe(_listener: liveFileListener_t<T>): () => void {
+    this.listeners.add(_listener)
+    return () => this.listeners.delete(_listener)
+  }
+  /**
+   * Hands an error of the background to {@link LiveFileOptions.onError} and the `error` listeners of {@link events},
+   * or to a process warning if there are neither.
+   */
+  protected report(_error: unknown): void {
+    this.options.onError?.(_error)
+    if (this.events.listenerCount('error') > 0)
+      this.events.emit('error', _error)
+    else if (!this.options.onError)
+      process.emitWarning(`Live file '${this.isAt}': ${_error instanceof Error ? _error.message : String(_error)}`, 'LiveFileWarning')
+  }
+  /**
+   * Reloads the file once no further change arrived within the debounce window, reloads never overlap.
+   */
+  protected schedule(): void {
+    if (this.abortController.signal.aborted)
+      return
+    if (this.timer)
+      clearTimeout(this.timer)
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.reloading = this.reloading.then(() => this.update()).catch((_error: unknown) => this.report(_error))
+    }, this.options.debounce ?? 50)
+  }
+  /**
+   * Takes over newly read content: parses it and notifies the listeners if it changed.
+   *
+   * @throws If the content can't be parsed, which is recorded as {@link error}.
+   */
+  protected accept(_content: Buffer): void {
+    const changed = !_content.equals(this.lastReadContent)
+    if (!changed && this.error === null)
+      return
+    let value: T
+    try {
+      value = this.parse(_content)
+    } catch (e) {
+      this.error = e
+      throw e
+    }
+    const previous = this.value
+    this.value = value
+    this.lastReadContent = _content
+    this.error = null
+    if (!changed)
+      return
+    for (const listener of [...this.listeners]) {
+      try {
+        Promise.resolve(listener(value, previous)).catch((_error: unknown) => this.report(_error))
+      } catch (e) {
+        this.report(e)
       }
-    })()
+    }
   }
+  /**
+   * Synchronously reloads the file and notifies the listeners if its content changed.
+   *
+   * @throws If the file can't be read or parsed, which is recorded as {@link error}.
+   */
   update_sync(): void {
-    this.lastReadContent = this.read_sync()
+    let content: Buffer
+    try {
+      content = this.read_sync()
+    } catch (e) {
+      this.error = e
+      throw e
+    }
+    this.accept(content)
   }
+  /**
+   * Asynchronously reloads the file and notifies the listeners if its content changed.
+   *
+   * @throws If the file can't be read or parsed, which is recorded as {@link error}.
+   */
   async update(): Promise<void> {
-    this.lastReadContent = await this.read()
+    let content: Buffer
+    try {
+      content = await this.read()
+    } catch (e) {
+      this.error = e
+      throw e
+    }
+    this.accept(content)
   }
   [Symbol.dispose](): void {
     this.abortController.abort()
   }
   async [Symbol.asyncDispose](): Promise<void> {
     this.abortController.abort()
+    await this.reloading
+  }
+}
+
+
+
+// Fixtures
+/**
+ * A fixture that a plain value can't express: a symbolic link or an entry with a mode, see {@link symlinkTo} and {@link withMode}.
+ * The `content` is the data of a file, the tree of a folder or the target of a link.
+ */
+export class FixtureEntry {
+  constructor(readonly type: 'file' | 'folder' | 'symlink', readonly content: string | Buffer | FixtureTree, readonly mode: number | null = null) {}
+}
+/**
+ * What a name in a {@link FixtureTree} can describe: text or binary files, nested folders as objects, {@link FixtureEntry}s,
+ * and any JSON value for names ending in `.json`.
+ */
+export type fixture_t = string | Buffer | FixtureEntry | FixtureTree | number | boolean | null | fixture_t[]
+/**
+ * A declarative folder layout for {@link Folder.populate} and {@link TempFolder.from}, as returned by {@link Folder.snapshot}.
+ * Names may contain slashes to reach into subfolders, e.g. `'a/b/c.txt': 'text'`.
+ */
+export interface FixtureTree {
+  [_name: string]: fixture_t
+}
+/**
+ * Modes of entries created for fixtures unless given otherwise, independent of the umask so that snapshots are reproducible.
+ */
+const FIXTURE_FILE_MODE = 0o644
+const FIXTURE_FOLDER_MODE = 0o755
+/**
+ * Describes a symbolic link in a {@link FixtureTree}, a relative target is resolved against the folder of the link.
+ */
+export function symlinkTo(_target: string | Road): FixtureEntry {
+  return new FixtureEntry('symlink', linkTarget(_target))
+}
+/**
+ * Describes a file (string or `Buffer` content) or a folder (a {@link FixtureTree}) with specific permission bits.
+ */
+export function withMode(_content: string | Buffer | FixtureTree, _mode: number): FixtureEntry {
+  return new FixtureEntry(typeof _content === 'string' || Buffer.isBuffer(_content) ? 'file' : 'folder', _content, _mode & 0o7777)
+}
+function isFixtureTree(_value: fixture_t): _value is FixtureTree {
+  return typeof _value === 'object' && _value !== null && !Buffer.isBuffer(_value) && !Array.isArray(_value) && !(_value instanceof FixtureEntry)
+}
+/**
+ * Lists what to create for a fixture tree below `_at`, parents before their content.
+ * Folders a name with slashes passes through are listed without a mode, so that existing ones keep theirs.
+ */
+function flattenFixture(_at: string, _tree: FixtureTree, _into: [string, FixtureEntry][] = []): [string, FixtureEntry][] {
+  for (const [key, value] of Object.entries(_tree)) {
+    const parts = key.split(/[\\/]+/).filter(_part => _part !== '' && _part !== '.')
+    if (parts.length === 0 || parts.includes('..'))
+      throw new Error(`Invalid fixture name '${key}'`)
+    let at = _at
+    for (const part of parts.slice(0, -1)) {
+      at = ph.join(at, part)
+      _into.push([at, new FixtureEntry('folder', {})])
+    }
+    at = ph.join(at, parts.at(-1)!)
+    let entry: FixtureEntry
+    if (value instanceof FixtureEntry)
+      entry = value
+    else if (typeof value === 'string' || Buffer.isBuffer(value))
+      entry = new FixtureEntry('file', value)
+    else if (ph.extname(at) === '.json')
+      entry = new FixtureEntry('file', stringifyJson(value, {}))
+    else if (isFixtureTree(value))
+      entry = new FixtureEntry('folder', value)
+    else
+      throw new Error(`Invalid fixture at '${at}': ${JSON.stringify(value)} is neither content nor a folder`)
+    _into.push([at, entry])
+    if (entry.type === 'folder')
+      flattenFixture(at, entry.content as FixtureTree, _into)
+  }
+  return _into
+}
+/**
+ * Synchronously creates one flattened fixture entry, see {@link flattenFixture}.
+ */
+function createFixtureSync(_at: string, _entry: FixtureEntry): void {
+  const existing = lstatOrNullSync(_at)
+  if (_entry.type === 'symlink') {
+    if (existing)
+      io().rm_sync(_at, { recursive: true })
+    return io().symlink_sync(_entry.content as string, _at)
+  }
+  if (_entry.type === 'folder') {
+    if (existing && !existing.isDirectory())
+      throw new Error(`Fixture folder '${_at}' conflicts with an existing entry`)
+    if (!existing)
+      io().mkdir_sync(_at)
+  } else
+    io().write_file_sync(_at, _entry.content as string | Buffer)
+  if (!existing || _entry.mode !== null)
+    io().chmod_sync(_at, _entry.mode ?? (_entry.type === 'folder' ? FIXTURE_FOLDER_MODE : FIXTURE_FILE_MODE))
+}
+/**
+ * Asynchronous twin of {@link createFixtureSync}.
+ */
+async function createFixture(_at: string, _entry: FixtureEntry): Promise<void> {
+  const existing = await lstatOrNull(_at)
+  if (_entry.type === 'symlink') {
+    if (existing)
+      await io().rm(_at, { recursive: true })
+    return io().symlink(_entry.content as string, _at)
   }
+  if (_entry.type === 'folder') {
+    if (existing && !existing.isDirectory())
+      throw new Error(`Fixture folder '${_at}' conflicts with an existing entry`)
+    if (!existing)
+      await io().mkdir(_at)
+  } else
+    await io().write_file(_at, _entry.content as string | Buffer)
+  if (!existing || _entry.mode !== null)
+    await io().chmod(_at, _entry.mode ?? (_entry.type === 'folder' ? FIXTURE_FOLDER_MODE : FIXTURE_FILE_MODE))
+}
+/**
+ * Turns a file back into a fixture: text if it's valid UTF-8, otherwise a `Buffer`, wrapped by {@link withMode} unless the mode is the default.
+ * JSON files that read back exactly as {@link Folder.populate} writes them become their object or array again.
+ */
+function fixtureFile(_at: string, _content: Buffer, _mode: number): fixture_t {
+  const text = _content.toString('utf-8')
+  const data = Buffer.from(text, 'utf-8').equals(_content) ? text : _content
+  if (_mode !== FIXTURE_FILE_MODE)
+    return withMode(data, _mode)
+  if (data === text && ph.extname(_at) === '.json') {
+    try {
+      const value = JSON.parse(text) as fixture_t
+      if (typeof value === 'object' && value !== null && stringifyJson(value, {}) === text)
+        return value as fixture_t[] | FixtureTree
+    } catch {
+      // Not JSON after all, keep the text
+    }
+  }
+  return data
+}
+/**
+ * Synchronously serializes the entry at `_at` into a fixture, see {@link Folder.snapshot_sync}.
+ */
+function fixtureOfSync(_at: string, _stats: RoadStats): fixture_t {
+  const mode = _stats.mode & 0o7777
+  if (_stats.isSymbolicLink())
+    return symlinkTo(io().readlink_sync(_at))
+  if (_stats.isDirectory()) {
+    const tree: FixtureTree = {}
+    for (const name of io().readdir_sync(_at).sort())
+      tree[name] = fixtureOfSync(ph.join(_at, name), io().lstat_sync(ph.join(_at, name)))
+    return mode === FIXTURE_FOLDER_MODE ? tree : withMode(tree, mode)
+  }
+  if (!_stats.isFile())
+    throw new Error(`Cannot snapshot type ${roadType(_stats.mode).name} at '${_at}'`)
+  return fixtureFile(_at, io().read_file_sync(_at), mode)
+}
+/**
+ * Asynchronous twin of {@link fixtureOfSync}.
+ */
+async function fixtureOf(_at: string, _stats: RoadStats): Promise<fixture_t> {
+  const mode = _stats.mode & 0o7777
+  if (_stats.isSymbolicLink())
+    return symlinkTo(await io().readlink(_at))
+  if (_stats.isDirectory()) {
+    const tree: FixtureTree = {}
+    for (const name of (await io().readdir(_at)).sort())
+      tree[name] = await fixtureOf(ph.join(_at, name), await io().lstat(ph.join(_at, name)))
+    return mode === FIXTURE_FOLDER_MODE ? tree : withMode(tree, mode)
+  }
+  if (!_stats.isFile())
+    throw new Error(`Cannot snapshot type ${roadType(_stats.mode).name} at '${_at}'`)
+  return fixtureFile(_at, await io().read_file(_at), mode)
 }
 
 
@@ -1371,7 +8092,7 @@ export class LiveFile extends File implements AsyncDisposable, Disposable {
 export class TempFile extends File implements AsyncDisposable, Disposable {
   override readonly mutable: boolean = true // Must be mutable to allow deletion
   constructor() {
-    super(File.create_sync(ph.join(os.tmpdir(), `tempfile_${Date.now()}_${crypto.randomUUID()}.tmp`)).isAt)
+    super(File.create_sync(ph.join(os.tmpdir(), `tempfile_${Date.now()}_${cr.randomUUID()}.tmp`)).isAt)
   }
   [Symbol.dispose](): void {
     this.delete_sync()
@@ -1397,12 +8118,46 @@ export class TempFile extends File implements AsyncDisposable, Disposable {
  * ```typescript
  * using temp = new TempFolder();
  * // Use temp folder...
+ *
+ * await using fixture = await TempFolder.from({ 'src/index.ts': 'export {}', 'package.json': { name: 'demo' } });
  * ```
  */
 export class TempFolder extends Folder implements AsyncDisposable, Disposable {
   override readonly mutable: boolean = true // Must be mutable to allow deletion
   constructor() {
-    super(Folder.create_sync(ph.join(os.tmpdir(), `tempfolder_${Date.now()}_${crypto.randomUUID()}`)).isAt)
+    super(Folder.create_sync(ph.join(os.tmpdir(), `tempfolder_${Date.now()}_${cr.randomUUID()}`)).isAt)
+  }
+  /**
+   * Asynchronously creates a temporary folder holding a declarative layout, see {@link Folder.populate}.
+   *
+   * @param _tree - The layout to create.
+   * @returns A promise that resolves to the populated folder, which is removed again if populating fails.
+   */
+  static async from(_tree: FixtureTree): Promise<TempFolder> {
+    const temp = new TempFolder()
+    try {
+      await temp.populate(_tree)
+    } catch (e) {
+      await temp.delete()
+      throw e
+    }
+    return temp
+  }
+  /**
+   * Synchronously creates a temporary folder holding a declarative layout, see {@link Folder.populate_sync}.
+   *
+   * @param _tree - The layout to create.
+   * @returns The populated folder, which is removed again if populating fails.
+   */
+  static from_sync(_tree: FixtureTree): TempFolder {
+    const temp = new TempFolder()
+    try {
+      temp.populate_sync(_tree)
+    } catch (e) {
+      temp.delete_sync()
+      throw e
+    }
+    return temp
   }
   [Symbol.dispose](): void {
     this.delete_sync()
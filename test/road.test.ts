@@ -3,6 +3,8 @@ import * as rd from '../src/road'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as os from 'os'
+import * as crypto from 'crypto'
+import * as childProcess from 'child_process'
 
 // Setup: Create a temporary directory for all tests
 let tmpDir: string
@@ -43,4 +45,1497 @@ function cleanupItem(itemPath: string) {
 // Helper: Check if path exists
 function pathExists(filePath: string): boolean {
   return fs.existsSync(filePath)
-}
\ No newline at end of file
+}
+
+// Helper: Drain an async iterable into an array
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = []
+  for await (const item of iterable)
+    result.push(item)
+  return result
+}
+
+
+vt.describe('rd.Folder.walk()', () => {
+  let root: rd.Folder
+
+  vt.beforeAll(() => {
+    createTestFile('walk/a.txt', 'a')
+    createTestFile('walk/sub/b.txt', 'b')
+    createTestFile('walk/sub/deep/c.txt', 'c')
+    createTestFile('walk/skip/d.txt', 'd')
+    fs.symlinkSync(path.join(tmpDir, 'walk', 'sub'), path.join(tmpDir, 'walk', 'link'))
+    fs.symlinkSync(path.join(tmpDir, 'walk'), path.join(tmpDir, 'walk', 'sub', 'loop'))
+    root = new rd.Folder(path.join(tmpDir, 'walk'))
+  })
+
+  vt.afterAll(() => {
+    cleanupItem(path.join(tmpDir, 'walk'))
+  })
+
+  const rel = (entries: rd.Road[]) => entries.map(e => path.relative(root.isAt, e.isAt)).sort()
+
+  vt.it('should yield the whole subtree with typed entries', async () => {
+    const entries = await collect(root.walk())
+    vt.expect(rel(entries)).toEqual(['a.txt', 'link', 'skip', 'skip/d.txt', 'sub', 'sub/b.txt', 'sub/deep', 'sub/deep/c.txt', 'sub/loop'])
+    vt.expect(entries.find(e => e.name() === 'a.txt')).toBeInstanceOf(rd.File)
+    vt.expect(entries.find(e => e.name() === 'link')).toBeInstanceOf(rd.SymbolicLink)
+  })
+
+  vt.it('should match between async and sync variants', async () => {
+    vt.expect(rel(await collect(root.walk()))).toEqual(rel([...root.walk_sync()]))
+  })
+
+  vt.it('should respect maxDepth', async () => {
+    vt.expect(rel([...root.walk_sync({ maxDepth: 1 })])).toEqual(['a.txt', 'link', 'skip', 'sub'])
+    vt.expect([...root.walk_sync({ maxDepth: 0 })]).toEqual([])
+    vt.expect(await collect(root.walk({ maxDepth: 0 }))).toEqual([])
+  })
+
+  vt.it('should prune whole subtrees', async () => {
+    const entries = await collect(root.walk({ prune: e => e.name() === 'skip' || e.name() === 'deep' }))
+    vt.expect(rel(entries)).toEqual(['a.txt', 'link', 'sub', 'sub/b.txt', 'sub/loop'])
+  })
+
+  vt.it('should skip symbolic links', () => {
+    vt.expect(rel([...root.walk_sync({ symlinks: 'skip' })])).not.toContain('link')
+  })
+
+  vt.it('should yield parents before children breadth-first', () => {
+    const depths = [...root.walk_sync({ order: 'breadth-first' })].map(e => e.depth())
+    vt.expect(depths).toEqual([...depths].sort((a, b) => a - b))
+  })
+
+  vt.it('should follow symbolic links without looping', async () => {
+    const entries = rel(await collect(root.walk({ symlinks: 'follow' })))
+    vt.expect(entries.filter(e => e.endsWith('b.txt'))).toEqual(['link/b.txt', 'sub/b.txt'])
+    vt.expect(entries).toContain('link/deep/c.txt')
+    vt.expect(entries).toContain('link/loop')
+    vt.expect(entries.length).toBeLessThan(50)
+    vt.expect(rel([...root.walk_sync({ symlinks: 'follow' })])).toEqual(entries)
+  })
+})
+
+
+
+vt.describe('rd.globRegExp()', () => {
+  vt.it('should match wildcards within a segment', () => {
+    vt.expect(rd.globRegExp('*.ts').test('a.ts')).toBe(true)
+    vt.expect(rd.globRegExp('*.ts').test('src/a.ts')).toBe(false)
+    vt.expect(rd.globRegExp('?.ts').test('ab.ts')).toBe(false)
+  })
+
+  vt.it('should match globstars across segments', () => {
+    const re = rd.globRegExp('src/**/*.ts')
+    vt.expect(re.test('src/a.ts')).toBe(true)
+    vt.expect(re.test('src/x/y/a.ts')).toBe(true)
+    vt.expect(re.test('lib/a.ts')).toBe(false)
+  })
+
+  vt.it('should support character classes and braces', () => {
+    vt.expect(rd.globRegExp('[a-c].{js,ts}').test('b.ts')).toBe(true)
+    vt.expect(rd.globRegExp('[!a-c].{js,ts}').test('b.js')).toBe(false)
+    vt.expect(rd.globRegExp('{src,lib/{x,y}}/*').test('lib/y/z')).toBe(true)
+  })
+
+  vt.it('should not match dot files unless asked to', () => {
+    vt.expect(rd.globRegExp('*').test('.env')).toBe(false)
+    vt.expect(rd.globRegExp('*', true).test('.env')).toBe(true)
+    vt.expect(rd.globRegExp('.env').test('.env')).toBe(true)
+  })
+})
+
+
+
+vt.describe('rd.Folder.glob()', () => {
+  let root: rd.Folder
+
+  vt.beforeAll(() => {
+    createTestFile('glob/index.ts')
+    createTestFile('glob/src/a.ts')
+    createTestFile('glob/src/b.js')
+    createTestFile('glob/src/gen/c.ts')
+    createTestFile('glob/node_modules/dep/d.ts')
+    createTestFile('glob/src/.gitignore', 'gen/\n')
+    root = new rd.Folder(path.join(tmpDir, 'glob'))
+  })
+
+  vt.afterAll(() => {
+    cleanupItem(path.join(tmpDir, 'glob'))
+  })
+
+  const rel = (entries: rd.Road[]) => entries.map(e => path.relative(root.isAt, e.isAt)).sort()
+
+  vt.it('should find matches recursively', async () => {
+    vt.expect(rel(await root.glob('**/*.ts'))).toEqual(['index.ts', 'node_modules/dep/d.ts', 'src/a.ts', 'src/gen/c.ts'])
+  })
+
+  vt.it('should exclude negated patterns', () => {
+    vt.expect(rel(root.glob_sync(['**/*.ts', '!**/node_modules']))).toEqual(['index.ts', 'src/a.ts', 'src/gen/c.ts'])
+  })
+
+  vt.it('should honour ignore files', async () => {
+    const readSync = vt.vi.spyOn(rd.DiskBackend.prototype, 'read_file_sync')
+    let syncReads = -1
+    const matches = await root.glob('**/*.ts', { ignoreFiles: ['.gitignore'] }).finally(() => {
+      syncReads = readSync.mock.calls.length
+      readSync.mockRestore()
+    })
+    vt.expect(rel(matches)).toEqual(['index.ts', 'node_modules/dep/d.ts', 'src/a.ts'])
+    vt.expect(syncReads).toBe(0) // Ignore files are read asynchronously
+    vt.expect(rel(root.glob_sync('**/*.ts', { ignoreFiles: ['.gitignore'] }))).toEqual(['index.ts', 'node_modules/dep/d.ts', 'src/a.ts'])
+  })
+
+  vt.it('should filter by expected type', () => {
+    vt.expect(rel(root.glob_sync('*', {}, rd.Folder))).toEqual(['node_modules', 'src'])
+  })
+})
+
+
+
+vt.describe('rd.File.write_atomic()', () => {
+  vt.it('should replace the content and keep the file mode', async () => {
+    const file = new rd.File(createTestFile('atomic/config.json', 'old'))
+    fs.chmodSync(file.isAt, 0o640)
+    await file.write_atomic('new')
+    vt.expect(fs.readFileSync(file.isAt, 'utf-8')).toBe('new')
+    vt.expect(fs.statSync(file.isAt).mode & 0o777).toBe(0o640)
+    file.write_atomic_sync(Buffer.from('newer'))
+    vt.expect(fs.readFileSync(file.isAt, 'utf-8')).toBe('newer')
+    vt.expect(fs.readdirSync(path.dirname(file.isAt))).toEqual(['config.json'])
+  })
+
+  vt.it('should recreate deleted files with the default mode', async () => {
+    const file = new rd.File(createTestFile('atomic/gone.txt', 'old'))
+    fs.chmodSync(file.isAt, 0o600)
+    fs.unlinkSync(file.isAt)
+    await file.write_atomic('new')
+    vt.expect(fs.readFileSync(file.isAt, 'utf-8')).toBe('new')
+    vt.expect(fs.statSync(file.isAt).mode & 0o777).toBe(0o666 & ~process.umask())
+    fs.unlinkSync(file.isAt)
+    file.write_atomic_sync('newer')
+    vt.expect(fs.readFileSync(file.isAt, 'utf-8')).toBe('newer')
+  })
+
+  vt.it('should refuse immutable files', async () => {
+    const file = new rd.File(createTestFile('atomic/locked.txt', 'keep'))
+    file.mutable = false
+    await vt.expect(file.write_atomic('lost')).rejects.toThrow('Mutability')
+    vt.expect(fs.readFileSync(file.isAt, 'utf-8')).toBe('keep')
+  })
+
+  vt.it('should create, write and append durably', async () => {
+    const file = await rd.File.create(path.join(tmpDir, 'atomic', 'state.log'), { durable: true })
+    await file.append('a', undefined, { durable: true })
+    file.append_sync('b', undefined, { durable: true })
+    vt.expect(fs.readFileSync(file.isAt, 'utf-8')).toBe('ab')
+    await file.write('c', 'utf-8', { durable: true })
+    file.write_sync('d', 'utf-8', { flag: 'a', durable: true })
+    vt.expect(fs.readFileSync(new rd.PurePath(tmpDir, 'atomic', 'new.log').create_file_sync({ durable: true }).isAt, 'utf-8')).toBe('')
+    vt.expect(fs.readFileSync(file.isAt, 'utf-8')).toBe('cd')
+  })
+})
+
+
+
+vt.describe('rd.Road copy/move transfers', () => {
+  let src: rd.Folder
+  let dst: rd.Folder
+
+  vt.beforeEach(() => {
+    createTestFile('transfer/src/tree/a.txt', 'aaaa')
+    createTestFile('transfer/src/tree/sub/b.txt', 'bb')
+    fs.symlinkSync('a.txt', path.join(tmpDir, 'transfer/src/tree/link'))
+    fs.chmodSync(path.join(tmpDir, 'transfer/src/tree/a.txt'), 0o600)
+    fs.utimesSync(path.join(tmpDir, 'transfer/src/tree/a.txt'), new Date(1000), new Date(2000))
+    src = new rd.Folder(path.join(tmpDir, 'transfer/src'))
+    dst = new rd.Folder(createTestFolder('transfer/dst'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'transfer'))
+  })
+
+  vt.it('should copy folders recursively and preserve what is asked', async () => {
+    const tree = new rd.Folder(src.join('tree'))
+    const copy = await tree.copy(dst, { preserve: { times: true } })
+    vt.expect(fs.readFileSync(copy.join('sub/b.txt'), 'utf-8')).toBe('bb')
+    vt.expect(fs.statSync(copy.join('a.txt')).mode & 0o777).toBe(0o600)
+    vt.expect(fs.statSync(copy.join('a.txt')).mtimeMs).toBe(2000)
+    vt.expect(fs.lstatSync(copy.join('link')).isSymbolicLink()).toBe(true)
+  })
+
+  vt.it('should dereference symbolic links if asked to', () => {
+    const copy = new rd.Folder(src.join('tree')).copy_sync(dst, { preserve: { symlinks: false } })
+    vt.expect(fs.lstatSync(copy.join('link')).isFile()).toBe(true)
+    vt.expect(fs.readFileSync(copy.join('link'), 'utf-8')).toBe('aaaa')
+  })
+
+  vt.it('should apply conflict policies', async () => {
+    const file = new rd.File(src.join('tree/a.txt'))
+    createTestFile('transfer/dst/a.txt', 'existing')
+    await vt.expect(file.copy(dst, { conflict: 'fail' })).rejects.toThrow('Conflict')
+    vt.expect(await file.copy(dst, { conflict: 'skip' })).toBeInstanceOf(rd.File)
+    vt.expect(fs.readFileSync(dst.join('a.txt'), 'utf-8')).toBe('existing')
+    createTestFile('transfer/dst/tree', 'not a folder')
+    vt.expect(new rd.Folder(src.join('tree')).copy_sync(dst, { conflict: 'skip' })).toBeInstanceOf(rd.File)
+    const renamed = file.copy_sync(dst, { conflict: 'rename' })
+    vt.expect(renamed.name()).toBe('a (1).txt')
+    vt.expect((await file.copy(dst, { conflict: 'rename' })).name()).toBe('a (2).txt')
+    await file.copy(dst)
+    vt.expect(fs.readFileSync(dst.join('a.txt'), 'utf-8')).toBe('aaaa')
+  })
+
+  vt.it('should replace links at the destination instead of writing through them', async () => {
+    const outside = createTestFile('transfer/outside.txt', 'outside')
+    fs.symlinkSync('../outside.txt', dst.join('a.txt'))
+    await new rd.File(src.join('tree/a.txt')).copy(dst, { conflict: 'overwrite' })
+    createTestFolder('transfer/dst/tree/sub')
+    fs.symlinkSync('../../../outside.txt', dst.join('tree/sub/b.txt'))
+    await new rd.Folder(src.join('tree')).copy(dst, { onProgress: () => undefined })
+    vt.expect(fs.readFileSync(outside, 'utf-8')).toBe('outside')
+    vt.expect(fs.lstatSync(dst.join('a.txt')).isFile()).toBe(true)
+    vt.expect(fs.readFileSync(dst.join('tree/sub/b.txt'), 'utf-8')).toBe('bb')
+  })
+
+  vt.it('should report progress', async () => {
+    const reports: rd.TransferProgress[] = []
+    await new rd.Folder(src.join('tree')).copy(dst, { onProgress: p => { reports.push(p) } })
+    vt.expect(reports.at(-1)).toEqual({ bytesDone: 6, bytesTotal: 6, entriesDone: 5, entriesTotal: 5 })
+  })
+
+  vt.it('should stop on abort', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await vt.expect(new rd.Folder(src.join('tree')).copy(dst, { signal: controller.signal })).rejects.toThrow()
+    vt.expect(pathExists(dst.join('tree'))).toBe(false)
+  })
+
+  vt.it('should move and merge into existing folders', async () => {
+    createTestFile('transfer/dst/tree/old.txt', 'old')
+    const tree = new rd.Folder(src.join('tree'))
+    await tree.move(dst)
+    vt.expect(tree.isAt).toBe(dst.join('tree'))
+    vt.expect(pathExists(src.join('tree'))).toBe(false)
+    vt.expect(fs.readdirSync(tree.isAt).sort()).toEqual(['a.txt', 'link', 'old.txt', 'sub'])
+  })
+
+  vt.it('should refuse to copy a folder into itself', () => {
+    vt.expect(() => src.copy_sync(new rd.Folder(src.join('tree')))).toThrow('into itself')
+  })
+})
+
+
+
+vt.describe('rd.File.hash() and rd.Folder.digest()', () => {
+  let root: rd.Folder
+
+  vt.beforeAll(() => {
+    createTestFile('hash/one/a.txt', 'same')
+    createTestFile('hash/one/b.txt', 'same')
+    createTestFile('hash/one/c.txt', 'other')
+    createTestFile('hash/two/a.txt', 'same')
+    createTestFile('hash/big1.bin', 'x'.repeat(5000) + '1')
+    createTestFile('hash/big2.bin', 'x'.repeat(5000) + '2')
+    createTestFile('hash/big3.bin', 'x'.repeat(5000) + '1')
+    root = new rd.Folder(path.join(tmpDir, 'hash'))
+  })
+
+  vt.afterAll(() => {
+    cleanupItem(path.join(tmpDir, 'hash'))
+  })
+
+  vt.it('should hash file content', async () => {
+    const file = new rd.File(root.join('one/a.txt'))
+    vt.expect(await file.hash()).toBe(crypto.createHash('sha256').update('same').digest('hex'))
+    vt.expect(await file.hash('md5')).toBe(file.hash_sync('md5'))
+    vt.expect(await file.hash('sha1', 2)).toBe(crypto.createHash('sha1').update('sa').digest('hex'))
+    vt.expect(file.hash_sync('sha1', 2)).toBe(crypto.createHash('sha1').update('sa').digest('hex'))
+  })
+
+  vt.it('should compare by content when asked to', async () => {
+    const a = new rd.File(root.join('one/a.txt'))
+    const b = new rd.File(root.join('one/b.txt'))
+    vt.expect(await a.same_as(b)).toBe(false)
+    vt.expect(await a.same_as(b, 'content')).toBe(true)
+    vt.expect(a.same_as_sync(new rd.File(root.join('one/c.txt')), 'content')).toBe(false)
+  })
+
+  vt.it('should digest trees deterministically', async () => {
+    const one = new rd.Folder(root.join('one'))
+    vt.expect(await one.digest()).toBe(one.digest_sync())
+    vt.expect(await new rd.Folder(root.join('two')).digest()).not.toBe(await one.digest())
+  })
+
+  vt.it('should find duplicates', async () => {
+    const groups = (await root.find_duplicates()).map(g => g.map(f => path.relative(root.isAt, f.isAt)).sort()).sort()
+    vt.expect(groups).toEqual([['big1.bin', 'big3.bin'], ['one/a.txt', 'one/b.txt', 'two/a.txt']])
+    vt.expect(root.find_duplicates_sync().length).toBe(2)
+  })
+})
+
+
+
+vt.describe('rd.Folder.sync_to()', () => {
+  let src: rd.Folder
+  let dst: rd.Folder
+
+  vt.beforeEach(() => {
+    createTestFile('sync/src/a.txt', 'a')
+    createTestFile('sync/src/sub/b.txt', 'b')
+    createTestFile('sync/src/skip.log', 'log')
+    createTestFile('sync/dst/stale/x.txt', 'x')
+    createTestFile('sync/dst/keep.log', 'keep')
+    fs.symlinkSync('a.txt', path.join(tmpDir, 'sync/src/link'))
+    src = new rd.Folder(path.join(tmpDir, 'sync/src'))
+    dst = new rd.Folder(path.join(tmpDir, 'sync/dst'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'sync'))
+  })
+
+  const summary = (actions: readonly rd.SyncAction[]) => actions.map(a => `${a.kind} ${a.path}`).sort()
+
+  vt.it('should plan without touching the target on a dry run', async () => {
+    const plan = await src.sync_to(dst, { delete: true, exclude: ['*.log'], dryRun: true })
+    vt.expect(summary(plan.actions)).toEqual(['create a.txt', 'create link', 'create sub', 'create sub/b.txt', 'delete stale'])
+    vt.expect(plan.applied).toEqual([])
+    vt.expect(pathExists(dst.join('a.txt'))).toBe(false)
+    await plan.apply()
+    vt.expect(summary(plan.applied)).toEqual(summary(plan.actions))
+    vt.expect(fs.readdirSync(dst.isAt).sort()).toEqual(['a.txt', 'keep.log', 'link', 'sub'])
+    vt.expect(fs.readlinkSync(dst.join('link'))).toBe('a.txt')
+  })
+
+  vt.it('should only touch what changed afterwards', async () => {
+    await src.sync_to(dst)
+    vt.expect((await src.sync_to(dst)).applied).toEqual([])
+    fs.writeFileSync(src.join('sub/b.txt'), 'changed')
+    vt.expect(summary((await src.sync_to(dst, { compare: 'checksum' })).applied)).toEqual(['update sub/b.txt'])
+    vt.expect(fs.readFileSync(dst.join('sub/b.txt'), 'utf-8')).toBe('changed')
+  })
+
+  vt.it('should honour include filters and mutability', async () => {
+    vt.expect(summary((await src.sync_to(dst, { include: ['**/*.txt'], dryRun: true })).actions)).toEqual(['create a.txt', 'create sub', 'create sub/b.txt'])
+    dst.mutable = false
+    await vt.expect(src.sync_to(dst)).rejects.toThrow('Mutability')
+  })
+
+  vt.it('should replace links in the target instead of following them', async () => {
+    const outside = createTestFolder('sync/outside')
+    fs.symlinkSync('../outside.txt', dst.join('a.txt'))
+    fs.symlinkSync('../outside', dst.join('sub'))
+    fs.symlinkSync('missing', src.join('dangling'))
+    fs.symlinkSync('missing', dst.join('dangling'))
+    const plan = await src.sync_to(dst, { delete: true, exclude: ['*.log'] })
+    vt.expect(summary(plan.applied)).toEqual(['create link', 'create sub/b.txt', 'delete stale', 'update a.txt', 'update sub'])
+    vt.expect(pathExists(path.join(tmpDir, 'sync/outside.txt'))).toBe(false)
+    vt.expect(fs.readdirSync(outside)).toEqual([])
+    vt.expect(fs.readFileSync(dst.join('sub/b.txt'), 'utf-8')).toBe('b')
+    vt.expect(fs.readlinkSync(dst.join('dangling'))).toBe('missing')
+  })
+})
+
+
+
+vt.describe('rd.Folder.watch()', () => {
+  let root: rd.Folder
+
+  vt.beforeEach(() => {
+    createTestFile('watch/a.txt', 'a')
+    createTestFile('watch/sub/b.txt', 'b')
+    root = new rd.Folder(path.join(tmpDir, 'watch'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'watch'))
+  })
+
+  // Helper: Run changes while watching and collect events until `count` arrived
+  async function record(count: number, changes: () => void): Promise<rd.WatchEvent[]> {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), 3000)
+    const events: rd.WatchEvent[] = []
+    const iterator = root.watch({ signal: controller.signal, debounce: 30 })
+    const pending = (async () => {
+      for await (const event of iterator) {
+        events.push(event)
+        if (events.length >= count)
+          break
+      }
+    })()
+    await new Promise(resolve => setTimeout(resolve, 20))
+    changes()
+    await pending
+    clearTimeout(timeout)
+    return events
+  }
+  const summary = (events: rd.WatchEvent[]) => events.map(e => `${e.kind} ${path.relative(root.isAt, e.path)}`).sort()
+
+  vt.it('should coalesce repeated writes into one modification', async () => {
+    const events = await record(1, () => {
+      fs.writeFileSync(root.join('a.txt'), 'a1')
+      fs.appendFileSync(root.join('a.txt'), 'a2')
+    })
+    vt.expect(summary(events)).toEqual(['modified a.txt'])
+    vt.expect(events[0]!.road).toBeInstanceOf(rd.File)
+  })
+
+  vt.it('should report additions and removals recursively', async () => {
+    const events = await record(3, () => {
+      fs.writeFileSync(root.join('sub/c.txt'), 'c')
+      fs.mkdirSync(root.join('new'))
+      fs.rmSync(root.join('a.txt'))
+    })
+    vt.expect(summary(events)).toEqual(['added new', 'added sub/c.txt', 'removed a.txt'])
+  })
+
+  vt.it('should pair renames', async () => {
+    const events = await record(1, () => fs.renameSync(root.join('a.txt'), root.join('sub/moved.txt')))
+    vt.expect(events[0]).toMatchObject({ kind: 'renamed', from: root.join('a.txt'), path: root.join('sub/moved.txt') })
+  })
+
+  vt.it('should re-arm replaced subfolders', async () => {
+    await record(2, () => {
+      fs.rmSync(root.join('sub'), { recursive: true })
+      fs.mkdirSync(root.join('sub'))
+    })
+    const events = await record(1, () => fs.writeFileSync(root.join('sub/d.txt'), 'd'))
+    vt.expect(summary(events)).toEqual(['added sub/d.txt'])
+  })
+})
+
+vt.describe('rd.MemoryBackend', () => {
+  let memory: rd.MemoryBackend
+  let previous: rd.RoadBackend
+  const at = (...parts: string[]) => path.join(os.tmpdir(), 'memory', ...parts)
+
+  vt.beforeEach(() => {
+    memory = new rd.MemoryBackend()
+    previous = rd.useBackend(memory)
+    rd.Folder.create_sync(at('sub'))
+  })
+
+  vt.afterEach(() => {
+    rd.useBackend(previous)
+  })
+
+  vt.it('should run road operations without touching the disk', async () => {
+    const file = await rd.File.create(at('sub', 'a.txt'))
+    await file.write('hello')
+    await file.append(' world')
+    vt.expect(await file.read('utf-8')).toBe('hello world')
+    vt.expect(fs.existsSync(at())).toBe(false)
+    const names = (await collect(new rd.Folder(at()).walk())).map(e => path.relative(at(), e.isAt))
+    vt.expect(names).toEqual(['sub', path.join('sub', 'a.txt')])
+  })
+
+  vt.it('should support symbolic links, copies and moves', async () => {
+    const file = rd.File.create_sync(at('a.txt'))
+    file.write_sync('a')
+    const link = rd.SymbolicLink.create_sync(at('link'), file)
+    vt.expect(link.target_sync().isAt).toBe(file.isAt)
+    const copy = await file.copy(new rd.Folder(at('sub')))
+    vt.expect(copy.read_sync('utf-8')).toBe('a')
+    await copy.move(new rd.Folder(at()), { conflict: 'rename' })
+    vt.expect(rd.roadType(at('a (1).txt'))).toBe(rd.File)
+  })
+
+  vt.it('should create all node types', () => {
+    memory.mknod(at('pipe'), fs.constants.S_IFIFO)
+    memory.mknod(at('socket'), fs.constants.S_IFSOCK)
+    vt.expect(rd.Road.factory_sync(at('pipe'))).toBeInstanceOf(rd.Fifo)
+    vt.expect(rd.Road.factory_sync(at('socket'))).toBeInstanceOf(rd.Socket)
+  })
+
+  vt.it('should check permissions', async () => {
+    const file = rd.File.create_sync(at('secret.txt'))
+    memory.chmod_sync(file.isAt, 0o200)
+    vt.expect(file.accessible_sync(fs.constants.R_OK)).toBe(false)
+    await vt.expect(file.read()).rejects.toMatchObject({ code: 'EACCES' })
+    memory.chmod_sync(at('sub'), 0o500)
+    vt.expect(() => rd.File.create_sync(at('sub', 'b.txt'))).toThrow(vt.expect.objectContaining({ code: 'EACCES' }))
+  })
+
+  vt.it('should inject faults', async () => {
+    const file = rd.File.create_sync(at('full.txt'))
+    memory.inject({ operation: 'write', path: file.isAt, code: 'ENOSPC', times: 1 })
+    await vt.expect(file.write('data')).rejects.toMatchObject({ code: 'ENOSPC', path: file.isAt })
+    await file.write('data')
+    vt.expect(file.read_sync('utf-8')).toBe('data')
+    const remove = memory.inject({ operation: 'rename', code: 'EXDEV' })
+    await file.move(new rd.Folder(at('sub')))
+    remove()
+    vt.expect(rd.roadType(at('sub', 'full.txt'))).toBe(rd.File)
+  })
+
+  vt.it('should scope backends to async contexts', async () => {
+    rd.useBackend(previous)
+    const other = new rd.MemoryBackend()
+    await rd.withBackend(other, async () => {
+      await rd.Folder.create(at())
+      vt.expect(rd.currentBackend()).toBe(other)
+    })
+    vt.expect(rd.currentBackend()).toBe(previous)
+    vt.expect(other.stat_sync(at()).isDirectory()).toBe(true)
+    vt.expect(fs.existsSync(at())).toBe(false)
+  })
+})
+
+vt.describe('rd.Folder.pack() and rd.File.unpack()', () => {
+  let source: rd.Folder
+  let target: rd.Folder
+  const longName = `${'deep/'.repeat(40)}${'n'.repeat(120)}.txt`
+
+  vt.beforeEach(() => {
+    createTestFile('pack/src/a.txt', 'alpha')
+    createTestFile('pack/src/sub/b.sh', '#!/bin/sh\n')
+    createTestFile(`pack/src/${longName}`, 'long')
+    fs.chmodSync(path.join(tmpDir, 'pack/src/sub/b.sh'), 0o755)
+    fs.utimesSync(path.join(tmpDir, 'pack/src/a.txt'), new Date(1_600_000_000_000), new Date(1_600_000_000_000))
+    fs.symlinkSync('sub/b.sh', path.join(tmpDir, 'pack/src/link'))
+    source = new rd.Folder(path.join(tmpDir, 'pack/src'))
+    target = new rd.Folder(createTestFolder('pack/dest'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'pack'))
+  })
+
+  // Helper: Encode a single ustar entry by hand
+  function tarEntry(name: string, content: string, type = '0', linkname = '', mode = '0000644'): Buffer {
+    const header = Buffer.alloc(512)
+    header.write(name, 0)
+    header.write(mode + '\0', 100)
+    header.write(content.length.toString(8).padStart(11, '0') + '\0', 124)
+    header.write('00000000000\0', 136)
+    header.write(type, 156)
+    header.write(linkname, 157)
+    header.fill(' ', 148, 156)
+    header.write(header.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, '0') + '\0 ', 148)
+    const data = Buffer.alloc(Math.ceil(content.length / 512) * 512)
+    data.write(content)
+    return Buffer.concat([header, data])
+  }
+
+  vt.it('should round trip content, modes, times and symbolic links', async () => {
+    const archive = await source.pack(path.join(tmpDir, 'pack/out.tar'))
+    await archive.unpack(target)
+    vt.expect(fs.readFileSync(target.join('a.txt'), 'utf-8')).toBe('alpha')
+    vt.expect(fs.readFileSync(target.join(longName), 'utf-8')).toBe('long')
+    vt.expect(fs.statSync(target.join('sub/b.sh')).mode & 0o777).toBe(0o755)
+    vt.expect(fs.statSync(target.join('a.txt')).mtimeMs).toBe(1_600_000_000_000)
+    vt.expect(fs.readlinkSync(target.join('link'))).toBe('sub/b.sh')
+  })
+
+  vt.it('should compress with gzip and detect it', async () => {
+    const archive = await source.pack(path.join(tmpDir, 'pack/out.tar.gz'), { gzip: true })
+    vt.expect([...archive.read_sync().subarray(0, 2)]).toEqual([0x1f, 0x8b])
+    await archive.unpack(target)
+    vt.expect(fs.readFileSync(target.join('sub/b.sh'), 'utf-8')).toBe('#!/bin/sh\n')
+  })
+
+  vt.it('should report progress and leave the archive out of itself', async () => {
+    const progress: rd.TransferProgress[] = []
+    const archive = await source.pack(source.join('self.tar'), { onProgress: p => { progress.push(p) } })
+    vt.expect(progress.at(-1)).toMatchObject({ bytesDone: 19, bytesTotal: 19, entriesDone: 45, entriesTotal: 45 }) // 40 of them deep folders
+    await archive.unpack(target)
+    vt.expect(fs.existsSync(target.join('self.tar'))).toBe(false)
+  })
+
+  vt.it('should reject entries escaping the destination', async () => {
+    const archive = createTestFile('pack/evil.tar')
+    fs.writeFileSync(archive, Buffer.concat([tarEntry('../evil.txt', 'evil'), Buffer.alloc(1024)]))
+    await vt.expect(new rd.File(archive).unpack(target)).rejects.toThrow(/outside/)
+    vt.expect(fs.existsSync(path.join(tmpDir, 'pack/evil.txt'))).toBe(false)
+    fs.symlinkSync('..', target.join('up'))
+    fs.writeFileSync(archive, Buffer.concat([tarEntry('up/evil.txt', 'evil'), Buffer.alloc(1024)]))
+    await vt.expect(new rd.File(archive).unpack(target)).rejects.toThrow(/outside/)
+    vt.expect(fs.existsSync(path.join(tmpDir, 'pack/evil.txt'))).toBe(false)
+  })
+
+  vt.it('should not reach outside through links replacing folders or hard link sources', async () => {
+    const outside = createTestFolder('pack/outside')
+    fs.writeFileSync(path.join(outside, 'secret'), 'secret')
+    fs.chmodSync(outside, 0o755)
+    const archive = createTestFile('pack/evil.tar')
+    fs.writeFileSync(archive, Buffer.concat([
+      tarEntry('a/', '', '5', '', '0000777'),
+      tarEntry('a', '', '2', outside),
+      Buffer.alloc(1024),
+    ]))
+    await new rd.File(archive).unpack(target)
+    vt.expect(fs.statSync(outside).mode & 0o777).toBe(0o755)
+    fs.writeFileSync(archive, Buffer.concat([
+      tarEntry('evil', '', '2', outside),
+      tarEntry('h', '', '1', 'evil/secret'),
+      Buffer.alloc(1024),
+    ]))
+    await vt.expect(new rd.File(archive).unpack(target)).rejects.toThrow(/hard link/)
+    vt.expect(fs.existsSync(target.join('h'))).toBe(false)
+  })
+
+  vt.it('should refuse corrupt archives', async () => {
+    const archive = createTestFile('pack/corrupt.tar')
+    const entry = tarEntry('a.txt', 'a')
+    entry[0] = 0x62
+    fs.writeFileSync(archive, entry)
+    await vt.expect(new rd.File(archive).unpack(target)).rejects.toThrow(/checksum/)
+  })
+})
+
+vt.describe('rd.File.lock()', () => {
+  let file: rd.File
+
+  vt.beforeEach(() => {
+    file = new rd.File(createTestFile('locks/state.txt'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'locks'))
+  })
+
+  vt.it('should exclude other holders until released', async () => {
+    const lock = await file.lock()
+    vt.expect(fs.existsSync(path.join(tmpDir, 'locks/.state.txt.lock'))).toBe(true)
+    await vt.expect(file.lock({ timeout: 30 })).rejects.toThrow(/Timed out/)
+    await vt.expect(file.lock({ exclusive: false, timeout: 0 })).rejects.toThrow(/Timed out/)
+    const waiting = file.lock()
+    await lock.release()
+    await (await waiting).release()
+    vt.expect(fs.readdirSync(path.join(tmpDir, 'locks'))).toEqual(['state.txt'])
+  })
+
+  vt.it('should allow several shared holders but no exclusive one', async () => {
+    const first = await file.lock({ exclusive: false })
+    const second = await file.lock({ exclusive: false, timeout: 0 })
+    await vt.expect(file.lock({ timeout: 30 })).rejects.toThrow(/Timed out/)
+    first.release_sync()
+    second.release_sync()
+    await (await file.lock({ timeout: 0 })).release()
+  })
+
+  vt.it('should release when disposed', async () => {
+    {
+      await using lock = await file.lock()
+      vt.expect(lock.released).toBe(false)
+    }
+    await (await file.lock({ timeout: 0 })).release()
+  })
+
+  vt.it('should take over stale lockfiles', async () => {
+    const lockfile = path.join(tmpDir, 'locks/.state.txt.lock')
+    fs.writeFileSync(lockfile, JSON.stringify({ pid: process.pid, host: os.hostname(), exclusive: true }))
+    fs.utimesSync(lockfile, new Date(0), new Date(0))
+    await (await file.lock({ timeout: 0 })).release()
+    const exited = childProcess.spawnSync(process.execPath, ['-e', '']).pid
+    fs.writeFileSync(lockfile, JSON.stringify({ pid: exited, host: os.hostname(), exclusive: true }))
+    await (await file.lock({ timeout: 0 })).release()
+  })
+
+  vt.it('should let only one of two waiters take over a stale lockfile', async () => {
+    // Helper backend: Holds back the second attempt to break the lockfile until the first waiter took the lock
+    class SlowBreaking extends rd.MemoryBackend {
+      breaks = 0
+      async pause(_path: string): Promise<void> {
+        if (_path.endsWith('.lock') && ++this.breaks === 2)
+          await new Promise(resolve => setTimeout(resolve, 20))
+      }
+      override async rm(...args: Parameters<rd.MemoryBackend['rm']>): Promise<void> {
+        await this.pause(args[0])
+        return super.rm(...args)
+      }
+      override async rename(_from: string, _to: string): Promise<void> {
+        await this.pause(_from)
+        return super.rename(_from, _to)
+      }
+    }
+    const backend = new SlowBreaking()
+    await rd.withBackend(backend, async () => {
+      const file = rd.File.create_sync(path.join(os.tmpdir(), 'state.txt'))
+      const lockfile = path.join(os.tmpdir(), '.state.txt.lock')
+      rd.File.create_sync(lockfile).write_sync(JSON.stringify({ pid: process.pid, host: os.hostname(), exclusive: true }))
+      backend.utimes_sync(lockfile, new Date(0), new Date(0))
+      const results = await Promise.allSettled([file.lock({ timeout: 0 }), file.lock({ timeout: 0 })])
+      const held = results.filter(r => r.status === 'fulfilled')
+      vt.expect(held).toHaveLength(1)
+      await held[0]?.value.release()
+      vt.expect(rd.Folder.create_sync(os.tmpdir()).list_sync().map(e => e.name())).toEqual(['state.txt'])
+    })
+  })
+
+  vt.it('should stop waiting on abort', async () => {
+    const lock = await file.lock()
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 20)
+    await vt.expect(file.lock({ signal: controller.signal })).rejects.toThrow()
+    await lock.release()
+  })
+})
+
+vt.describe('rd.File JSON and CSV formats', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'formats'))
+  })
+
+  vt.it('should round trip pretty-printed JSON', async () => {
+    const file = new rd.File(createTestFile('formats/config.json'))
+    await file.write_json({ name: 'road', tags: ['a', 'b'] })
+    vt.expect(file.read_sync('utf-8')).toBe('{\n  "name": "road",\n  "tags": [\n    "a",\n    "b"\n  ]\n}\n')
+    file.write_json_sync([1, 2], { indent: 0, atomic: true })
+    vt.expect(file.read_json_sync()).toEqual([1, 2])
+  })
+
+  vt.it('should point JSON syntax errors to the file, line and column', async () => {
+    const file = new rd.File(createTestFile('formats/broken.json', '{\n  "a": 1,\n  oops\n}'))
+    const error = await file.read_json().catch((e: unknown) => e)
+    vt.expect(error).toBeInstanceOf(rd.ParseError)
+    vt.expect(error).toMatchObject({ file: file.isAt, line: 3, column: 3 })
+    vt.expect(String(error)).toContain(`${file.isAt}:3:3`)
+    file.write_sync('{\n  "a": 1,\n  "b": [1, 2,]\n}\n')
+    vt.expect(() => file.read_json_sync()).toThrow(vt.expect.objectContaining({ line: 3, column: 14 }))
+    file.write_sync('{\n  "a": "\\q",\n  "b": tru\n}\n')
+    vt.expect(() => file.read_json_sync()).toThrow(vt.expect.objectContaining({ line: 2, column: 10 }))
+    file.write_sync('{\n  "b": tru\n}\n')
+    vt.expect(() => file.read_json_sync()).toThrow(vt.expect.objectContaining({ line: 2, column: 11 }))
+    file.write_sync('{\n  "b": true\n}\n]')
+    vt.expect(() => file.read_json_sync()).toThrow(vt.expect.objectContaining({ line: 4, column: 1 }))
+  })
+
+  vt.it('should validate documents', async () => {
+    const file = new rd.File(createTestFile('formats/port.json', '"80"'))
+    const validate = (v: unknown) => {
+      if (typeof v !== 'number')
+        throw new Error('expected a number')
+      return v
+    }
+    await vt.expect(file.read_json({ validate })).rejects.toThrow(`Invalid content at '${file.isAt}': expected a number`)
+    file.write_json_sync(80)
+    const port: number = await file.read_json({ validate })
+    vt.expect(port).toBe(80)
+  })
+
+  vt.it('should append and stream JSON Lines', async () => {
+    const file = new rd.File(createTestFile('formats/log.jsonl'))
+    await file.append_jsonl({ n: 1 }, { n: 2 })
+    file.append_sync('\n')
+    file.append_jsonl_sync({ n: 3 })
+    vt.expect(await collect(file.it_jsonl())).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }])
+    file.append_sync('{"n": \n')
+    await vt.expect(collect(file.it_jsonl())).rejects.toMatchObject({ line: 5 })
+  })
+
+  vt.it('should read RFC 4180 CSV with quoting and typed rows', async () => {
+    const file = new rd.File(createTestFile('formats/users.csv', '\uFEFFname,age,note\r\n"Doe, Jane",41,"said ""hi""\r\nthen left"\r\nBob,7,\r\n'))
+    vt.expect(file.read_csv_sync()).toEqual([
+      { name: 'Doe, Jane', age: '41', note: 'said "hi"\r\nthen left' },
+      { name: 'Bob', age: '7', note: '' }
+    ])
+    const ages = await file.read_csv({ map: (r, line) => ({ age: Number(r['age']), line }) })
+    vt.expect(ages).toEqual([{ age: 41, line: 2 }, { age: 7, line: 4 }])
+    vt.expect(file.read_csv_sync({ headers: false })[0]).toEqual({ 0: 'name', 1: 'age', 2: 'note' })
+  })
+
+  vt.it('should point CSV errors to the file, line and column', () => {
+    const file = new rd.File(createTestFile('formats/bad.csv', 'a;b\n1;x"y\n'))
+    vt.expect(() => file.read_csv_sync({ delimiter: ';' })).toThrow(`${file.isAt}:2:4: Unexpected quote in unquoted field`)
+    file.write_sync('a,b\n1,2,3\n')
+    vt.expect(() => file.read_csv_sync()).toThrow(`${file.isAt}:2:1: Expected 2 fields but found 3`)
+    file.write_sync('a,b\n1,"2\n')
+    vt.expect(() => file.read_csv_sync()).toThrow(`${file.isAt}:2:3: Unterminated quoted field`)
+  })
+
+  vt.it('should write CSV and read it back', async () => {
+    const file = new rd.File(createTestFile('formats/out.csv'))
+    async function* rows() {
+      yield { id: 1, text: 'plain' }
+      yield { id: 2, text: 'with, comma and "quotes"\nand a break' }
+    }
+    await file.write_csv(rows())
+    vt.expect(file.read_sync('utf-8')).toBe('id,text\r\n1,plain\r\n2,"with, comma and ""quotes""\nand a break"\r\n')
+    vt.expect(await file.read_csv()).toEqual([{ id: '1', text: 'plain' }, { id: '2', text: 'with, comma and "quotes"\nand a break' }])
+    file.write_csv_sync([[1, null, ' x']], { delimiter: '\t' })
+    vt.expect(file.read_sync('utf-8')).toBe('1\t\t" x"\r\n')
+  })
+})
+
+vt.describe('rd.Road permissions', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'perms'))
+  })
+
+  vt.it('should parse octal and symbolic modes', () => {
+    vt.expect(rd.parseMode('640', 0o777, false)).toBe(0o640)
+    vt.expect(rd.parseMode(0o100755, 0, false)).toBe(0o755)
+    vt.expect(rd.parseMode('u+x,go-w', 0o666, false)).toBe(0o744)
+    vt.expect(rd.parseMode('a=r,u+w', 0o777, false)).toBe(0o644)
+    vt.expect(rd.parseMode('g=u', 0o700, false)).toBe(0o770)
+    vt.expect(rd.parseMode('a=u', 0o750, false)).toBe(0o777)
+    vt.expect(rd.parseMode('a=g', 0o750, false)).toBe(0o555)
+    vt.expect(rd.parseMode('u+x,a+X', 0o644, false)).toBe(0o755)
+    vt.expect(rd.parseMode('+X', 0o644, true)).toBe(0o755)
+    vt.expect(rd.parseMode('+X', 0o644, false)).toBe(0o644)
+    vt.expect(rd.parseMode('u+s,o+t', 0o755, false)).toBe(0o5755)
+    vt.expect(() => rd.parseMode('u+q', 0o644, false)).toThrow(/Invalid mode/)
+  })
+
+  vt.it('should expose structured permissions and change them', async () => {
+    const file = new rd.File(createTestFile('perms/a.sh'))
+    await file.chmod('640')
+    vt.expect(await file.permissions()).toMatchObject({
+      owner: { read: true, write: true, execute: false },
+      group: { read: true, write: false, execute: false },
+      other: { read: false, write: false, execute: false },
+      setuid: false, setgid: false, sticky: false, mode: 0o640, uid: fs.statSync(file.isAt).uid
+    })
+    file.chmod_sync('u+x')
+    vt.expect(file.permissions_sync().mode).toBe(0o740)
+  })
+
+  vt.it('should change whole subtrees', async () => {
+    createTestFile('perms/sub/a.txt')
+    const folder = new rd.Folder(path.join(tmpDir, 'perms'))
+    await folder.chmod_recursive('a=r,u+w,a+X')
+    vt.expect(fs.statSync(folder.join('sub')).mode & 0o777).toBe(0o755)
+    vt.expect(fs.statSync(folder.join('sub/a.txt')).mode & 0o777).toBe(0o644)
+    const { uid, gid } = fs.statSync(folder.isAt)
+    folder.chown_recursive_sync(uid, gid)
+    vt.expect(fs.statSync(folder.join('sub/a.txt')).gid).toBe(gid)
+  })
+
+  vt.it('should respect mutability and OS ownership rules', () => {
+    const memory = new rd.MemoryBackend({ uid: 1000, gid: 1000 })
+    rd.withBackend(memory, () => {
+      const file = rd.File.create_sync(path.join(os.tmpdir(), 'owned.txt'))
+      vt.expect(() => file.chown_sync(0)).toThrow(vt.expect.objectContaining({ code: 'EPERM' }))
+      file.mutable = false
+      vt.expect(() => file.chmod_sync('u+x')).toThrow(/Mutability/)
+      vt.expect(file.permissions_sync()).toMatchObject({ uid: 1000, gid: 1000, mode: 0o644 })
+    })
+  })
+})
+
+vt.describe('rd.Folder.usage()', () => {
+  let root: rd.Folder
+  const folderSizes = () => ['', 'sub', 'sub/deep'].reduce((sum, f) => sum + fs.statSync(root.join(f)).size, 0)
+
+  vt.beforeEach(() => {
+    createTestFile('usage/a.txt', 'a'.repeat(100))
+    createTestFile('usage/sub/b.bin', 'b'.repeat(5000))
+    createTestFile('usage/sub/deep/c.txt', 'c'.repeat(10))
+    root = new rd.Folder(path.join(tmpDir, 'usage'))
+    fs.linkSync(root.join('sub/b.bin'), root.join('sub/hardlink.bin'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'usage'))
+  })
+
+  vt.it('should sum up subtrees counting hard links once', async () => {
+    const usage = await root.usage()
+    vt.expect(usage).toMatchObject({ path: root.isAt, files: 3, folders: 3, apparent: 5110 + folderSizes(), children: [], largest: [] })
+    vt.expect(usage.allocated).toBeGreaterThan(0)
+    vt.expect(root.usage_sync()).toEqual(usage)
+    vt.expect(await root.size()).toBe(usage.apparent)
+    vt.expect(root.size_sync()).toBe(usage.apparent)
+  })
+
+  vt.it('should report subfolders down to a depth and the largest entries', async () => {
+    const usage = await root.usage({ depth: 1, top: 2, concurrency: 1 })
+    vt.expect(usage.children.map(c => path.relative(root.isAt, c.path))).toEqual(['sub'])
+    vt.expect(usage.children[0]).toMatchObject({ files: 2, folders: 2, children: [] })
+    vt.expect(usage.largest).toHaveLength(2)
+    vt.expect(usage.largest[0]!.apparent).toBe(5000)
+    vt.expect(root.usage_sync({ depth: 2 }).children[0]!.children.map(c => path.basename(c.path))).toEqual(['deep'])
+  })
+})
+
+vt.describe('rd.Trash', () => {
+  let trash: rd.Trash
+
+  vt.beforeEach(async () => {
+    trash = await rd.Trash.open(path.join(tmpDir, 'trash/.Trash'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'trash'))
+  })
+
+  vt.it('should move entries into the XDG layout and list them', async () => {
+    const file = new rd.File(createTestFile('trash/my notes.txt', 'keep'))
+    const entry = await file.trash(trash)
+    vt.expect(pathExists(file.isAt)).toBe(false)
+    vt.expect(entry).toMatchObject({ name: 'my notes.txt', original: file.isAt, isAt: path.join(trash.files, 'my notes.txt') })
+    const record = fs.readFileSync(path.join(trash.info, 'my notes.txt.trashinfo'), 'utf-8')
+    vt.expect(record).toMatch(/^\[Trash Info\]\nPath=.*\/my%20notes\.txt\nDeletionDate=\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\n$/)
+    createTestFile('trash/my notes.txt', 'again')
+    const second = new rd.File(file.isAt).trash_sync(trash)
+    vt.expect(second.name).toBe('my notes (1).txt')
+    vt.expect((await trash.list()).map(e => e.name).sort()).toEqual(['my notes (1).txt', 'my notes.txt'])
+    vt.expect(trash.list_sync()).toEqual(await trash.list())
+    vt.expect(() => new rd.Folder(path.join(tmpDir, 'trash')).trash_sync(trash)).toThrow(/overlaps the trash/)
+  })
+
+  vt.it('should restore entries with conflict handling', async () => {
+    createTestFile('trash/src/a.txt', 'first')
+    const folder = new rd.Folder(path.join(tmpDir, 'trash/src'))
+    const entry = await folder.trash(trash)
+    createTestFile('trash/src/a.txt', 'newer')
+    await vt.expect(trash.restore(entry)).rejects.toThrow(/Conflict/)
+    vt.expect(await trash.restore(entry, { conflict: 'skip' })).toBeNull()
+    const restored = trash.restore_sync(entry, { conflict: 'rename' })
+    vt.expect(restored).toBeInstanceOf(rd.Folder)
+    vt.expect(restored!.isAt).toBe(path.join(tmpDir, 'trash/src (1)'))
+    vt.expect(fs.readFileSync(path.join(restored!.isAt, 'a.txt'), 'utf-8')).toBe('first')
+    vt.expect(await trash.list()).toEqual([])
+  })
+
+  vt.it('should purge entries by age', async () => {
+    await new rd.File(createTestFile('trash/old.txt')).trash(trash)
+    await new rd.File(createTestFile('trash/new.txt')).trash(trash)
+    fs.writeFileSync(path.join(trash.info, 'old.txt.trashinfo'), `[Trash Info]\nPath=${path.join(tmpDir, 'trash/old.txt')}\nDeletionDate=2000-01-01T00:00:00\n`)
+    vt.expect((await trash.purge(24 * 60 * 60 * 1000)).map(e => e.name)).toEqual(['old.txt'])
+    vt.expect(pathExists(path.join(trash.files, 'old.txt'))).toBe(false)
+    vt.expect(trash.purge_sync().map(e => e.name)).toEqual(['new.txt'])
+    vt.expect(fs.readdirSync(trash.info)).toEqual([])
+  })
+})
+
+vt.describe('rd.FsTransaction', () => {
+  let root: rd.Folder
+  const tree = () => fs.readdirSync(root.isAt, { recursive: true }).map(String).sort()
+
+  vt.beforeEach(() => {
+    createTestFile('tx/a.txt', 'alpha')
+    createTestFile('tx/b.txt', 'beta')
+    createTestFile('tx/c/old.txt', 'old')
+    root = new rd.Folder(path.join(tmpDir, 'tx'))
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'tx'))
+  })
+
+  vt.it('should roll back when disposed without commit', async () => {
+    const before = tree()
+    {
+      await using tx = new rd.FsTransaction()
+      await tx.rename(new rd.File(root.join('a.txt')), 'b.txt')
+      await tx.move(new rd.File(root.join('b.txt')), new rd.Folder(root.join('c')))
+      await tx.write(new rd.File(root.join('c/old.txt')), 'new')
+      await tx.copy(new rd.Folder(root.join('c')), await tx.create_folder(root.join('d/e')))
+      await tx.delete(new rd.Folder(root.join('c')))
+      vt.expect(tree()).toEqual(['d', 'd/e', 'd/e/c', 'd/e/c/b.txt', 'd/e/c/old.txt'])
+    }
+    vt.expect(tree()).toEqual(before)
+    vt.expect(fs.readFileSync(root.join('a.txt'), 'utf-8')).toBe('alpha')
+    vt.expect(fs.readFileSync(root.join('b.txt'), 'utf-8')).toBe('beta')
+    vt.expect(fs.readFileSync(root.join('c/old.txt'), 'utf-8')).toBe('old')
+  })
+
+  vt.it('should keep all mutations on commit and drop its backups', () => {
+    const tx = new rd.FsTransaction()
+    tx.write_sync(tx.create_file_sync(root.join('new.txt')), 'fresh')
+    tx.delete_sync(new rd.File(root.join('a.txt')))
+    tx.rename_sync(new rd.File(root.join('b.txt')), 'beta.txt')
+    tx.commit_sync()
+    vt.expect(tree()).toEqual(['beta.txt', 'c', 'c/old.txt', 'new.txt'])
+    vt.expect(pathExists(tx.staging)).toBe(false)
+    vt.expect(() => tx.rollback_sync()).toThrow(/already committed/)
+  })
+})
+
+vt.describe('rd.PurePath', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'pure'))
+  })
+
+  vt.it('should take paths apart lexically', () => {
+    const p = new rd.PurePath('/srv//app/', './releases', 'v1.2.tar.gz')
+    vt.expect(p.value).toBe('/srv/app/releases/v1.2.tar.gz')
+    vt.expect(p.parts).toEqual(['/', 'srv', 'app', 'releases', 'v1.2.tar.gz'])
+    vt.expect([p.name, p.stem, p.suffix]).toEqual(['v1.2.tar.gz', 'v1.2.tar', '.gz'])
+    vt.expect(p.parent.equals('/srv/app/releases')).toBe(true)
+    vt.expect(String(p.with_suffix('.zip'))).toBe('/srv/app/releases/v1.2.tar.zip')
+    vt.expect(String(new rd.PurePath('.bashrc').with_suffix('.bak'))).toBe('.bashrc.bak')
+    vt.expect(() => p.with_suffix('zip')).toThrow(/Invalid suffix/)
+    vt.expect(new rd.PurePath('a/../../b').normalize().value).toBe('../b')
+    vt.expect(new rd.PurePath('', '.').parts).toEqual([])
+  })
+
+  vt.it('should relate paths to each other', () => {
+    const p = new rd.PurePath('/srv/app/../data/x.json')
+    vt.expect(p.is_within('/srv/data')).toBe(true)
+    vt.expect(p.is_within('/srv/app')).toBe(false)
+    vt.expect(new rd.PurePath('/srv/data-old').is_within('/srv/data')).toBe(false)
+    vt.expect(p.relative_to('/srv').value).toBe(path.join('data', 'x.json'))
+    vt.expect(p.relative_to(new rd.PurePath('/srv/data/x.json')).value).toBe('.')
+    vt.expect(() => p.relative_to('/etc')).toThrow(/not within/)
+  })
+
+  vt.it('should turn into roads', async () => {
+    const folder = new rd.PurePath(tmpDir, 'pure', 'sub').create_folder_sync()
+    vt.expect(folder.path.equals(path.join(tmpDir, 'pure/sub'))).toBe(true)
+    const file = await folder.path.join('a.txt').create_file()
+    vt.expect(await file.path.resolve()).toBeInstanceOf(rd.File)
+    vt.expect(folder.path.parent.resolve_sync()).toBeInstanceOf(rd.Folder)
+    await vt.expect(file.path.with_name('missing').resolve()).rejects.toThrow()
+  })
+})
+
+vt.describe('rd.LiveFile', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'live'))
+  })
+
+  vt.it('should parse the content and notify subscribers of changes', async () => {
+    const at = createTestFile('live/config.json', '{"level": 1}')
+    const errors: unknown[] = []
+    using live = new rd.LiveFile<{ level: number }>(at, { parse: 'json', debounce: 10, onError: e => errors.push(e) })
+    vt.expect(live.current).toEqual({ level: 1 })
+    const changes: [unknown, unknown][] = []
+    const changed = new Promise<void>(resolve => live.subscribe((now, before) => {
+      changes.push([now, before])
+      resolve()
+    }))
+    // Replace the file the way editors do
+    fs.writeFileSync(at + '.tmp', '{"level": 2}')
+    fs.renameSync(at + '.tmp', at)
+    await changed
+    vt.expect(changes).toEqual([[{ level: 2 }, { level: 1 }]])
+    vt.expect(errors).toEqual([])
+  })
+
+  vt.it('should keep the last good value while the file is broken or missing', () => {
+    const memory = new rd.MemoryBackend()
+    rd.withBackend(memory, () => {
+      const at = path.join(os.tmpdir(), 'live.txt')
+      rd.File.create_sync(at).write_sync('1')
+      const parse = (content: Buffer) => {
+        const n = Number(content.toString())
+        if (isNaN(n))
+          throw new Error('NaN')
+        return n
+      }
+      using live = new rd.LiveFile(at, { parse })
+      new rd.File(at).write_sync('x')
+      vt.expect(() => live.update_sync()).toThrow('NaN')
+      vt.expect(live.current).toBe(1)
+      new rd.File(at).delete_sync()
+      vt.expect(() => live.update_sync()).toThrow(vt.expect.objectContaining({ code: 'ENOENT' }))
+      vt.expect(live.current).toBe(1)
+      rd.File.create_sync(at).write_sync('3')
+      live.update_sync()
+      vt.expect([live.current, live.error]).toEqual([3, null])
+      using strict = new rd.LiveFile<string>(at, { parse: 'text', keepLastGood: false })
+      new rd.File(at).delete_sync()
+      vt.expect(() => strict.update_sync()).toThrow()
+      vt.expect(() => strict.current).toThrow(vt.expect.objectContaining({ code: 'ENOENT' }))
+    })
+  })
+
+  vt.it('should emit background errors, or warn without a listener', async () => {
+    const at = createTestFile('live/config.json', '{"level": 1}')
+    using live = new rd.LiveFile(at, { parse: 'json', debounce: 10 })
+    const failed = new Promise(resolve => live.events.once('error', resolve))
+    fs.writeFileSync(at, '{"level":')
+    vt.expect(await failed).toBeInstanceOf(Error)
+    vt.expect(live.current).toEqual({ level: 1 })
+    const warned = new Promise<Error>(resolve => process.once('warning', resolve))
+    fs.writeFileSync(at, '{"level": ]')
+    vt.expect((await warned).name).toBe('LiveFileWarning')
+  })
+})
+
+vt.describe('rd.File.follow()', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'follow'))
+  })
+
+  vt.it('should yield appended lines across truncation and rotation', async () => {
+    const memory = new rd.MemoryBackend()
+    await rd.withBackend(memory, async () => {
+      const at = path.join(os.tmpdir(), 'app.log')
+      const log = rd.File.create_sync(at)
+      log.write_sync('before\n')
+      const controller = new AbortController()
+      const lines = log.follow({ encoding: 'utf-8', signal: controller.signal, interval: 20 })
+      const next = async () => (await lines.next()).value
+      const first = next()
+      await new Promise(resolve => setTimeout(resolve, 10))
+      await log.append('a\r\nb')
+      vt.expect(await first).toBe('a')
+      await log.append('\n')
+      vt.expect(await next()).toBe('b')
+      await log.write('c\n')
+      vt.expect(await next()).toBe('c')
+      await log.append('last')
+      await memory.rename(at, at + '.1')
+      await rd.File.create(at).then(f => f.write('d\n'))
+      vt.expect([await next(), await next()]).toEqual(['last', 'd'])
+      controller.abort()
+      vt.expect(await lines.next()).toEqual({ done: true, value: undefined })
+    })
+  })
+
+  vt.it('should yield raw chunks from the start on disk', async () => {
+    const log = new rd.File(createTestFile('follow/raw.bin', 'xy'))
+    const controller = new AbortController()
+    const chunks: Buffer[] = []
+    for await (const chunk of log.follow({ fromEnd: false, signal: controller.signal, interval: 20 })) {
+      chunks.push(chunk)
+      if (chunks.length === 1)
+        fs.appendFileSync(log.isAt, 'z')
+      else
+        controller.abort()
+    }
+    vt.expect(Buffer.concat(chunks).toString()).toBe('xyz')
+  })
+})
+
+vt.describe('rd.File.open()', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'binary'))
+  })
+
+  vt.it('should read and write at offsets', async () => {
+    const file = new rd.File(createTestFile('binary/data.bin', 'hello world'))
+    {
+      await using handle = await file.open()
+      vt.expect((await handle.read_at(6, 100)).toString()).toBe('world')
+      await handle.write_at(0, 'HELLO')
+      await handle.write_at(13, Buffer.from('!'))
+      vt.expect(await handle.size()).toBe(14)
+      await handle.truncate(5)
+      await handle.sync()
+      vt.expect(handle.size_sync()).toBe(5)
+    }
+    vt.expect(file.read_sync('utf-8')).toBe('HELLO')
+    using readOnly = file.open_sync('r')
+    vt.expect(() => readOnly.write_at_sync(0, 'x')).toThrow()
+    readOnly.close_sync()
+    vt.expect(() => readOnly.read_at_sync(0, 1)).toThrow(/already closed/)
+    file.mutable = false
+    await vt.expect(file.open()).rejects.toThrow(/Mutability/)
+  })
+
+  vt.it('should encode typed values through a cursor', async () => {
+    const file = rd.File.create_sync(path.join(createTestFolder('binary'), 'record.bin'))
+    await using handle = await file.open()
+    const writer = handle.cursor(0, 'be')
+    await writer.write('u16', 0xCAFE)
+    writer.write_sync('i32', -2)
+    writer.endian = 'le'
+    await writer.write('f64', Math.PI)
+    await writer.write('u64', 2n ** 63n)
+    writer.write_string_sync('grüße', 'u8')
+    vt.expect(writer.position).toBe(2 + 4 + 8 + 8 + 1 + 7)
+    vt.expect(() => writer.write_sync('u8', 256)).toThrow(RangeError)
+    vt.expect(fs.readFileSync(file.isAt).subarray(0, 6)).toEqual(Buffer.from([0xCA, 0xFE, 0xFF, 0xFF, 0xFF, 0xFE]))
+
+    const reader = handle.cursor(0, 'be')
+    vt.expect(await reader.read('u16')).toBe(0xCAFE)
+    vt.expect(reader.read_sync('i32')).toBe(-2)
+    reader.endian = 'le'
+    vt.expect(await reader.read('f64')).toBe(Math.PI)
+    vt.expect(reader.read_sync('u64')).toBe(2n ** 63n)
+    vt.expect(await reader.read_string('u8')).toBe('grüße')
+    await vt.expect(reader.read('u32')).rejects.toThrow(/Unexpected end/)
+    vt.expect(reader.seek(2).skip(4).position).toBe(6)
+  })
+})
+
+vt.describe('rd.Road timestamps', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'times'))
+  })
+
+  vt.it('should read, set and touch times', async () => {
+    const file = new rd.File(createTestFile('times/a.txt', 'a'))
+    const past = new Date('2001-02-03T04:05:06Z')
+    await file.set_times(past, past)
+    const times = await file.times()
+    vt.expect([times.access, times.modify]).toEqual([past, past])
+    vt.expect(times.change.getTime()).toBeGreaterThan(past.getTime())
+    const later = new Date('2002-02-03T04:05:06Z')
+    file.set_times_sync(null, later)
+    vt.expect(file.times_sync()).toMatchObject({ access: past, modify: later })
+    const before = Date.now() - 1000
+    await file.touch()
+    vt.expect(file.times_sync().modify.getTime()).toBeGreaterThan(before)
+    const link = await rd.SymbolicLink.create(path.join(tmpDir, 'times/link'), file)
+    link.touch_sync(past)
+    vt.expect(link.times_sync().modify).toEqual(past)
+    vt.expect(file.times_sync().modify.getTime()).toBeGreaterThan(before)
+  })
+
+  vt.it('should preserve times, mode and ownership on copy', async () => {
+    const memory = new rd.MemoryBackend({ uid: 0, gid: 0 })
+    await rd.withBackend(memory, async () => {
+      const root = rd.Folder.create_sync(path.join(os.tmpdir(), 'src'))
+      const file = rd.File.create_sync(root.join('a.txt'))
+      file.chown_sync(1000, 100)
+      file.chmod_sync(0o640)
+      file.set_times_sync(new Date(1000), new Date(2000))
+      const into = rd.Folder.create_sync(path.join(os.tmpdir(), 'dest'))
+      const plain = await file.copy(into)
+      vt.expect(plain.permissions_sync()).toMatchObject({ uid: 0, mode: 0o640 })
+      vt.expect(plain.times_sync().modify.getTime()).not.toBe(2000)
+      const copy = await root.copy(into, { conflict: 'overwrite', preserve: { times: true, ownership: true } })
+      const kept = new rd.File(copy.join('a.txt'))
+      vt.expect(kept.permissions_sync()).toMatchObject({ uid: 1000, gid: 100, mode: 0o640 })
+      vt.expect(kept.times_sync()).toMatchObject({ access: new Date(1000), modify: new Date(2000) })
+    })
+  })
+})
+
+vt.describe('rd.File.hardlink_to()', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'links'))
+  })
+
+  vt.it('should link files and identify shared inodes', async () => {
+    const file = new rd.File(createTestFile('links/a.txt', 'shared'))
+    vt.expect(await file.link_count()).toBe(1)
+    const link = await file.hardlink_to(path.join(tmpDir, 'links/b.txt'))
+    const other = file.hardlink_to_sync(path.join(tmpDir, 'links/c.txt'))
+    vt.expect(link.read_sync('utf8')).toBe('shared')
+    vt.expect([file.link_count_sync(), await other.link_count()]).toEqual([3, 3])
+    vt.expect(await file.same_entry(link)).toBe(true)
+    vt.expect(file.same_entry_sync(new rd.File(createTestFile('links/d.txt', 'shared')))).toBe(false)
+    await vt.expect(file.hardlink_to(link.isAt)).rejects.toThrow(/EEXIST/)
+    const folder = new rd.Folder(path.join(tmpDir, 'links'))
+    vt.expect((await folder.hardlinks()).groups().map(g => g.sort())).toEqual([[file.isAt, link.isAt, other.isAt].sort()])
+    const links = folder.hardlinks_sync()
+    vt.expect(links.paths_of(link.stats_sync())).toHaveLength(3)
+    vt.expect(links.paths_of(new rd.File(path.join(tmpDir, 'links/d.txt')).stats_sync())).toEqual([])
+  })
+
+  vt.it('should link in the memory backend', () => {
+    rd.withBackend(new rd.MemoryBackend(), () => {
+      const folder = rd.Folder.create_sync(path.join(os.tmpdir(), 'links'))
+      const file = rd.File.create_sync(folder.join('a.txt'))
+      file.write_sync('a')
+      const link = file.hardlink_to_sync(folder.join('b.txt'))
+      link.write_sync('b')
+      vt.expect(file.read_sync('utf8')).toBe('b')
+      vt.expect(file.link_count_sync()).toBe(2)
+      vt.expect(file.same_entry_sync(link)).toBe(true)
+      file.delete_sync()
+      vt.expect(link.link_count_sync()).toBe(1)
+    })
+  })
+})
+
+vt.describe('rd.SymbolicLink resolution', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'chain'))
+  })
+
+  vt.it('should keep relative targets and report dangling links', async () => {
+    const file = new rd.File(createTestFile('chain/v1/a.txt', 'a'))
+    const link = await rd.SymbolicLink.create(path.join(tmpDir, 'chain/latest'), 'v1/a.txt')
+    vt.expect(fs.readlinkSync(link.isAt)).toBe('v1/a.txt')
+    vt.expect((await link.target_path()).value).toBe(file.isAt)
+    vt.expect(link.target_sync().isAt).toBe(file.isAt)
+    const copy = await new rd.Folder(path.join(tmpDir, 'chain')).copy(rd.Folder.create_sync(path.join(tmpDir, 'chain-copy')))
+    vt.expect(fs.readlinkSync(copy.join('latest'))).toBe('v1/a.txt')
+    vt.expect(new rd.SymbolicLink(copy.join('latest')).target_sync().isAt).toBe(copy.join('v1/a.txt'))
+    cleanupItem(path.join(tmpDir, 'chain-copy'))
+    link.retarget_sync('v2/a.txt')
+    vt.expect(await link.is_dangling()).toBe(true)
+    vt.expect(link.target_path_sync().value).toBe(path.join(tmpDir, 'chain/v2/a.txt'))
+    await vt.expect(link.target()).rejects.toThrow(/dangling/)
+    vt.expect(() => link.target_sync()).toThrow(/dangling/)
+    vt.expect(rd.SymbolicLink.create_sync(link.isAt, file).target_path_sync().value).toBe(path.join(tmpDir, 'chain/v2/a.txt'))
+  })
+
+  vt.it('should list every hop and detect loops', async () => {
+    const at = (name: string) => path.join(tmpDir, 'chain', name)
+    const file = new rd.File(createTestFile('chain/a.txt', 'a'))
+    const first = rd.SymbolicLink.create_sync(at('first'), 'second')
+    rd.SymbolicLink.create_sync(at('second'), file)
+    vt.expect(await first.resolve_chain()).toEqual([at('first'), at('second'), file.isAt])
+    vt.expect(first.is_dangling_sync()).toBe(false)
+    rd.SymbolicLink.create_sync(at('ping'), 'pong')
+    const pong = rd.SymbolicLink.create_sync(at('pong'), 'ping')
+    vt.expect(() => pong.resolve_chain_sync()).toThrow(/loop/)
+    await vt.expect(pong.resolve_chain()).rejects.toThrow(/loop/)
+    vt.expect(await pong.is_dangling()).toBe(true)
+    vt.expect(rd.SymbolicLink.create_sync(at('gone'), 'missing').resolve_chain_sync()).toEqual([at('gone'), at('missing')])
+  })
+})
+
+vt.describe('rd.Fifo and rd.Socket', () => {
+  const at = (name: string = '') => path.join(tmpDir, 'ipc', name)
+
+  vt.beforeEach(() => {
+    fs.mkdirSync(at(), { recursive: true })
+  })
+
+  vt.afterEach(() => {
+    cleanupItem(at())
+  })
+
+  vt.it('should pass lines and JSON messages through a FIFO', async () => {
+    const fifo = await rd.Fifo.create(at('pipe'), 0o600)
+    vt.expect(rd.roadType(fifo.isAt)).toBe(rd.Fifo)
+    vt.expect(fs.statSync(fifo.isAt).mode & 0o777).toBe(0o600)
+    vt.expect(rd.Fifo.create_sync(fifo.isAt).isAt).toBe(fifo.isAt)
+    vt.expect(fs.statSync(rd.Fifo.create_sync(at('default')).isAt).mode & 0o777).toBe(0o666 & ~process.umask())
+    vt.expect(fs.statSync((await rd.Fifo.create(at('wide'), 0o666)).isAt).mode & 0o777).toBe(0o666 & ~process.umask())
+    const writing = fifo.writable({ interval: 10 }).then(writer => writer.end('{"n":1}\n\n{"n":2}\n'))
+    const messages: unknown[] = []
+    for await (const message of fifo.it_jsonl())
+      messages.push(message)
+    await writing
+    vt.expect(messages).toEqual([{ n: 1 }, { n: 2 }])
+    const controller = new AbortController()
+    const waiting = fifo.writable({ signal: controller.signal, interval: 10 })
+    controller.abort()
+    await vt.expect(waiting).rejects.toThrow(/abort/i)
+    const copy = await fifo.copy(rd.Folder.create_sync(at('copies')))
+    vt.expect(copy).toBeInstanceOf(rd.Fifo)
+    copy.rename_sync('renamed')
+    await copy.delete()
+    vt.expect(fs.existsSync(at('copies/renamed'))).toBe(false)
+  })
+
+  vt.it('should pipe through FIFOs of the memory backend', async () => {
+    await rd.withBackend(new rd.MemoryBackend(), async () => {
+      const fifo = rd.Fifo.create_sync(path.join(os.tmpdir(), 'pipe'))
+      await vt.expect(fifo.writable({ signal: AbortSignal.timeout(30), interval: 5 })).rejects.toThrow()
+      const lines = fifo.it_lines()
+      const first = lines.next()
+      const writer = await fifo.writable()
+      writer.end('a\nb\n')
+      vt.expect(await first).toEqual({ value: 'a', done: false })
+      vt.expect(await lines.next()).toEqual({ value: 'b', done: false })
+      vt.expect((await lines.next()).done).toBe(true)
+    })
+  })
+
+  vt.it('should tell when the mkfifo command is missing', async () => {
+    const PATH = process.env['PATH']
+    process.env['PATH'] = at()
+    try {
+      vt.expect(() => rd.Fifo.create_sync(at('pipe'))).toThrow(/requires the POSIX 'mkfifo' command/)
+      await vt.expect(rd.Fifo.create(at('pipe'))).rejects.toThrow(/requires the POSIX 'mkfifo' command/)
+    } finally {
+      process.env['PATH'] = PATH
+    }
+    vt.expect(() => rd.Fifo.create_sync(at('missing/pipe'))).toThrow(/Command failed/)
+  })
+
+  vt.it('should listen on and connect to sockets, replacing stale ones', async () => {
+    const errors: unknown[] = []
+    {
+      await using server = await rd.Socket.listen(at('app.sock'), connection => connection.pipe(connection), { onError: e => errors.push(e) })
+      vt.expect(server.isAt).toBe(at('app.sock'))
+      const socket = new rd.Socket(at('app.sock'))
+      await vt.expect(rd.Socket.listen(socket.isAt, () => undefined)).rejects.toThrow(/already listened on/)
+      const connection = await socket.connect()
+      connection.end('ping')
+      const chunks: Buffer[] = []
+      for await (const chunk of connection)
+        chunks.push(chunk as Buffer)
+      vt.expect(Buffer.concat(chunks).toString()).toBe('ping')
+    }
+    vt.expect(fs.existsSync(at('app.sock'))).toBe(false)
+    const stale = childProcess.spawnSync(process.execPath, ['-e', `require('net').createServer().listen(${JSON.stringify(at('stale.sock'))}, () => process.exit())`])
+    vt.expect(stale.status).toBe(0)
+    vt.expect(rd.roadType(at('stale.sock'))).toBe(rd.Socket)
+    await vt.expect(new rd.Socket(at('stale.sock')).connect()).rejects.toMatchObject({ code: 'ECONNREFUSED' })
+    const server = await rd.Socket.listen(at('stale.sock'), connection => connection.end('hi'))
+    const connection = await new rd.Socket(at('stale.sock')).connect()
+    vt.expect((await connection.toArray()).join('')).toBe('hi')
+    server.close_sync()
+    vt.expect(fs.existsSync(at('stale.sock'))).toBe(false)
+    fs.writeFileSync(at('other.sock'), 'not mine')
+    const never = new rd.SocketServer(at('other.sock'), () => undefined) // Never listened, so it owns no socket file
+    never.close_sync()
+    await never.close()
+    vt.expect(fs.readFileSync(at('other.sock'), 'utf-8')).toBe('not mine')
+    vt.expect(errors).toEqual([])
+  })
+})
+
+vt.describe('rd.TempFolder.from()', () => {
+  vt.it('should build a tree that snapshots back into the same shape', async () => {
+    const tree = {
+      a: { 'b.txt': 'text', 'empty': {} },
+      c: { 'd.json': { debug: true, list: [1, 2] } },
+      'e/f/g.bin': Buffer.from([0xff, 0x00, 0xfe]),
+      'run.sh': rd.withMode('#!/bin/sh\n', 0o755),
+      private: rd.withMode({ 'key.pem': rd.withMode('secret', 0o600) }, 0o700),
+      link: rd.symlinkTo('a/b.txt')
+    }
+    await using temp = await rd.TempFolder.from(tree)
+    vt.expect(fs.readFileSync(temp.join('c/d.json'), 'utf-8')).toBe('{\n  "debug": true,\n  "list": [\n    1,\n    2\n  ]\n}\n')
+    vt.expect(fs.readlinkSync(temp.join('link'))).toBe('a/b.txt')
+    const { 'e/f/g.bin': binary, ...rest } = tree
+    vt.expect(await temp.snapshot()).toEqual({ ...rest, e: { f: { 'g.bin': binary } } })
+    temp.populate_sync({ 'a/b.txt': 'changed', 'a/new.txt': '' })
+    vt.expect(temp.snapshot_sync()['a']).toEqual({ 'b.txt': 'changed', 'empty': {}, 'new.txt': '' })
+  })
+
+  vt.it('should reject invalid fixtures and clean up', () => {
+    const before = fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('tempfolder_')).length
+    vt.expect(() => rd.TempFolder.from_sync({ ok: 'x', '../escape.txt': 'x' })).toThrow(/Invalid fixture name/)
+    vt.expect(() => rd.TempFolder.from_sync({ 'n.txt': 1 })).toThrow(/Invalid fixture/)
+    vt.expect(fs.readdirSync(os.tmpdir()).filter(name => name.startsWith('tempfolder_'))).toHaveLength(before)
+    using temp = rd.TempFolder.from_sync({ 'pipe': 'x' })
+    fs.rmSync(temp.join('pipe'))
+    rd.Fifo.create_sync(temp.join('pipe'))
+    vt.expect(() => temp.snapshot_sync()).toThrow(/Cannot snapshot type Fifo/)
+  })
+})
+
+vt.describe('rd.Limiter', () => {
+  vt.afterEach(() => {
+    cleanupItem(path.join(tmpDir, 'wide'))
+    cleanupItem(path.join(tmpDir, 'wide-copies'))
+  })
+
+  vt.it('should cap running tasks and settle all of them', async () => {
+    const limiter = new rd.Limiter(3)
+    let running = 0
+    let peak = 0
+    const done: number[] = []
+    const task = async (n: number) => {
+      peak = Math.max(peak, ++running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+      if (n === 2)
+        throw new Error('task 2 failed')
+      done.push(n)
+      return n * 2
+    }
+    vt.expect(await limiter.map([1, 3, 4, 5, 6], task)).toEqual([2, 6, 8, 10, 12])
+    vt.expect(peak).toBe(3)
+    await vt.expect(limiter.map([1, 2, 3, 4, 5, 6, 7], task)).rejects.toThrow('task 2 failed')
+    vt.expect(done.slice(5).sort()).toEqual([1, 3, 4, 5, 6, 7])
+    vt.expect(() => new rd.Limiter(0)).toThrow(/Invalid concurrency limit/)
+  })
+
+  vt.it('should run bulk folder operations through shared and per-call limiters', async () => {
+    const root = rd.Folder.create_sync(path.join(tmpDir, 'wide'))
+    root.populate_sync(Object.fromEntries(Array.from({ length: 40 }, (_, i) => [`d${i % 4}/f${i}.txt`, `${i % 8}`])))
+    const shared = new rd.Limiter(2)
+    const previous = rd.useConcurrency(shared)
+    try {
+      vt.expect(await root.list()).toHaveLength(4)
+      vt.expect(await root.list(rd.Folder, { concurrency: 1 })).toHaveLength(4)
+      vt.expect(await root.list(null, { concurrency: 3 })).toHaveLength(4)
+      const copy = await root.copy(rd.Folder.create_sync(path.join(tmpDir, 'wide-copies')), { concurrency: 4 })
+      vt.expect(await copy.digest()).toBe(await root.digest('sha256', { concurrency: shared }))
+      vt.expect(await root.find_duplicates('sha256', { concurrency: 3 })).toHaveLength(8)
+      await copy.delete({ concurrency: shared })
+      vt.expect(fs.existsSync(copy.isAt)).toBe(false)
+      vt.expect(shared.active).toBe(0)
+    } finally {
+      vt.expect(rd.useConcurrency(previous)).toBe(shared)
+    }
+  })
+})